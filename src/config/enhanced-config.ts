@@ -13,6 +13,7 @@ import {
   type ErrorHandlingConfig,
   EnvironmentConfigSchema
 } from "../types/mcp.js";
+import { buildSearchConfig } from "./search-config.js";
 
 /**
  * 配置加载策略
@@ -322,7 +323,8 @@ export class EnhancedConfigManager {
         version: env.LDIMS_API_VERSION,
         ...(env.LDIMS_AUTH_TOKEN && { authToken: env.LDIMS_AUTH_TOKEN }),
         timeout: Number(env.LDIMS_API_TIMEOUT),
-        retryCount: Number(env.LDIMS_API_RETRY_COUNT)
+        retryCount: Number(env.LDIMS_API_RETRY_COUNT),
+        search: buildSearchConfig(env)
       },
       logging: {
         level: env.LOG_LEVEL,
@@ -10,6 +10,7 @@ import { z } from "zod";
 import type { McpServiceConfig } from "../types/mcp.js";
 import { EnvironmentConfigSchema, type EnvironmentConfig } from "../types/mcp.js";
 import { getEnhancedConfig, type ConfigLoadOptions, ConfigValidationLevel } from "./enhanced-config.js";
+import { buildSearchConfig } from "./search-config.js";
 
 /**
  * 配置错误类
@@ -81,7 +82,8 @@ export class ConfigManager {
           version: env.LDIMS_API_VERSION,
           ...(env.LDIMS_AUTH_TOKEN && { authToken: env.LDIMS_AUTH_TOKEN }),
           timeout: env.LDIMS_API_TIMEOUT,
-          retryCount: env.LDIMS_API_RETRY_COUNT
+          retryCount: env.LDIMS_API_RETRY_COUNT,
+          search: buildSearchConfig(env)
         },
         logging: {
           level: env.LOG_LEVEL,
@@ -0,0 +1,96 @@
+/**
+ * 搜索配置模块
+ *
+ * 负责将环境变量转换为搜索结果处理配置，供各配置管理器和HTTP模式共用
+ */
+
+import { EnvironmentConfigSchema, type EnvironmentConfig, type SearchConfig } from "../types/mcp.js";
+
+/**
+ * 搜索相关的环境变量Schema
+ */
+export const SearchEnvironmentConfigSchema = EnvironmentConfigSchema.pick({
+  LDIMS_SEARCH_MAX_SNIPPETS: true,
+  LDIMS_RETURN_SNIPPET_SUMMARY: true,
+  LDIMS_DEFAULT_CONTENT_MODE: true,
+  LDIMS_SCORE_WEIGHT_TERM_FREQUENCY: true,
+  LDIMS_SCORE_WEIGHT_PROXIMITY: true,
+  LDIMS_SCORE_WEIGHT_TITLE: true,
+  LDIMS_SCORE_WEIGHT_RECENCY: true,
+  LDIMS_SCORE_RECENCY_HALF_LIFE_DAYS: true,
+  LDIMS_SEGMENTER_DICTIONARY_PATH: true,
+  LDIMS_HIGHLIGHT_PRE_TAG: true,
+  LDIMS_HIGHLIGHT_POST_TAG: true,
+  LDIMS_BATCH_CONCURRENCY: true,
+  LDIMS_BOOST_RULES_PATH: true,
+  LDIMS_FILTER_CATALOG_PATH: true,
+  LDIMS_TIMEZONE: true,
+  LDIMS_CONTENT_CHUNK_SIZE: true,
+  LDIMS_RESOURCE_LIST_SIZE: true,
+  LDIMS_RESOURCE_LIST_SORT: true,
+  LDIMS_FILE_FETCH_CONCURRENCY: true,
+  LDIMS_DOCUMENT_FETCH_DEADLINE: true
+});
+
+export type SearchEnvironmentConfig = Pick<
+  EnvironmentConfig,
+  | "LDIMS_SEARCH_MAX_SNIPPETS"
+  | "LDIMS_RETURN_SNIPPET_SUMMARY"
+  | "LDIMS_DEFAULT_CONTENT_MODE"
+  | "LDIMS_SCORE_WEIGHT_TERM_FREQUENCY"
+  | "LDIMS_SCORE_WEIGHT_PROXIMITY"
+  | "LDIMS_SCORE_WEIGHT_TITLE"
+  | "LDIMS_SCORE_WEIGHT_RECENCY"
+  | "LDIMS_SCORE_RECENCY_HALF_LIFE_DAYS"
+  | "LDIMS_SEGMENTER_DICTIONARY_PATH"
+  | "LDIMS_HIGHLIGHT_PRE_TAG"
+  | "LDIMS_HIGHLIGHT_POST_TAG"
+  | "LDIMS_BATCH_CONCURRENCY"
+  | "LDIMS_BOOST_RULES_PATH"
+  | "LDIMS_FILTER_CATALOG_PATH"
+  | "LDIMS_TIMEZONE"
+  | "LDIMS_CONTENT_CHUNK_SIZE"
+  | "LDIMS_RESOURCE_LIST_SIZE"
+  | "LDIMS_RESOURCE_LIST_SORT"
+  | "LDIMS_FILE_FETCH_CONCURRENCY"
+  | "LDIMS_DOCUMENT_FETCH_DEADLINE"
+>;
+
+/**
+ * 根据已验证的环境变量构建搜索配置
+ */
+export function buildSearchConfig(env: SearchEnvironmentConfig): SearchConfig {
+  return {
+    maxSnippets: env.LDIMS_SEARCH_MAX_SNIPPETS,
+    returnSnippetSummary: env.LDIMS_RETURN_SNIPPET_SUMMARY,
+    defaultContentMode: env.LDIMS_DEFAULT_CONTENT_MODE,
+    scoringWeights: {
+      termFrequency: env.LDIMS_SCORE_WEIGHT_TERM_FREQUENCY,
+      proximity: env.LDIMS_SCORE_WEIGHT_PROXIMITY,
+      title: env.LDIMS_SCORE_WEIGHT_TITLE,
+      recency: env.LDIMS_SCORE_WEIGHT_RECENCY
+    },
+    recencyHalfLifeDays: env.LDIMS_SCORE_RECENCY_HALF_LIFE_DAYS,
+    highlightMarkers: {
+      pre: env.LDIMS_HIGHLIGHT_PRE_TAG,
+      post: env.LDIMS_HIGHLIGHT_POST_TAG
+    },
+    batchConcurrency: env.LDIMS_BATCH_CONCURRENCY,
+    timeZone: env.LDIMS_TIMEZONE,
+    contentChunkSize: env.LDIMS_CONTENT_CHUNK_SIZE,
+    resourceListSize: env.LDIMS_RESOURCE_LIST_SIZE,
+    resourceListSortBy: env.LDIMS_RESOURCE_LIST_SORT,
+    fileFetchConcurrency: env.LDIMS_FILE_FETCH_CONCURRENCY,
+    documentFetchDeadlineMs: env.LDIMS_DOCUMENT_FETCH_DEADLINE,
+    ...(env.LDIMS_SEGMENTER_DICTIONARY_PATH && { segmenterDictionaryPath: env.LDIMS_SEGMENTER_DICTIONARY_PATH }),
+    ...(env.LDIMS_BOOST_RULES_PATH && { boostRulesPath: env.LDIMS_BOOST_RULES_PATH }),
+    ...(env.LDIMS_FILTER_CATALOG_PATH && { filterCatalogPath: env.LDIMS_FILTER_CATALOG_PATH })
+  };
+}
+
+/**
+ * 直接从 process.env 加载搜索配置（HTTP模式使用）
+ */
+export function loadSearchConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SearchConfig {
+  return buildSearchConfig(SearchEnvironmentConfigSchema.parse(env));
+}
@@ -11,8 +11,16 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { randomUUID } from "crypto";
 
-import { GetDocumentFileContentSchema, SearchDocumentsSchema } from "../types/mcp.js";
+import {
+  FindSimilarDocumentsSchema,
+  GetDocumentFileContentSchema,
+  GetDocumentOutlineSchema,
+  GetDocumentSectionSchema,
+  SearchDocumentsBatchSchema,
+  SearchDocumentsSchema
+} from "../types/mcp.js";
 import { handleMcpError } from "../utils/error-handler.js";
+import { loadSearchConfigFromEnv } from "../config/search-config.js";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { type HealthCheckResponse, type HttpMcpResponse, type HttpServerConfig } from "../types/http.js";
 
@@ -39,7 +47,8 @@ export class HttpMcpServer {
       authToken: process.env.LDIMS_AUTH_TOKEN || "",
       timeout: parseInt(process.env.LDIMS_TIMEOUT || "30000", 10),
       version: process.env.LDIMS_API_VERSION || "v1",
-      retryCount: parseInt(process.env.LDIMS_RETRY_COUNT || "3", 10)
+      retryCount: parseInt(process.env.LDIMS_RETRY_COUNT || "3", 10),
+      search: loadSearchConfigFromEnv()
     });
 
     this.setupMiddleware();
@@ -132,10 +141,30 @@ export class HttpMcpServer {
             description: "根据关键词在LDIMS系统中搜索相关文档",
             inputSchema: zodToJsonSchema(SearchDocumentsSchema)
           },
+          {
+            name: "searchDocumentsBatch",
+            description: "批量搜索文档，以有限并发执行多个查询并返回按文档ID去重的合并结果",
+            inputSchema: zodToJsonSchema(SearchDocumentsBatchSchema)
+          },
+          {
+            name: "findSimilarDocuments",
+            description: "查找与指定文档内容相似的其他文档，按余弦相似度排序并返回共有关键词",
+            inputSchema: zodToJsonSchema(FindSimilarDocumentsSchema)
+          },
           {
             name: "get_document_file_content",
             description: "获取指定文档ID的原始文件内容",
             inputSchema: zodToJsonSchema(GetDocumentFileContentSchema)
+          },
+          {
+            name: "get_document_outline",
+            description: "获取文档大纲，返回识别出的标题及其字符偏移",
+            inputSchema: zodToJsonSchema(GetDocumentOutlineSchema)
+          },
+          {
+            name: "get_document_section",
+            description: "按标题或大纲序号获取文档的单个章节",
+            inputSchema: zodToJsonSchema(GetDocumentSectionSchema)
           }
         ]
       };
@@ -151,9 +180,44 @@ export class HttpMcpServer {
           case "searchDocuments":
             result = await this.ldimsService.searchDocuments(args as any);
             break;
-          case "get_document_file_content":
-            result = await this.ldimsService.getDocumentFileContent((args as any).file_id);
+          case "searchDocumentsBatch":
+            result = await this.ldimsService.searchDocumentsBatch(args as any);
             break;
+          case "findSimilarDocuments":
+            result = await this.ldimsService.findSimilarDocuments(args as any);
+            break;
+          case "get_document_outline":
+            result = await this.ldimsService.getDocumentOutline(args as any);
+            break;
+          case "get_document_section":
+            result = await this.ldimsService.getDocumentSection(args as any);
+            break;
+          case "get_document_file_content": {
+            const { file_id, include_metadata, format, offset, length } = GetDocumentFileContentSchema.parse(args);
+            const fileContent = await this.ldimsService.getDocumentFileContent(file_id, include_metadata, format, {
+              offset,
+              ...(length !== undefined && { length })
+            });
+            // base64 格式：原始文件作为二进制资源返回，其余字段以JSON文本返回
+            if (fileContent.format === "base64" && fileContent.found) {
+              const { content, ...details } = fileContent;
+              return {
+                content: [
+                  { type: "text", text: JSON.stringify(details, null, 2) },
+                  {
+                    type: "resource",
+                    resource: {
+                      uri: `ldims://files/${encodeURIComponent(file_id)}`,
+                      mimeType: fileContent.mime_type ?? "application/octet-stream",
+                      blob: content
+                    }
+                  }
+                ]
+              };
+            }
+            result = fileContent;
+            break;
+          }
           default:
             throw new Error(`Tool ${tool} not found`);
         }
@@ -245,11 +309,49 @@ export class HttpMcpServer {
             filters: { type: "object", required: false }
           }
         },
+        {
+          name: "searchDocumentsBatch",
+          description: "批量搜索LDIMS文档",
+          parameters: {
+            queries: { type: "array", required: true }
+          }
+        },
+        {
+          name: "findSimilarDocuments",
+          description: "查找相似LDIMS文档",
+          parameters: {
+            documentId: { type: "string", required: true },
+            maxResults: { type: "number", default: 5 },
+            termCount: { type: "number", default: 5 }
+          }
+        },
         {
           name: "get_document_file_content",
           description: "获取文档文件内容",
           parameters: {
-            file_id: { type: "string", required: true }
+            file_id: { type: "string", required: true },
+            include_metadata: { type: "boolean", default: false },
+            format: { type: "string", enum: ["text", "base64"], default: "text" },
+            offset: { type: "number", default: 0 },
+            length: { type: "number", required: false }
+          }
+        },
+        {
+          name: "get_document_outline",
+          description: "获取文档大纲",
+          parameters: {
+            document_id: { type: "string", required: true }
+          }
+        },
+        {
+          name: "get_document_section",
+          description: "获取文档章节",
+          parameters: {
+            document_id: { type: "string", required: true },
+            title: { type: "string", required: false },
+            index: { type: "number", required: false },
+            offset: { type: "number", default: 0 },
+            length: { type: "number", required: false }
           }
         }
       ];
@@ -6,19 +6,37 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
-  ListResourcesRequestSchema
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  type Tool
 } from "@modelcontextprotocol/sdk/types.js";
 import { ConfigManager } from "./config/index.js";
 import { LdimsApiService } from "./services/ldims-api.js";
+import type { ContentRangeRequest } from "./services/content-range.js";
+import { RESOURCE_TEMPLATES, matchResourceUri, type MatchedResource } from "./services/resource-templates.js";
 import { globalErrorHandler, handleMcpError } from "./utils/error-handler.js";
 import {
   GetDocumentFileContentSchema,
   SearchDocumentsSchema,
+  SearchDocumentsBatchSchema,
+  FindSimilarDocumentsSchema,
+  GetDocumentOutlineSchema,
+  GetDocumentSectionSchema,
+  MAX_BATCH_QUERIES,
+  MAX_CONTENT_CHUNK_SIZE,
+  ContentRangeQuerySchema,
   McpError,
   McpErrorCode,
   type SearchDocumentsResponse,
-  type DocumentExtractedContentResponse,
-  type McpErrorResponse
+  type SearchDocumentsBatchResponse,
+  type FindSimilarDocumentsResponse,
+  type McpErrorResponse,
+  type RecentDocumentsResponse,
+  type RecentDocumentSummary,
+  type FacetName,
+  type SearchExplanation,
+  type QueryVariantKind,
+  type ContentRange
 } from "./types/mcp.js";
 
 // 全局配置和服务实例
@@ -39,6 +57,265 @@ const server = new Server(
   }
 );
 
+/**
+ * searchDocuments 工具的输入Schema（批量搜索的单个查询复用）
+ */
+const SEARCH_DOCUMENTS_INPUT_SCHEMA: Tool["inputSchema"] = {
+  type: "object",
+  properties: {
+    query: {
+      type: "string",
+      description:
+        "自然语言或关键词搜索查询。支持结构化语法：type:类型 submitter:提交人 after:/before:日期、“短语”必须出现、-词 或 NOT 词排除，例如 type:合同 “违约责任” -草稿"
+    },
+    maxResults: {
+      type: "number",
+      description: "返回结果的最大数量。如需更全面的结果可使用更大的数值。",
+      minimum: 1,
+      maximum: 50,
+      default: 5
+    },
+    maxOutputTokens: {
+      type: "number",
+      description:
+        "输出内容的 token 预算（估算值）。设置后排名靠前的文档获得更多内容，靠后的文档仅保留元数据和简短预览；不设置则不限制",
+      minimum: 200,
+      maximum: 100000
+    },
+    cursor: {
+      type: "string",
+      description:
+        "分页游标：传入上一次响应中的 nextCursor 获取下一页结果，需保持 query、filters、排序、maxResults 和 collapseDuplicates 不变"
+    },
+    filters: {
+      type: "object",
+      properties: {
+        dateFrom: {
+          type: "string",
+          description:
+            "文档创建/修改起始日期过滤（ISO格式，或 去年、上季度、2023年3月、最近30天、last week 等日期表达，取其起始时刻）"
+        },
+        dateTo: {
+          type: "string",
+          description: "文档创建/修改结束日期过滤（ISO格式，纯日期包含当天；日期表达取其结束时刻）"
+        },
+        documentType: {
+          type: "string",
+          description: "按文档类型/格式过滤"
+        },
+        submitter: {
+          type: "string",
+          description: "按文档提交人过滤"
+        },
+        departmentName: {
+          type: "string",
+          description: "按文档所属部门过滤"
+        },
+        searchMode: {
+          type: "string",
+          enum: ["exact", "semantic"],
+          description: "搜索模式：'exact'精确匹配，'semantic'语义匹配",
+          default: "semantic"
+        }
+      }
+    },
+    content_mode: {
+      type: "string",
+      enum: ["full", "smart_extract"],
+      description: "内容返回模式：'smart_extract'仅返回命中关键词的上下文片段，'full'返回完整内容。默认由服务配置决定"
+    },
+    context_chars: {
+      type: "number",
+      description: "smart_extract 模式下关键词前后各保留的字符数",
+      minimum: 50,
+      maximum: 2000,
+      default: 400
+    },
+    merge_overlapping: {
+      type: "boolean",
+      description: "是否合并重叠或相邻的片段",
+      default: true
+    },
+    return_scoring_details: {
+      type: "boolean",
+      description: "是否在片段中返回评分明细",
+      default: false
+    },
+    highlight: {
+      type: "boolean",
+      description: "是否用服务配置的标记高亮返回文本中命中的检索词",
+      default: true
+    },
+    facets: {
+      type: "array",
+      items: {
+        type: "string",
+        enum: ["documentType", "departmentName", "submitter", "year"]
+      },
+      description: "需要统计的分面：documentType(文档类型)、departmentName(部门)、submitter(提交人)、year(年份)"
+    },
+    sortBy: {
+      type: "string",
+      enum: ["relevance", "createdAt", "handoverDate", "documentName"],
+      description: "排序字段：relevance(相关度)、createdAt(创建日期)、handoverDate(移交日期)、documentName(文档名称)",
+      default: "relevance"
+    },
+    sortOrder: {
+      type: "string",
+      enum: ["asc", "desc"],
+      description: "排序方向：asc 升序、desc 降序。默认日期和相关度降序（最新在前），文档名称升序"
+    },
+    collapseDuplicates: {
+      type: "boolean",
+      description: "是否将内容近似重复的结果（草稿、扫描件、重复上传等）归并到排名最高的主结果下",
+      default: true
+    },
+    diversity: {
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+      description:
+        "结果多样性（0~1）：大于0时按最大边际相关性重排，使靠前的结果覆盖更多部门、类型和内容；0 仅按相关度排序。仅在 sortBy=relevance 时生效"
+    },
+    explain: {
+      type: "boolean",
+      description: "是否为每个结果返回匹配与评分说明：检索词在各文件中的命中次数、生效的过滤条件和各评分维度的贡献",
+      default: false
+    },
+    queryFallback: {
+      type: "boolean",
+      description:
+        "原始查询零命中时，是否依次使用繁简转换、拼音（如 zhangsan → 张三）和模糊匹配（近音字、错别字）的查询变体重试。仅对首页请求生效",
+      default: true
+    }
+  },
+  required: ["query"]
+};
+
+/**
+ * 评分维度的中文标签
+ */
+const SCORE_COMPONENT_LABELS: Record<keyof SearchExplanation["scoreBreakdown"], string> = {
+  termFrequency: "词频",
+  proximity: "邻近度",
+  title: "标题",
+  recency: "时效性"
+};
+
+/**
+ * 格式化单个结果的匹配与评分说明
+ */
+function formatExplanation(explanation: SearchExplanation): string {
+  const breakdown = Object.entries(explanation.scoreBreakdown)
+    .map(
+      ([name, component]) =>
+        `${SCORE_COMPONENT_LABELS[name as keyof SearchExplanation["scoreBreakdown"]]} ${component.score}×${component.weight}→${component.contribution}`
+    )
+    .join("，");
+  const hits = explanation.termHits
+    .map(hit => {
+      const locations = [
+        ...(hit.titleCount > 0 ? [`标题${hit.titleCount}`] : []),
+        ...(hit.remarksCount > 0 ? [`备注${hit.remarksCount}`] : []),
+        ...hit.files.map(file => `${file.fileName}${file.count}`)
+      ];
+      return `${hit.term}×${hit.total}${locations.length > 0 ? `(${locations.join(", ")})` : ""}`;
+    })
+    .join("；");
+  const filters = explanation.filters
+    .map(
+      filter =>
+        `${filter.filter}=${Array.isArray(filter.value) ? filter.value.join("|") : filter.value}(${filter.appliedAt === "upstream" ? "LDIMS端" : "本地"}${filter.documentValue ? `，文档值 ${filter.documentValue}` : ""})`
+    )
+    .join("；");
+  const boosts = explanation.boosts.map(boost => `${boost.rule}×${boost.factor}`).join("；");
+
+  return `🧭 匹配说明 (窗口排名 ${explanation.rank}):
+     • 评分 ${explanation.baseScore}: ${breakdown}${boosts ? `\n     • 提升规则: ${boosts} → ${explanation.relevanceScore}` : ""}
+     • 命中: ${hits || "无"}${filters ? `\n     • 过滤: ${filters}` : ""}`;
+}
+
+/**
+ * 分面名称的中文标签
+ */
+const FACET_LABELS: Record<FacetName, string> = {
+  documentType: "文档类型",
+  departmentName: "部门",
+  submitter: "提交人",
+  year: "年份"
+};
+
+/**
+ * 查询变体类型的中文标签
+ */
+const QUERY_VARIANT_LABELS: Record<QueryVariantKind, string> = {
+  script: "繁简转换",
+  pinyin: "拼音",
+  fuzzy: "模糊匹配"
+};
+
+/**
+ * 格式化分段读取的内容范围
+ */
+function formatContentRange(range: ContentRange): string {
+  const position =
+    range.length > 0 ? `第 ${range.offset}~${range.offset + range.length - 1} 个字符` : `偏移 ${range.offset} 处无内容`;
+  return `内容范围: ${position}（共 ${range.totalLength} 个字符）${
+    range.hasMore ? `，还有后续内容，继续读取请传入 offset=${range.nextOffset}` : "，已读取到末尾"
+  }`;
+}
+
+/**
+ * 调用文档大纲和章节工具的服务方法：连接失败和错误响应转换为 McpError，未找到章节时提示可用标题
+ */
+async function callDocumentTool<T extends object>(
+  tool: string,
+  documentId: string,
+  fetcher: () => Promise<T | McpErrorResponse>
+): Promise<T> {
+  let result: T | McpErrorResponse;
+  try {
+    result = await globalErrorHandler.executeWithRetry(fetcher, { tool, documentId });
+  } catch (_error) {
+    const errorMessage = _error instanceof Error ? _error.message : String(_error);
+    throw new McpError(McpErrorCode.API_CONNECTION_FAILED, `LDIMS API连接失败: ${errorMessage}`, {
+      userMessage: `无法连接到LDIMS服务，请检查网络连接和服务状态。错误: ${errorMessage}`,
+      details: { endpoint: tool, documentId }
+    });
+  }
+
+  if (isErrorResponse(result)) {
+    if (result.errorCode === "SECTION_NOT_FOUND") {
+      const titles = (result.errorDetails as { headings?: string[] } | undefined)?.headings ?? [];
+      throw McpError.invalidParams(
+        `${result.errorMessage}${titles.length > 0 ? `。可用的章节标题: ${titles.join("、")}` : "，文档中未识别到标题"}`,
+        { documentId }
+      );
+    }
+    throw new McpError(McpErrorCode.API_SERVER_ERROR, `LDIMS API文档内容获取失败: ${result.errorMessage}`, {
+      userMessage: `无法获取文档内容: ${result.errorMessage}`,
+      details: { documentId, errorCode: result.errorCode, errorDetails: result.errorDetails }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * 资源列表中文档的描述：文档类型、提交人、部门和日期
+ */
+function describeRecentDocument(document: RecentDocumentSummary): string {
+  return [
+    document.documentType,
+    document.submitter && `提交人 ${document.submitter}`,
+    document.departmentName,
+    document.createdAt && `创建于 ${new Date(document.createdAt).toLocaleDateString("zh-CN")}`,
+    document.handoverDate && `移交于 ${new Date(document.handoverDate).toLocaleDateString("zh-CN")}`
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
 /**
  * 检查响应是否为错误
  */
@@ -239,87 +516,211 @@ A: 可以通过调整系统参数、优化数据库配置、使用缓存等方
 }
 */
 
-// 工具列表处理
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "get_document_file_content",
-        description: "获取LDIMS系统中指定文档的原始文件内容",
-        inputSchema: {
-          type: "object",
-          properties: {
-            file_id: {
-              type: "string",
-              description: "文档的唯一标识符"
-            }
-          },
-          required: ["file_id"]
+/**
+ * 注册的工具定义（工具列表和启动日志共用）
+ */
+const TOOL_DEFINITIONS: Tool[] = [
+  {
+    name: "get_document_file_content",
+    description: "获取LDIMS系统中指定文档的原始文件内容",
+    inputSchema: {
+      type: "object",
+      properties: {
+        file_id: {
+          type: "string",
+          description: "文档的唯一标识符"
+        },
+        include_metadata: {
+          type: "boolean",
+          description: "是否包含文件元数据信息（文件名、类型、大小、修改时间）",
+          default: false
+        },
+        format: {
+          type: "string",
+          enum: ["text", "base64"],
+          description: "返回内容的格式：text 返回提取的文本，base64 以资源形式返回LDIMS中的原始文件",
+          default: "text"
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "分段读取的起始字符偏移，取自上一次响应的 nextOffset。仅对 text 格式生效",
+          default: 0
+        },
+        length: {
+          type: "number",
+          minimum: 1,
+          maximum: MAX_CONTENT_CHUNK_SIZE,
+          description: `本次读取的最大字符数（1~${MAX_CONTENT_CHUNK_SIZE}），默认由服务配置决定。仅对 text 格式生效`
         }
       },
-      {
-        name: "searchDocuments",
-        description: "在LDIMS系统中搜索文档。支持自然语言查询和语义搜索，帮助用户快速找到相关文档。",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "自然语言或关键词搜索查询。请具体描述您要查找的信息内容。"
-            },
-            maxResults: {
-              type: "number",
-              description: "返回结果的最大数量。如需更全面的结果可使用更大的数值。",
-              minimum: 1,
-              maximum: 50,
-              default: 5
-            },
-            filters: {
-              type: "object",
-              properties: {
-                dateFrom: {
-                  type: "string",
-                  description: "文档创建/修改起始日期过滤（ISO格式）"
-                },
-                dateTo: {
-                  type: "string",
-                  description: "文档创建/修改结束日期过滤（ISO格式）"
-                },
-                documentType: {
-                  type: "string",
-                  description: "按文档类型/格式过滤"
-                },
-                submitter: {
-                  type: "string",
-                  description: "按文档提交人过滤"
-                },
-                searchMode: {
-                  type: "string",
-                  enum: ["exact", "semantic"],
-                  description: "搜索模式：'exact'精确匹配，'semantic'语义匹配",
-                  default: "semantic"
-                }
-              }
-            }
-          },
-          required: ["query"]
+      required: ["file_id"]
+    }
+  },
+  {
+    name: "searchDocuments",
+    description: "在LDIMS系统中搜索文档。支持自然语言查询和语义搜索，帮助用户快速找到相关文档。",
+    inputSchema: SEARCH_DOCUMENTS_INPUT_SCHEMA
+  },
+  {
+    name: "searchDocumentsBatch",
+    description:
+      "在LDIMS系统中批量搜索文档。一次提交多个相关查询（各自可设置过滤条件），以有限并发执行，返回每个查询的结果以及按文档ID去重的合并列表。",
+    inputSchema: {
+      type: "object",
+      properties: {
+        queries: {
+          type: "array",
+          description: "查询列表，每个查询的参数与 searchDocuments 相同",
+          items: SEARCH_DOCUMENTS_INPUT_SCHEMA,
+          minItems: 1,
+          maxItems: MAX_BATCH_QUERIES
+        }
+      },
+      required: ["queries"]
+    }
+  },
+  {
+    name: "findSimilarDocuments",
+    description:
+      "查找与指定文档内容相似的其他文档。从参照文档的提取内容中选取特征词检索候选文档，按TF-IDF余弦相似度排序，返回相似度和共有关键词。",
+    inputSchema: {
+      type: "object",
+      properties: {
+        documentId: {
+          type: "string",
+          description: "作为参照的文档ID，可通过 searchDocuments 结果获取"
+        },
+        maxResults: {
+          type: "number",
+          description: "返回相似文档的最大数量",
+          minimum: 1,
+          maximum: 20,
+          default: 5
+        },
+        termCount: {
+          type: "number",
+          description: "从参照文档中选取、用于检索候选文档的特征词数量",
+          minimum: 1,
+          maximum: 10,
+          default: 5
+        }
+      },
+      required: ["documentId"]
+    }
+  },
+  {
+    name: "get_document_outline",
+    description:
+      "获取文档大纲。识别提取内容中的标题（第X章/第X条、1.2.3 多级编号、Markdown 和全大写标题、文件分隔），返回带字符偏移的目录，便于只读取需要的章节。",
+    inputSchema: {
+      type: "object",
+      properties: {
+        document_id: {
+          type: "string",
+          description: "文档ID，可通过 searchDocuments 结果获取"
+        }
+      },
+      required: ["document_id"]
+    }
+  },
+  {
+    name: "get_document_section",
+    description:
+      "按标题或大纲序号获取文档的单个章节，例如“第八条 违约责任”，无需加载整篇文档。title 和 index 必须且只能指定一个。",
+    inputSchema: {
+      type: "object",
+      properties: {
+        document_id: {
+          type: "string",
+          description: "文档ID，可通过 searchDocuments 结果获取"
+        },
+        title: {
+          type: "string",
+          description: "章节标题，如“第八条 违约责任”、“违约责任”或“第8条”，按完全相同、开头相同、包含的顺序匹配"
+        },
+        index: {
+          type: "number",
+          minimum: 0,
+          description: "章节在 get_document_outline 结果中的序号"
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "章节内分段读取的起始字符偏移，取自上一次响应的 nextOffset",
+          default: 0
+        },
+        length: {
+          type: "number",
+          minimum: 1,
+          maximum: MAX_CONTENT_CHUNK_SIZE,
+          description: `本次读取的最大字符数（1~${MAX_CONTENT_CHUNK_SIZE}），默认由服务配置决定`
         }
+      },
+      required: ["document_id"]
+    }
+  }
+];
+
+// 工具列表处理
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return { tools: TOOL_DEFINITIONS };
+});
+
+// 资源列表处理：列出最近创建或移交的文档，其他资源通过资源模板访问
+server.setRequestHandler(ListResourcesRequestSchema, async request => {
+  const cursor = request.params?.cursor;
+
+  try {
+    let result: RecentDocumentsResponse | McpErrorResponse;
+    try {
+      result = await globalErrorHandler.executeWithRetry(() => ldimsApi.listRecentDocuments(cursor), {
+        resource: "list"
+      });
+    } catch (_error) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      console.error("文档列表API调用失败:", errorMessage);
+
+      throw new McpError(McpErrorCode.API_CONNECTION_FAILED, `文档列表API连接失败: ${errorMessage}`, {
+        userMessage: `无法连接到LDIMS服务获取文档列表，请检查网络连接和服务状态。错误: ${errorMessage}`,
+        details: { operation: "listRecentDocuments" }
+      });
+    }
+
+    if (isErrorResponse(result)) {
+      if (result.errorCode === "INVALID_CURSOR") {
+        throw McpError.invalidParams(result.errorMessage, { cursor });
       }
-    ]
-  };
+      throw new McpError(McpErrorCode.API_SERVER_ERROR, `文档列表获取失败: ${result.errorMessage}`, {
+        userMessage: `无法获取文档列表: ${result.errorMessage}`,
+        details: { errorCode: result.errorCode, errorDetails: result.errorDetails }
+      });
+    }
+
+    return {
+      resources: result.documents.map(document => ({
+        uri: document.uri,
+        name: document.documentName,
+        description: describeRecentDocument(document),
+        mimeType: "text/plain"
+      })),
+      ...(result.nextCursor && { nextCursor: result.nextCursor })
+    };
+  } catch (_error) {
+    const mcpError = handleMcpError(_error, { operation: "resource_list" });
+    throw new Error(mcpError.userMessage ?? mcpError.message);
+  }
 });
 
-// 资源列表处理
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
+// 资源模板列表处理
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
   return {
-    resources: [
-      {
-        uri: "ldims://docs/{document_id}/extracted_content",
-        name: "LDIMS文档提取内容",
-        description: "获取LDIMS系统中文档的提取文本内容，支持各种文档格式的内容提取",
-        mimeType: "text/plain"
-      }
-    ]
+    resourceTemplates: RESOURCE_TEMPLATES.map(({ uriTemplate, name, description, mimeType }) => ({
+      uriTemplate,
+      name,
+      description,
+      mimeType
+    }))
   };
 });
 
@@ -337,22 +738,64 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
         try {
           const result = await globalErrorHandler.executeWithRetry(
             async () => {
-              return await ldimsApi.getDocumentFileContent(validatedArgs.file_id);
+              return await ldimsApi.getDocumentFileContent(
+                validatedArgs.file_id,
+                validatedArgs.include_metadata,
+                validatedArgs.format,
+                {
+                  offset: validatedArgs.offset,
+                  ...(validatedArgs.length !== undefined && { length: validatedArgs.length })
+                }
+              );
             },
-            { tool: name, fileId: validatedArgs.file_id }
+            { tool: name, fileId: validatedArgs.file_id, format: validatedArgs.format }
           );
 
+          if (!result.found) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `文件 ${validatedArgs.file_id}: ${result.message ?? "未找到文件内容"}`
+                }
+              ]
+            };
+          }
+
+          const summary = `文档文件内容获取成功：
+
+文档ID: ${validatedArgs.file_id}${
+            result.metadata
+              ? `
+文档名称: ${result.metadata.filename}
+文件类型: ${result.metadata.mime_type}
+文件大小: ${result.metadata.size} 字节
+最后修改: ${result.metadata.updated_at ?? result.metadata.created_at}`
+              : ""
+          }${result.range ? `\n${formatContentRange(result.range)}` : ""}`;
+
+          // base64 格式：原始文件作为二进制资源返回
+          if (result.format === "base64") {
+            return {
+              content: [
+                { type: "text", text: `${summary}\n\n原始文件以 ${result.mime_type} 资源形式附带` },
+                {
+                  type: "resource",
+                  resource: {
+                    uri: `ldims://files/${encodeURIComponent(validatedArgs.file_id)}`,
+                    mimeType: result.mime_type ?? "application/octet-stream",
+                    blob: result.content
+                  }
+                }
+              ]
+            };
+          }
+
           return {
             content: [
               {
                 type: "text",
-                text: `文档文件内容获取成功：
-
-文档名称: ${result.metadata?.filename ?? "未知"}
-文档ID: ${validatedArgs.file_id}
-文件类型: ${result.metadata?.mime_type ?? "未知"}
-文件大小: ${result.metadata?.size ? `${result.metadata.size} 字节` : "未知"}
-最后修改: ${result.metadata?.updated_at ?? result.metadata?.created_at ?? "未知"}
+                text: `${summary}
 
 文件内容:
 ${result.content}`
@@ -400,6 +843,13 @@ ${result.content}`
           );
 
           if (isErrorResponse(result)) {
+            if (result.errorCode === "INVALID_CURSOR") {
+              throw McpError.invalidParams(result.errorMessage, { cursor: validatedArgs.cursor });
+            }
+            if (result.errorCode === "INVALID_QUERY") {
+              throw McpError.invalidParams(result.errorMessage, { query: validatedArgs.query });
+            }
+
             // 直接返回API错误，不使用Mock数据
             throw new McpError(McpErrorCode.API_SERVER_ERROR, `LDIMS API搜索失败: ${result.errorMessage}`, {
               userMessage: `文档搜索失败: ${result.errorMessage}`,
@@ -440,11 +890,77 @@ ${result.content}`
               text: `🔍 文档搜索结果
 
 📊 数据源: LDIMS API
-查询: "${searchResult.searchMetadata.queryProcessed}"
-搜索模式: ${searchResult.searchMetadata.searchMode}
-执行时间: ${searchResult.searchMetadata.executionTime}
-总匹配数: ${searchResult.totalMatches}
-
+查询: "${searchResult.searchMetadata.queryProcessed}"${
+                searchResult.searchMetadata.queryFallback
+                  ? searchResult.searchMetadata.queryFallback.variant
+                    ? `\n零命中回退: 原始查询 "${searchResult.searchMetadata.queryFallback.originalQuery}" 无结果，以下结果来自${QUERY_VARIANT_LABELS[searchResult.searchMetadata.queryFallback.variant.kind]}变体 "${searchResult.searchMetadata.queryFallback.variant.query}"（${searchResult.searchMetadata.queryFallback.variant.replacements.map(replacement => `${replacement.from}→${replacement.to}`).join("，")}）`
+                    : `\n零命中回退: 已尝试 ${searchResult.searchMetadata.queryFallback.attempted.length} 个查询变体（${searchResult.searchMetadata.queryFallback.attempted.map(attempt => attempt.query).join("、")}），均无结果`
+                  : ""
+              }
+搜索模式: ${searchResult.searchMetadata.searchMode}${
+                searchResult.searchMetadata.queryExpansion &&
+                searchResult.searchMetadata.queryExpansion.terms.length > 0
+                  ? `\n查询扩展: ${searchResult.searchMetadata.queryExpansion.terms.join("、")}`
+                  : ""
+              }${
+                searchResult.searchMetadata.parsedQuery
+                  ? `\n查询解析: 关键词[${searchResult.searchMetadata.parsedQuery.terms.join(", ")}] 短语[${searchResult.searchMetadata.parsedQuery.phrases.join(", ")}] 排除[${searchResult.searchMetadata.parsedQuery.excluded.join(", ")}] 限定符${JSON.stringify(searchResult.searchMetadata.parsedQuery.qualifiers)}`
+                  : ""
+              }${
+                searchResult.searchMetadata.exactMatch
+                  ? `\n精确匹配: "${searchResult.searchMetadata.exactMatch.phrase}"，排除 ${searchResult.searchMetadata.exactMatch.droppedCount} 个未包含完整短语的文档`
+                  : ""
+              }
+内容模式: ${searchResult.searchMetadata.contentProcessing?.contentMode ?? "full"}${
+                searchResult.searchMetadata.queryTerms && searchResult.searchMetadata.queryTerms.length > 0
+                  ? `\n检索词: ${searchResult.searchMetadata.queryTerms.join("、")}`
+                  : ""
+              }${
+                searchResult.searchMetadata.extractedFilters
+                  ? `\n识别的过滤条件: ${searchResult.searchMetadata.extractedFilters.map(extracted => `${extracted.filter}=${extracted.value}（"${extracted.matched}"）`).join("，")}`
+                  : ""
+              }${
+                searchResult.searchMetadata.resolvedDates
+                  ? `\n日期范围: ${searchResult.searchMetadata.resolvedDates.dateFrom ?? "不限"} ~ ${searchResult.searchMetadata.resolvedDates.dateTo ?? "不限"}（${searchResult.searchMetadata.resolvedDates.expressions.map(expression => expression.expression).join("、")}，时区 ${searchResult.searchMetadata.resolvedDates.timeZone}）`
+                  : ""
+              }
+执行时间: ${searchResult.searchMetadata.executionTime}${
+                searchResult.searchMetadata.sort
+                  ? `\n排序: ${searchResult.searchMetadata.sort.sortBy} ${searchResult.searchMetadata.sort.sortOrder}${searchResult.searchMetadata.sort.appliedAt === "local" ? `（本地排序，基于 ${searchResult.searchMetadata.sort.windowSize} 个已获取文档）` : ""}`
+                  : ""
+              }${
+                searchResult.searchMetadata.contentProcessing?.outputBudget
+                  ? `\n输出预算: 约 ${searchResult.searchMetadata.contentProcessing.outputBudget.estimatedTokens}/${searchResult.searchMetadata.contentProcessing.outputBudget.maxOutputTokens} tokens，${searchResult.searchMetadata.contentProcessing.outputBudget.truncatedResults} 个文档内容已截断`
+                  : ""
+              }
+总匹配数: ${searchResult.totalMatches}${
+                searchResult.searchMetadata.collapsedDuplicates
+                  ? `\n近似重复: 已归并 ${searchResult.searchMetadata.collapsedDuplicates} 个文档`
+                  : ""
+              }${
+                searchResult.searchMetadata.diversification
+                  ? `\n结果多样化: diversity=${searchResult.searchMetadata.diversification.diversity}，${searchResult.searchMetadata.diversification.windowSize} 个结果中 ${searchResult.searchMetadata.diversification.reorderedCount} 个调整了位置`
+                  : ""
+              }${
+                searchResult.searchMetadata.filtersApplied &&
+                searchResult.searchMetadata.filtersApplied.upstream.length +
+                  searchResult.searchMetadata.filtersApplied.local.length >
+                  0
+                  ? `\n过滤条件: LDIMS端[${searchResult.searchMetadata.filtersApplied.upstream.join(", ")}] 本地[${searchResult.searchMetadata.filtersApplied.local.join(", ")}]，本地排除 ${searchResult.searchMetadata.filtersApplied.excludedCount} 个文档`
+                  : ""
+              }
+${
+  searchResult.searchMetadata.facets
+    ? `\n📊 分面统计（基于 ${searchResult.searchMetadata.facets.windowSize} 个已获取文档）:\n${Object.entries(
+        searchResult.searchMetadata.facets.counts
+      )
+        .map(
+          ([facet, buckets]) =>
+            `• ${FACET_LABELS[facet as FacetName]}: ${buckets.map(bucket => `${bucket.value}(${bucket.count})`).join("、")}`
+        )
+        .join("\n")}\n`
+    : ""
+}
 找到 ${searchResult.results.length} 个相关文档：
 
 ${searchResult.results
@@ -457,19 +973,58 @@ ${searchResult.results
    📋 文档类型: ${doc.metadata.documentType}
    ${doc.metadata.departmentName ? `🏢 部门: ${doc.metadata.departmentName}` : ""}
    📁 文件数量: ${doc.metadata.fileCount || 0}
+   ${
+     doc.metadata.appliedBoosts && doc.metadata.appliedBoosts.length > 0
+       ? `⚖️ 提升规则: ${doc.metadata.appliedBoosts.map(boost => `${boost.rule}×${boost.factor}`).join("，")}`
+       : ""
+   }
+   ${
+     doc.exactMatches && doc.exactMatches.length > 0
+       ? `🎯 精确命中:\n${doc.exactMatches
+           .map(
+             match =>
+               `     • ${match.field === "file" ? `文件 ${match.fileName} (ID: ${match.fileId})` : match.field === "docName" ? "文档名称" : "文档备注"} 位置: ${match.positions.join(", ")}`
+           )
+           .join("\n")}`
+       : ""
+   }
+   ${
+     doc.duplicates && doc.duplicates.length > 0
+       ? `🗂️ 其他版本:\n${doc.duplicates
+           .map(
+             duplicate =>
+               `     • ${duplicate.documentName} (ID: ${duplicate.documentId}, 相似度: ${(duplicate.similarity * 100).toFixed(0)}%)`
+           )
+           .join("\n")}`
+       : ""
+   }
    ${
      doc.metadata.fileDetails && doc.metadata.fileDetails.length > 0
        ? `📎 文件列表:\n${doc.metadata.fileDetails.map(file => `     • 文件ID: ${file.fileId} | 文件名: ${file.fileName} | 内容长度: ${file.contentLength}字符`).join("\n")}`
        : ""
    }
    
-   📝 匹配内容预览:
-   ${doc.matchedContext}
+   ${
+     doc.snippets && doc.snippets.length > 0
+       ? `📝 命中片段 (${doc.snippets.length}):\n${doc.snippets
+           .map(
+             (snippet, snippetIndex) =>
+               `   [${snippetIndex + 1}] ${snippet.file_name} (文件ID: ${snippet.file_id}, 位置: ${snippet.original_char_start}-${snippet.original_char_end}, 评分: ${snippet.relevance_score.toFixed(2)}, 关键词: ${snippet.keywords_matched.join("、")})\n   ${snippet.highlighted_content ?? snippet.content}`
+           )
+           .join("\n\n")}`
+       : `📝 匹配内容预览:\n   ${doc.matchedContext}`
+   }${doc.contentTruncated ? "\n   ✂️ 内容已按输出预算截断" : ""}${doc.explanation ? `\n   ${formatExplanation(doc.explanation)}` : ""}
 `
   )
   .join("\n")}
 
-💡 下一步操作:
+💡 下一步操作:${
+                searchResult.nextCursor
+                  ? `\n• 还有更多结果，使用 cursor="${searchResult.nextCursor}" 并保持相同的 query、filters、排序和 maxResults 获取下一页`
+                  : searchResult.searchMetadata.sort?.windowLimited
+                    ? "\n• 已到达本地排序窗口末尾，窗口外的结果未参与排序；需要更多结果时请增大 maxResults"
+                    : ""
+              }
 • 使用 ldims://docs/{document_id}/extracted_content 资源获取完整文档内容
 • 通过文档ID调用 get_document_file_content 工具获取原始文件`
             }
@@ -477,12 +1032,222 @@ ${searchResult.results
         };
       }
 
+      case "searchDocumentsBatch": {
+        const validatedArgs = SearchDocumentsBatchSchema.parse(args);
+
+        console.log(`[批量搜索] 开始执行 ${validatedArgs.queries.length} 个查询`);
+
+        let result: SearchDocumentsBatchResponse | McpErrorResponse;
+        try {
+          result = await ldimsApi.searchDocumentsBatch(validatedArgs);
+        } catch (_error) {
+          const errorMessage = _error instanceof Error ? _error.message : String(_error);
+          throw new McpError(McpErrorCode.API_CONNECTION_FAILED, `LDIMS API连接失败: ${errorMessage}`, {
+            userMessage: `无法连接到LDIMS服务，请检查网络连接和服务状态。错误: ${errorMessage}`,
+            details: { endpoint: "searchDocumentsBatch" }
+          });
+        }
+
+        if (isErrorResponse(result)) {
+          throw new McpError(McpErrorCode.API_SERVER_ERROR, `LDIMS API批量搜索失败: ${result.errorMessage}`, {
+            userMessage: `批量搜索失败: ${result.errorMessage}`,
+            details: { errorCode: result.errorCode, errorDetails: result.errorDetails }
+          });
+        }
+
+        const batch = result;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `🔍 批量搜索结果
+
+📊 数据源: LDIMS API
+查询数: ${batch.batchMetadata.queryCount}（成功 ${batch.batchMetadata.succeeded}，失败 ${batch.batchMetadata.failed}）
+并发上限: ${batch.batchMetadata.concurrency}
+执行时间: ${batch.batchMetadata.executionTime}
+
+${batch.results
+  .map(item =>
+    item.response
+      ? `🔎 查询 ${item.index + 1}: "${item.query}"（总匹配 ${item.response.totalMatches}，返回 ${item.response.results.length}）${
+          item.response.nextCursor ? `\n   下一页游标: ${item.response.nextCursor}` : ""
+        }
+${item.response.results
+  .map(
+    (
+      doc,
+      docIndex
+    ) => `   📄 ${docIndex + 1}. ${doc.documentName} (ID: ${doc.documentId}, 相关度: ${(doc.relevanceScore * 100).toFixed(1)}%)
+      ${doc.matchedContext.replace(/\n/g, "\n      ")}`
+  )
+  .join("\n")}`
+      : `❌ 查询 ${item.index + 1}: "${item.query}" 失败: ${item.error?.errorMessage ?? "未知错误"}`
+  )
+  .join("\n\n")}
+
+📚 合并去重后共 ${batch.merged.length} 个文档：
+${batch.merged
+  .map(
+    (doc, index) =>
+      `${index + 1}. ${doc.documentName} (ID: ${doc.documentId}) | 最高相关度: ${(doc.relevanceScore * 100).toFixed(1)}% | 命中查询: ${doc.matchedQueries.map(queryIndex => queryIndex + 1).join(", ")} | ${doc.metadata.documentType} | ${doc.metadata.departmentName ?? "未知部门"}`
+  )
+  .join("\n")}
+
+💡 下一步操作:
+• 使用 ldims://docs/{document_id}/extracted_content 资源获取完整文档内容
+• 对单个查询使用 searchDocuments 的 cursor 参数获取更多结果`
+            }
+          ]
+        };
+      }
+
+      case "findSimilarDocuments": {
+        const validatedArgs = FindSimilarDocumentsSchema.parse(args);
+
+        console.log(`[相似文档] 参照文档: ${validatedArgs.documentId}`);
+
+        let result: FindSimilarDocumentsResponse | McpErrorResponse;
+        try {
+          result = await ldimsApi.findSimilarDocuments(validatedArgs);
+        } catch (_error) {
+          const errorMessage = _error instanceof Error ? _error.message : String(_error);
+          throw new McpError(McpErrorCode.API_CONNECTION_FAILED, `LDIMS API连接失败: ${errorMessage}`, {
+            userMessage: `无法连接到LDIMS服务，请检查网络连接和服务状态。错误: ${errorMessage}`,
+            details: { endpoint: "findSimilarDocuments" }
+          });
+        }
+
+        if (isErrorResponse(result)) {
+          if (result.errorCode === "NO_DISTINCTIVE_TERMS") {
+            throw McpError.invalidParams(result.errorMessage, { documentId: validatedArgs.documentId });
+          }
+          throw new McpError(McpErrorCode.API_SERVER_ERROR, `LDIMS API相似文档查找失败: ${result.errorMessage}`, {
+            userMessage: `相似文档查找失败: ${result.errorMessage}`,
+            details: {
+              documentId: validatedArgs.documentId,
+              errorCode: result.errorCode,
+              errorDetails: result.errorDetails
+            }
+          });
+        }
+
+        const similar = result;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `🔗 相似文档
+
+📊 数据源: LDIMS API
+参照文档: ${similar.sourceDocument.documentName} (ID: ${similar.sourceDocument.documentId})
+特征词: ${similar.queryTerms.join("、")}
+候选文档数: ${similar.searchMetadata.candidateCount}
+执行时间: ${similar.searchMetadata.executionTime}
+
+${
+  similar.results.length > 0
+    ? `找到 ${similar.results.length} 个相似文档：
+
+${similar.results
+  .map(
+    (doc, index) => `📄 ${index + 1}. ${doc.documentName}
+   🆔 文档ID: ${doc.documentId}
+   📈 相似度: ${(doc.similarity * 100).toFixed(1)}%
+   🔑 共有关键词: ${doc.sharedTerms.join("、")}
+   📋 ${doc.metadata.documentType} | 🏢 ${doc.metadata.departmentName ?? "未知部门"} | 👤 ${doc.metadata.submitter}`
+  )
+  .join("\n\n")}`
+    : "未找到相似文档"
+}
+
+💡 下一步操作:
+• 使用 ldims://docs/{document_id}/extracted_content 资源对比文档内容`
+            }
+          ]
+        };
+      }
+
+      case "get_document_outline": {
+        const validatedArgs = GetDocumentOutlineSchema.parse(args);
+        const outline = await callDocumentTool(name, validatedArgs.document_id, () =>
+          ldimsApi.getDocumentOutline(validatedArgs)
+        );
+        const minLevel = Math.min(...outline.headings.map(heading => heading.level));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `📑 文档大纲
+
+📊 数据源: LDIMS API
+文档: ${outline.documentName} (ID: ${outline.documentId})
+内容总长度: ${outline.totalLength} 个字符
+
+${
+  outline.headings.length > 0
+    ? `共识别 ${outline.headings.length} 个标题：
+
+${outline.headings
+  .map(
+    heading =>
+      `${"  ".repeat(heading.level - minLevel)}[${heading.index}] ${heading.title}（偏移 ${heading.offset}，${
+        heading.endOffset - heading.offset
+      } 个字符）`
+  )
+  .join("\n")}`
+    : "未识别到标题"
+}
+
+💡 下一步操作:
+• 使用 get_document_section 按 title 或 index 读取单个章节
+• 使用 ldims://docs/{documentId}/extracted_content?offset={偏移} 资源从指定位置读取`
+            }
+          ]
+        };
+      }
+
+      case "get_document_section": {
+        const validatedArgs = GetDocumentSectionSchema.parse(args);
+        const section = await callDocumentTool(name, validatedArgs.document_id, () =>
+          ldimsApi.getDocumentSection(validatedArgs)
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `📖 ${section.heading.title}
+
+文档: ${section.documentName} (ID: ${section.documentId})
+大纲序号: ${section.heading.index}
+章节位置: 偏移 ${section.heading.offset}~${section.heading.endOffset - 1}（共 ${
+                section.heading.endOffset - section.heading.offset
+              } 个字符）
+章节内${formatContentRange(section.range)}
+
+${section.text}`
+            }
+          ]
+        };
+      }
+
       default:
         throw new McpError(McpErrorCode.TOOL_NOT_FOUND, `未知工具: ${name}`, {
           userMessage: `工具 "${name}" 不存在，请检查工具名称是否正确`,
           details: {
             requestedTool: name,
-            availableTools: ["get_document_file_content", "searchDocuments"]
+            availableTools: [
+              "get_document_file_content",
+              "searchDocuments",
+              "searchDocumentsBatch",
+              "findSimilarDocuments",
+              "get_document_outline",
+              "get_document_section"
+            ]
           }
         });
     }
@@ -505,70 +1270,26 @@ server.setRequestHandler(ReadResourceRequestSchema, async request => {
   const { uri } = request.params;
 
   try {
-    // 解析资源URI
-    const uriPattern = /^ldims:\/\/docs\/([^/]+)\/extracted_content$/;
-    const match = uri.match(uriPattern);
+    // 按资源模板路由
+    const resource = matchResourceUri(uri);
 
-    if (!match?.[1]) {
+    if (!resource) {
       throw McpError.resourceNotFound(uri, {
         reason: "URI格式不正确",
-        expectedFormat: "ldims://docs/{document_id}/extracted_content"
+        expectedFormats: RESOURCE_TEMPLATES.map(template => template.uriTemplate)
       });
     }
 
-    const documentId = match[1];
-
-    // 尝试调用真实API获取文档内容
-    let result: DocumentExtractedContentResponse | McpErrorResponse;
-
-    try {
-      result = await globalErrorHandler.executeWithRetry(
-        async () => {
-          return await ldimsApi.getDocumentExtractedContent(documentId);
-        },
-        { resource: "extracted_content", documentId }
-      );
-
-      if (isErrorResponse(result)) {
-        // 直接返回API错误，不使用Mock数据
-        throw new McpError(McpErrorCode.API_SERVER_ERROR, `文档内容提取失败: ${result.errorMessage}`, {
-          userMessage: `无法获取文档内容: ${result.errorMessage}`,
-          details: {
-            documentId,
-            errorCode: result.errorCode,
-            errorDetails: result.errorDetails
-          }
-        });
-      }
-    } catch (_error) {
-      // 直接抛出错误，不使用Mock数据
-      if (_error instanceof McpError) {
-        throw _error;
-      }
-
-      const errorMessage = _error instanceof Error ? _error.message : String(_error);
-      console.error("文档内容提取API调用失败:", errorMessage);
-
-      throw new McpError(McpErrorCode.API_CONNECTION_FAILED, `文档内容提取API连接失败: ${errorMessage}`, {
-        userMessage: `无法连接到LDIMS服务获取文档内容，请检查网络连接和服务状态。错误: ${errorMessage}`,
-        details: {
-          documentId,
-          operation: "getDocumentExtractedContent"
-        }
-      });
+    switch (resource.kind) {
+      case "metadata":
+        return await readDocumentMetadata(uri, resource);
+      case "files":
+        return await readDocumentFiles(uri, resource);
+      case "fileContent":
+        return await readFileContent(uri, resource);
+      case "extractedContent":
+        return await readExtractedContent(uri, resource);
     }
-
-    const content = result;
-
-    return {
-      contents: [
-        {
-          uri: content.uri,
-          text: content.text,
-          metadata: content.metadata
-        }
-      ]
-    };
   } catch (_error) {
     const mcpError = handleMcpError(_error, {
       uri,
@@ -578,6 +1299,138 @@ server.setRequestHandler(ReadResourceRequestSchema, async request => {
   }
 });
 
+/**
+ * 解析资源URI中的分段读取参数（offset/length），未指定 length 时由服务使用配置的默认分段长度
+ */
+function parseContentRange(uri: string, resource: MatchedResource): ContentRangeRequest {
+  const rangeQuery = ContentRangeQuerySchema.safeParse(Object.fromEntries(resource.query));
+  if (!rangeQuery.success) {
+    throw McpError.invalidParams(`资源URI的分段参数无效: ${rangeQuery.error.errors[0]?.message ?? uri}`, {
+      uri
+    });
+  }
+  return {
+    offset: rangeQuery.data.offset,
+    ...(rangeQuery.data.length !== undefined && { length: rangeQuery.data.length })
+  };
+}
+
+/**
+ * 调用LDIMS获取资源数据，错误响应和连接失败统一转换为 McpError（文档或文件不存在时为 RESOURCE_NOT_FOUND）
+ */
+async function fetchResource<T extends object>(
+  uri: string,
+  operation: string,
+  details: Record<string, unknown>,
+  fetcher: () => Promise<T | McpErrorResponse>
+): Promise<T> {
+  let result: T | McpErrorResponse;
+
+  try {
+    result = await globalErrorHandler.executeWithRetry(fetcher, { resource: operation, ...details });
+  } catch (_error) {
+    const errorMessage = _error instanceof Error ? _error.message : String(_error);
+    console.error(`${operation} 资源API调用失败:`, errorMessage);
+
+    throw new McpError(McpErrorCode.API_CONNECTION_FAILED, `资源API连接失败: ${errorMessage}`, {
+      userMessage: `无法连接到LDIMS服务获取资源，请检查网络连接和服务状态。错误: ${errorMessage}`,
+      details: { ...details, operation }
+    });
+  }
+
+  if (isErrorResponse(result)) {
+    if (result.errorCode === "DOCUMENT_NOT_FOUND" || result.errorCode === "FILE_NOT_FOUND") {
+      throw McpError.resourceNotFound(uri, { reason: result.errorMessage, ...details });
+    }
+    throw new McpError(McpErrorCode.API_SERVER_ERROR, `资源获取失败: ${result.errorMessage}`, {
+      userMessage: `无法获取资源: ${result.errorMessage}`,
+      details: {
+        ...details,
+        errorCode: result.errorCode,
+        errorDetails: result.errorDetails
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * 读取文档元数据资源
+ */
+async function readDocumentMetadata(uri: string, resource: MatchedResource) {
+  const metadata = await fetchResource(uri, "metadata", { documentId: resource.documentId }, () =>
+    ldimsApi.getDocumentMetadata(resource.documentId)
+  );
+
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(metadata, null, 2) }]
+  };
+}
+
+/**
+ * 读取文档文件列表资源
+ */
+async function readDocumentFiles(uri: string, resource: MatchedResource) {
+  const files = await fetchResource(uri, "files", { documentId: resource.documentId }, () =>
+    ldimsApi.listDocumentFiles(resource.documentId)
+  );
+
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(files, null, 2) }]
+  };
+}
+
+/**
+ * 读取单个文件的提取内容资源
+ */
+async function readFileContent(uri: string, resource: MatchedResource) {
+  const fileId = resource.fileId!;
+  const range = parseContentRange(uri, resource);
+  const file = await fetchResource(uri, "file_content", { documentId: resource.documentId, fileId }, () =>
+    ldimsApi.getDocumentFile(resource.documentId, fileId, range)
+  );
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "text/plain",
+        text: file.content,
+        metadata: {
+          documentId: resource.documentId,
+          fileId,
+          found: file.found ?? true,
+          ...(file.message && { message: file.message }),
+          ...(file.metadata && { filename: file.metadata.filename, mimeType: file.metadata.mime_type }),
+          ...(file.range && { range: file.range })
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * 读取文档提取内容资源
+ */
+async function readExtractedContent(uri: string, resource: MatchedResource) {
+  const range = parseContentRange(uri, resource);
+  const content = await fetchResource(uri, "extracted_content", { documentId: resource.documentId }, () =>
+    ldimsApi.getDocumentExtractedContent(resource.documentId, range)
+  );
+
+  return {
+    contents: [
+      {
+        uri: content.uri,
+        mimeType: "text/plain",
+        text: content.text,
+        metadata: content.metadata
+      }
+    ]
+  };
+}
+
 /**
  * 初始化服务器
  */
@@ -590,8 +1443,8 @@ async function initializeServer() {
     ldimsApi = new LdimsApiService(configManager.getConfig().ldims);
 
     console.log("🚀 LDIMS MCP服务器初始化完成");
-    console.log("📋 支持的工具: get_document_file_content, searchDocuments");
-    console.log("📋 支持的资源: ldims://docs/{document_id}/extracted_content");
+    console.log(`📋 支持的工具: ${TOOL_DEFINITIONS.map(tool => tool.name).join(", ")}`);
+    console.log(`📋 支持的资源模板: ${RESOURCE_TEMPLATES.map(template => template.uriTemplate).join(", ")}`);
   } catch (_error) {
     console.error("❌ 服务器初始化失败:", _error);
     console.warn("🔄 继续启动（将使用Mock数据）");
@@ -0,0 +1,212 @@
+/**
+ * 相关性提升规则模块
+ *
+ * 从 JSON 规则文件加载按元数据提升或压低结果的规则，例如：
+ *   { "rules": [
+ *     { "type": "metadata", "field": "departmentName", "equals": "法务部", "factor": 1.2 },
+ *     { "type": "metadata", "field": "documentType", "equals": "草稿", "factor": 0.2 },
+ *     { "type": "recencyDecay", "field": "createdAt", "halfLifeDays": 730 }
+ *   ] }
+ * 规则文件修改后在下一次搜索时自动重新加载，无需重启服务
+ */
+
+import * as fs from "fs";
+import { z } from "zod";
+import type { AppliedBoost } from "../types/mcp.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 元数据规则：字段取值匹配时将得分乘以 factor（大于1提升，小于1压低）
+ */
+const MetadataBoostRuleSchema = z
+  .object({
+    type: z.literal("metadata"),
+    name: z.string().min(1).optional(),
+    field: z.enum(["documentType", "departmentName", "submitter", "documentName"]),
+    equals: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+    contains: z.string().min(1).optional(),
+    factor: z.number().min(0)
+  })
+  .refine(
+    rule => (rule.equals === undefined) !== (rule.contains === undefined),
+    "equals 和 contains 必须且只能指定一个"
+  );
+
+/**
+ * 时效衰减规则：得分乘以 0.5^(文档年龄/半衰期)，不低于 minFactor
+ */
+const RecencyDecayRuleSchema = z.object({
+  type: z.literal("recencyDecay"),
+  name: z.string().min(1).optional(),
+  field: z.enum(["createdAt", "handoverDate"]).default("createdAt"),
+  halfLifeDays: z.number().positive(),
+  minFactor: z.number().min(0).max(1).default(0)
+});
+
+const BoostRulesFileSchema = z.object({
+  rules: z.array(z.union([MetadataBoostRuleSchema, RecencyDecayRuleSchema]))
+});
+
+export type BoostRule = z.infer<typeof BoostRulesFileSchema>["rules"][number];
+
+/**
+ * 规则匹配所需的文档字段
+ */
+export interface BoostableDocument {
+  docName?: string | null | undefined;
+  docTypeName?: string | null | undefined;
+  departmentName?: string | null | undefined;
+  sourceDepartmentName?: string | null | undefined;
+  submitter?: string | null | undefined;
+  createdAt?: string | null | undefined;
+  handoverDate?: string | null | undefined;
+}
+
+/**
+ * 规则应用结果
+ */
+export interface BoostResult {
+  /** 各规则系数的乘积 */
+  factor: number;
+  /** 实际生效的规则 */
+  applied: AppliedBoost[];
+}
+
+/**
+ * 解析规则文件内容
+ */
+export function parseBoostRules(content: string): BoostRule[] {
+  return BoostRulesFileSchema.parse(JSON.parse(content)).rules;
+}
+
+function metadataValue(
+  document: BoostableDocument,
+  field: "documentType" | "departmentName" | "submitter" | "documentName"
+) {
+  switch (field) {
+    case "documentType":
+      return document.docTypeName;
+    case "departmentName":
+      return document.sourceDepartmentName ?? document.departmentName;
+    case "submitter":
+      return document.submitter;
+    case "documentName":
+      return document.docName;
+  }
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * 规则的默认名称
+ */
+function describeRule(rule: BoostRule): string {
+  if (rule.type === "recencyDecay") {
+    return `${rule.field} 半衰期 ${rule.halfLifeDays} 天`;
+  }
+  const condition =
+    rule.equals !== undefined
+      ? `=${Array.isArray(rule.equals) ? rule.equals.join("|") : rule.equals}`
+      : ` 包含 ${rule.contains}`;
+  return `${rule.field}${condition}`;
+}
+
+/**
+ * 计算单条规则对文档的系数，不适用时返回 undefined
+ */
+function ruleFactor(rule: BoostRule, document: BoostableDocument, now: number): number | undefined {
+  if (rule.type === "recencyDecay") {
+    const date = document[rule.field] ? Date.parse(document[rule.field]!) : NaN;
+    if (Number.isNaN(date)) {
+      return undefined;
+    }
+    const ageDays = Math.max(0, (now - date) / DAY_MS);
+    return Math.max(rule.minFactor, Math.pow(0.5, ageDays / rule.halfLifeDays));
+  }
+
+  const value = normalize(metadataValue(document, rule.field) ?? "");
+  if (!value) {
+    return undefined;
+  }
+  const matched =
+    rule.equals !== undefined
+      ? (Array.isArray(rule.equals) ? rule.equals : [rule.equals]).some(expected => normalize(expected) === value)
+      : value.includes(normalize(rule.contains ?? ""));
+  return matched ? rule.factor : undefined;
+}
+
+/**
+ * 对文档应用全部规则
+ */
+export function applyBoostRules(
+  rules: BoostRule[],
+  document: BoostableDocument,
+  now: number = Date.now()
+): BoostResult {
+  let factor = 1;
+  const applied: AppliedBoost[] = [];
+  for (const rule of rules) {
+    const ruleResult = ruleFactor(rule, document, now);
+    if (ruleResult === undefined || ruleResult === 1) {
+      continue;
+    }
+    factor *= ruleResult;
+    applied.push({ rule: rule.name ?? describeRule(rule), factor: Math.round(ruleResult * 1000) / 1000 });
+  }
+  return { factor, applied };
+}
+
+/**
+ * 可热加载的规则集：每次读取时检查文件修改时间和大小，变化后重新加载；
+ * 新内容无效时保留上一次成功加载的规则，文件被删除时清空规则
+ */
+export class BoostRuleSet {
+  private rules: BoostRule[] = [];
+  private loadedVersion: string | undefined;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger: Pick<Console, "info" | "warn"> = console
+  ) {}
+
+  /**
+   * 获取当前规则（必要时重新加载）
+   */
+  getRules(): BoostRule[] {
+    this.reloadIfChanged();
+    return this.rules;
+  }
+
+  private reloadIfChanged(): void {
+    let version: string;
+    try {
+      const stat = fs.statSync(this.filePath);
+      version = `${stat.mtimeMs}:${stat.size}`;
+    } catch (_error) {
+      if (this.loadedVersion !== "missing") {
+        this.logger.warn(`[提升规则] 规则文件不存在或无法访问，已停用提升规则: ${this.filePath}`);
+        this.rules = [];
+        this.loadedVersion = "missing";
+      }
+      return;
+    }
+
+    if (version === this.loadedVersion) {
+      return;
+    }
+    this.loadedVersion = version;
+
+    try {
+      this.rules = parseBoostRules(fs.readFileSync(this.filePath, "utf8"));
+      this.logger.info(`[提升规则] 已加载 ${this.rules.length} 条规则: ${this.filePath}`);
+    } catch (_error) {
+      this.logger.warn(
+        `[提升规则] 规则文件无效，继续使用上一次加载的 ${this.rules.length} 条规则: ${this.filePath}`,
+        _error
+      );
+    }
+  }
+}
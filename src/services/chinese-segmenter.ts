@@ -0,0 +1,344 @@
+/**
+ * 中文分词模块
+ *
+ * 基于词典的最大匹配分词（动态规划，优先较长词语），用于将查询拆分为本地评分和高亮使用的词。
+ * 内置常用公文/业务词汇，可通过用户词典文件扩展（每行一个词，# 开头为注释）
+ */
+
+import * as fs from "fs";
+
+/**
+ * 内置词典
+ */
+const BUILTIN_WORDS = [
+  // 合同与法务
+  "合同",
+  "协议",
+  "契约",
+  "条款",
+  "违约",
+  "毁约",
+  "责任",
+  "赔偿",
+  "保密",
+  "知识产权",
+  "签署",
+  "签订",
+  "续签",
+  "盖章",
+  "印章",
+  "法务",
+  "法律",
+  "合规",
+  "风险",
+  "终止",
+  "解除",
+  "变更",
+  "期限",
+  "争议",
+  "仲裁",
+  "甲方",
+  "乙方",
+  "丙方",
+  "双方",
+  "承担",
+  "约定",
+  "协商",
+  "解决",
+  "事宜",
+  // 采购与财务
+  "设备",
+  "采购",
+  "购买",
+  "招标",
+  "投标",
+  "供应商",
+  "客户",
+  "报价",
+  "价格",
+  "金额",
+  "付款",
+  "支付",
+  "付费",
+  "收款",
+  "结算",
+  "对账",
+  "发票",
+  "税务",
+  "财务",
+  "预算",
+  "费用",
+  "开支",
+  "支出",
+  "报销",
+  "审计",
+  "资产",
+  "固定资产",
+  "租赁",
+  // 流程与管理
+  "审批",
+  "批准",
+  "核准",
+  "审核",
+  "流程",
+  "申请",
+  "管理",
+  "制度",
+  "规定",
+  "办法",
+  "规范",
+  "标准",
+  "通知",
+  "公告",
+  "通告",
+  "报告",
+  "汇报",
+  "会议",
+  "纪要",
+  "计划",
+  "总结",
+  "方案",
+  "检查",
+  "整改",
+  "验收",
+  "安全",
+  "质量",
+  // 组织与人事
+  "公司",
+  "企业",
+  "单位",
+  "部门",
+  "员工",
+  "职工",
+  "雇员",
+  "人事",
+  "招聘",
+  "培训",
+  "考核",
+  "绩效",
+  "薪酬",
+  "工资",
+  "福利",
+  "考勤",
+  "请假",
+  // 文档与系统
+  "档案",
+  "文件",
+  "文档",
+  "资料",
+  "归档",
+  "移交",
+  "交接",
+  "项目",
+  "工程",
+  "施工",
+  "维修",
+  "维护",
+  "保养",
+  "技术",
+  "设计",
+  "信息",
+  "系统",
+  "数据",
+  "网络",
+  "软件",
+  "硬件",
+  "服务",
+  "运维",
+  // 时间
+  "年度",
+  "季度",
+  "月度"
+];
+
+/**
+ * 停用词：分词后不作为检索词
+ */
+const STOP_WORDS = new Set([
+  "的",
+  "了",
+  "和",
+  "与",
+  "及",
+  "或",
+  "在",
+  "对",
+  "是",
+  "把",
+  "被",
+  "从",
+  "向",
+  "关于",
+  "有关",
+  "相关",
+  "以及",
+  "其他",
+  "一个",
+  "哪些",
+  "什么",
+  "如何",
+  "怎么"
+]);
+
+/**
+ * 虚词：构建词项向量时在这些字处断开未登录片段（如 乙方就光伏逆变器 → 乙方 / 光伏逆变器）
+ */
+const FUNCTION_CHAR_PATTERN =
+  /[就由向将为按于并其该等已均应被给让使以而则但也都还又再所之此本各每如若即不无未可能会需须]/;
+
+/** 未登录片段作为一个检索词的最大长度，更长时切分为二元组 */
+const MAX_UNKNOWN_TERM_LENGTH = 4;
+
+/** 中日韩统一表意文字 */
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/** 连续的汉字片段或非汉字片段 */
+const RUN_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]+|[^\u3400-\u9fff\uf900-\ufaff\s]+/g;
+
+/** 非汉字片段首尾的标点 */
+const EDGE_PUNCTUATION_PATTERN = /^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu;
+
+/**
+ * 读取用户词典文件（每行一个词，可在词后附加空白分隔的词频/词性，# 开头为注释）
+ */
+export function loadDictionaryFile(filePath: string): string[] {
+  return fs
+    .readFileSync(filePath, "utf8")
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"))
+    .map(line => line.split(/\s+/)[0]!);
+}
+
+/**
+ * 中文分词器
+ */
+export class ChineseSegmenter {
+  private readonly dictionary: Set<string>;
+  private readonly maxWordLength: number;
+
+  constructor(extraWords: Iterable<string> = []) {
+    this.dictionary = new Set(BUILTIN_WORDS);
+    for (const word of extraWords) {
+      const trimmed = word.trim();
+      if (trimmed) {
+        this.dictionary.add(trimmed);
+      }
+    }
+    this.maxWordLength = Math.max(...Array.from(this.dictionary, word => word.length));
+  }
+
+  /**
+   * 词典大小
+   */
+  get size(): number {
+    return this.dictionary.size;
+  }
+
+  /**
+   * 分词：汉字片段按词典切分，未登录的连续单字合并为一个词；非汉字片段去除首尾标点后整体保留；去除停用词
+   */
+  segment(text: string): string[] {
+    const words: string[] = [];
+    for (const run of text.match(RUN_PATTERN) ?? []) {
+      if (CJK_PATTERN.test(run[0]!)) {
+        words.push(...this.segmentCjkRun(run));
+      } else {
+        const word = run.replace(EDGE_PUNCTUATION_PATTERN, "");
+        if (word) {
+          words.push(word);
+        }
+      }
+    }
+    return words.filter(word => !STOP_WORDS.has(word));
+  }
+
+  /**
+   * 将关键词列表细分为检索词（去重，大小写不敏感；全部为停用词时保留原关键词）
+   */
+  segmentKeywords(keywords: string[]): string[] {
+    const seen = new Set<string>();
+    const terms: string[] = [];
+    for (const keyword of keywords) {
+      const segmented = CJK_PATTERN.test(keyword) ? this.segment(keyword) : [keyword];
+      for (const term of segmented.length > 0 ? segmented : [keyword]) {
+        const normalized = term.toLowerCase();
+        if (!seen.has(normalized)) {
+          seen.add(normalized);
+          terms.push(term);
+        }
+      }
+    }
+    return terms;
+  }
+
+  /**
+   * 构建词项向量使用的分词：词典词保持不变，未登录片段在虚词处断开，超过长度上限的部分切分为相邻二元组，
+   * 避免将整句未登录文本作为一个词
+   */
+  segmentTerms(text: string): string[] {
+    return this.segment(text).flatMap(word => {
+      if (!CJK_PATTERN.test(word) || word.length <= 1 || this.dictionary.has(word)) {
+        return [word];
+      }
+      return word
+        .split(FUNCTION_CHAR_PATTERN)
+        .filter(piece => piece.length > 1)
+        .flatMap(piece =>
+          piece.length <= MAX_UNKNOWN_TERM_LENGTH
+            ? [piece]
+            : Array.from({ length: piece.length - 1 }, (_, index) => piece.slice(index, index + 2))
+        );
+    });
+  }
+
+  /**
+   * 汉字片段切分：动态规划选择词长平方和最大的切分方式（倾向较长的词典词）
+   */
+  private segmentCjkRun(run: string): string[] {
+    const length = run.length;
+    const best: number[] = new Array<number>(length + 1).fill(-Infinity);
+    const previous: number[] = new Array<number>(length + 1).fill(0);
+    best[0] = 0;
+
+    for (let end = 1; end <= length; end++) {
+      for (let start = Math.max(0, end - this.maxWordLength); start < end; start++) {
+        const size = end - start;
+        const piece = run.slice(start, end);
+        const isWord = size === 1 || this.dictionary.has(piece) || STOP_WORDS.has(piece);
+        if (!isWord) {
+          continue;
+        }
+        const score = best[start]! + (size === 1 ? 1 : size * size);
+        if (score > best[end]!) {
+          best[end] = score;
+          previous[end] = start;
+        }
+      }
+    }
+
+    const pieces: string[] = [];
+    for (let end = length; end > 0; end = previous[end]!) {
+      pieces.unshift(run.slice(previous[end]!, end));
+    }
+
+    // 合并连续的未登录单字（如人名“张三”），停用单字作为分隔
+    const words: string[] = [];
+    let pending = "";
+    for (const piece of pieces) {
+      if (piece.length === 1 && !this.dictionary.has(piece) && !STOP_WORDS.has(piece)) {
+        pending += piece;
+        continue;
+      }
+      if (pending) {
+        words.push(pending);
+        pending = "";
+      }
+      words.push(piece);
+    }
+    if (pending) {
+      words.push(pending);
+    }
+    return words;
+  }
+}
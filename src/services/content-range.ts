@@ -0,0 +1,47 @@
+/**
+ * 内容分段读取模块
+ *
+ * 按字符偏移截取大文本的一段，并返回总长度、是否还有后续内容和下一段的起始偏移，
+ * 使调用方可以分多次读取数十万字符的提取内容，例如：
+ *   offset=0, length=20000 → 第 0~19999 个字符，nextOffset=20000
+ */
+
+import type { ContentRange } from "../types/mcp.js";
+
+/**
+ * 读取范围请求（未指定 length 时由调用方决定默认分段长度）
+ */
+export interface ContentRangeRequest {
+  offset?: number;
+  length?: number;
+}
+
+/**
+ * 是否为 UTF-16 高位代理项（四字节字符的前半部分）
+ */
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * 截取内容的一段；分段边界不会拆开四字节字符，偏移超出总长度时返回空内容
+ */
+export function sliceContent(text: string, offset: number, length: number): { text: string; range: ContentRange } {
+  const start = Math.min(offset, text.length);
+  let end = Math.min(start + length, text.length);
+  if (end < text.length && end - start > 1 && isHighSurrogate(text.charCodeAt(end - 1))) {
+    end--;
+  }
+
+  const hasMore = end < text.length;
+  return {
+    text: text.slice(start, end),
+    range: {
+      offset: start,
+      length: end - start,
+      totalLength: text.length,
+      hasMore,
+      ...(hasMore && { nextOffset: end })
+    }
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * 结果多样化模块
+ *
+ * 使用最大边际相关性（MMR）重排结果：每一步选取“相关度高且与已选结果差异大”的文档，
+ * 差异由内容 TF-IDF 余弦相似度以及部门、文档类型是否相同共同决定，
+ * 避免排名靠前的结果集中于同一来源
+ */
+
+import { cosineSimilarity, type TermVector } from "./term-vector.js";
+
+/**
+ * 计算文档间相似度所需的信息
+ */
+export interface DiversityProfile {
+  /** 内容词频向量 */
+  vector: TermVector;
+  departmentName?: string | null | undefined;
+  documentType?: string | null | undefined;
+}
+
+/**
+ * MMR 重排选项
+ */
+export interface MmrOptions<T> {
+  /** 多样性（0~1）：0 仅按相关度，1 仅考虑与已选结果的差异 */
+  diversity: number;
+  relevanceOf: (item: T) => number;
+  /** 两个结果的相似度（0~1） */
+  similarityOf: (a: T, b: T) => number;
+}
+
+/** 文档相似度中内容、部门和文档类型的权重 */
+const SIMILARITY_WEIGHTS = { content: 0.6, department: 0.25, documentType: 0.15 };
+
+function sameValue(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = a?.trim().toLowerCase();
+  return !!left && left === b?.trim().toLowerCase();
+}
+
+/**
+ * 文档相似度（0~1）：内容余弦相似度与部门、文档类型是否相同的加权和
+ */
+export function documentSimilarity(a: DiversityProfile, b: DiversityProfile, idf: Map<string, number>): number {
+  return (
+    SIMILARITY_WEIGHTS.content * cosineSimilarity(a.vector, b.vector, idf).similarity +
+    SIMILARITY_WEIGHTS.department * Number(sameValue(a.departmentName, b.departmentName)) +
+    SIMILARITY_WEIGHTS.documentType * Number(sameValue(a.documentType, b.documentType))
+  );
+}
+
+/**
+ * 按最大边际相关性重排：得分 = (1 - diversity) × 归一化相关度 - diversity × 与已选结果的最大相似度。
+ * 得分相同时保留原有顺序；diversity 为 0 时返回原顺序
+ */
+export function rerankByMmr<T>(items: T[], options: MmrOptions<T>): T[] {
+  const { diversity, relevanceOf, similarityOf } = options;
+  if (diversity <= 0 || items.length < 3) {
+    return items.slice();
+  }
+
+  // 提升规则可能使得分大于1，按窗口内最高分归一化
+  const maxRelevance = Math.max(...items.map(relevanceOf));
+  const relevance = items.map(item => (maxRelevance > 0 ? relevanceOf(item) / maxRelevance : 0));
+  const maxSimilarity = new Array<number>(items.length).fill(0);
+  const remaining = items.map((_item, index) => index);
+  const selected: T[] = [];
+
+  while (remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((index, position) => {
+      const score = (1 - diversity) * relevance[index]! - diversity * maxSimilarity[index]!;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    const [chosen] = remaining.splice(bestPosition, 1);
+    const chosenItem = items[chosen!]!;
+    selected.push(chosenItem);
+    for (const index of remaining) {
+      maxSimilarity[index] = Math.max(maxSimilarity[index]!, similarityOf(items[index]!, chosenItem));
+    }
+  }
+
+  return selected;
+}
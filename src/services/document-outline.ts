@@ -0,0 +1,214 @@
+/**
+ * 文档大纲模块
+ *
+ * 从提取内容中识别标题并生成带字符偏移的目录，例如：
+ *   === 文件 1: 采购合同.pdf ===   → file，文件分隔
+ *   第三章 合同价款 / 第八条 违约责任 → chapter / article，中文条款编号
+ *   1.2.3 付款方式                 → numbered，多级数字编号
+ *   ## 附件清单 / TERMS AND CONDITIONS → markdown / caps
+ * 每个标题的章节范围延续到下一个同级或更高级的标题，可按标题或序号读取单个章节
+ */
+
+import type { OutlineHeading } from "../types/mcp.js";
+
+/**
+ * 章节查找条件（title 和 index 指定其一）
+ */
+export interface SectionSelector {
+  title?: string;
+  index?: number;
+}
+
+/** 超过此长度的行不视为独立标题 */
+const MAX_HEADING_LENGTH = 60;
+
+/** 条款编号后内容作为标题的最大长度，更长时只保留编号 */
+const MAX_CLAUSE_TITLE_LENGTH = 30;
+
+const CHINESE_NUMERAL = "零〇一二两三四五六七八九十百千";
+const FILE_HEADER_PATTERN = /^=== 文件 (\d+): (.+) ===$/;
+const CHINESE_CLAUSE_PATTERN = new RegExp(`^(第[${CHINESE_NUMERAL}\\d]+([编章节条]))(?:[\\s\\u3000]+|$)(.*)$`);
+const NUMBERED_PATTERN = /^(\d{1,3}(?:\.\d{1,3})+)\.?[\s\u3000]*([^\d\s.].*)$/;
+const MARKDOWN_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+const CAPS_PATTERN = /^[A-Z][A-Z0-9 ,.'&:()-]*$/;
+const SENTENCE_PUNCTUATION_PATTERN = /[。；;，,！!？?]/;
+
+/** 中文条款单位对应的层级 */
+const CLAUSE_LEVELS: Record<string, number> = { 编: 2, 章: 3, 节: 4, 条: 5 };
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0,
+  〇: 0,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9
+};
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+/**
+ * 解析中文数字（如 十二、一百零五），含无法识别的字时返回 undefined
+ */
+export function parseChineseNumber(text: string): number | undefined {
+  if (/^\d+$/.test(text)) {
+    return Number(text);
+  }
+
+  let total = 0;
+  let digit: number | undefined;
+  for (const char of text) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char];
+    } else if (char in CHINESE_UNITS) {
+      total += (digit ?? 1) * CHINESE_UNITS[char]!;
+      digit = undefined;
+    } else {
+      return undefined;
+    }
+  }
+  return total + (digit ?? 0);
+}
+
+/**
+ * 条款编号后的内容较短且不是句子时并入标题，否则以冒号前的部分或只以编号作为标题
+ */
+function clauseTitle(marker: string, rest: string): string {
+  const content = rest.trim();
+  if (!content) {
+    return marker;
+  }
+  if (content.length <= MAX_CLAUSE_TITLE_LENGTH && !SENTENCE_PUNCTUATION_PATTERN.test(content)) {
+    return `${marker} ${content}`;
+  }
+  const label = /^([^：:。；;，,]+)[：:]/.exec(content)?.[1]?.trim();
+  return label && label.length <= MAX_CLAUSE_TITLE_LENGTH ? `${marker} ${label}` : marker;
+}
+
+/**
+ * 识别单行标题，不是标题时返回 undefined
+ */
+function detectHeading(line: string): Pick<OutlineHeading, "title" | "kind" | "level"> | undefined {
+  const fileHeader = FILE_HEADER_PATTERN.exec(line);
+  if (fileHeader) {
+    return { title: `文件 ${fileHeader[1]}: ${fileHeader[2]}`, kind: "file", level: 1 };
+  }
+
+  const clause = CHINESE_CLAUSE_PATTERN.exec(line);
+  if (clause && parseChineseNumber(clause[1]!.slice(1, -1)) !== undefined) {
+    const unit = clause[2]!;
+    return {
+      title: clauseTitle(clause[1]!, clause[3]!),
+      kind: unit === "条" ? "article" : "chapter",
+      level: CLAUSE_LEVELS[unit]!
+    };
+  }
+
+  const numbered = NUMBERED_PATTERN.exec(line);
+  if (numbered) {
+    return {
+      title: clauseTitle(numbered[1]!, numbered[2]!),
+      kind: "numbered",
+      level: 1 + numbered[1]!.split(".").length
+    };
+  }
+
+  if (line.length > MAX_HEADING_LENGTH) {
+    return undefined;
+  }
+
+  const markdown = MARKDOWN_PATTERN.exec(line);
+  if (markdown) {
+    return { title: markdown[2]!, kind: "markdown", level: 1 + markdown[1]!.length };
+  }
+
+  if (CAPS_PATTERN.test(line) && (line.match(/[A-Z]/g)?.length ?? 0) >= 4) {
+    return { title: line, kind: "caps", level: 2 };
+  }
+
+  return undefined;
+}
+
+/**
+ * 识别提取内容中的标题，按出现顺序返回带章节范围的大纲
+ */
+export function extractOutline(text: string): OutlineHeading[] {
+  const headings: Array<Omit<OutlineHeading, "endOffset">> = [];
+  let lineStart = 0;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    const heading = line ? detectHeading(line) : undefined;
+    if (heading) {
+      headings.push({ index: headings.length, ...heading, offset: lineStart + rawLine.indexOf(line) });
+    }
+    lineStart += rawLine.length + 1;
+  }
+
+  return headings.map((heading, position) => {
+    const next = headings.slice(position + 1).find(candidate => candidate.level <= heading.level);
+    return { ...heading, endOffset: next?.offset ?? text.length };
+  });
+}
+
+/**
+ * 标题归一化：忽略空白和大小写，条款编号统一为阿拉伯数字（第八条 → 第8条）
+ */
+function normalizeTitle(title: string): string {
+  return title
+    .replace(/[\s\u3000]+/g, "")
+    .toLowerCase()
+    .replace(new RegExp(`第([${CHINESE_NUMERAL}\\d]+)([编章节条])`, "g"), (match, number: string, unit: string) => {
+      const value = parseChineseNumber(number);
+      return value === undefined ? match : `第${value}${unit}`;
+    });
+}
+
+/**
+ * 标题是否包含查询（fromStart 时须以查询开头）；查询首尾为数字时匹配处前后不能紧邻数字，避免 1.1 匹配到 1.10
+ */
+function containsTitle(title: string, query: string, fromStart: boolean): boolean {
+  for (let index = title.indexOf(query); index !== -1; index = title.indexOf(query, index + 1)) {
+    if (fromStart && index > 0) {
+      return false;
+    }
+    const digitBefore = /\d/.test(title[index - 1] ?? "") && /^\d/.test(query);
+    const digitAfter = /\d/.test(title[index + query.length] ?? "") && /\d$/.test(query);
+    if (!digitBefore && !digitAfter) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 按序号或标题查找章节；按标题查找时依次匹配完全相同、以其开头和包含其的标题，同级匹配取第一个
+ */
+export function findSection(headings: OutlineHeading[], selector: SectionSelector): OutlineHeading | undefined {
+  if (selector.index !== undefined) {
+    return headings[selector.index];
+  }
+  if (!selector.title) {
+    return undefined;
+  }
+
+  const query = normalizeTitle(selector.title);
+  const titles = headings.map(heading => normalizeTitle(heading.title));
+  const matchers: Array<(title: string) => boolean> = [
+    title => title === query,
+    title => containsTitle(title, query, true),
+    title => containsTitle(title, query, false)
+  ];
+  for (const matches of matchers) {
+    const position = titles.findIndex(matches);
+    if (position !== -1) {
+      return headings[position];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,70 @@
+/**
+ * 分面统计模块
+ *
+ * 在服务获取的结果窗口内按文档类型、部门、提交人和年份统计文档数量，
+ * 便于按维度回答问题和缩小后续查询范围
+ */
+
+import type { FacetBucket, FacetName } from "../types/mcp.js";
+
+/**
+ * 分面统计所需的文档字段
+ */
+export interface FacetableDocument {
+  docTypeName?: string | null | undefined;
+  sourceDepartmentName?: string | null | undefined;
+  departmentName?: string | null | undefined;
+  submitter?: string | null | undefined;
+  createdAt?: string | null | undefined;
+  handoverDate?: string | null | undefined;
+}
+
+/** 取值缺失时的分面值，与搜索结果元数据的默认值保持一致 */
+const UNKNOWN_VALUES: Record<FacetName, string> = {
+  documentType: "未知类型",
+  departmentName: "未知部门",
+  submitter: "未知",
+  year: "未知"
+};
+
+/** 日期字符串开头的年份 */
+const YEAR_PATTERN = /^(\d{4})/;
+
+/**
+ * 读取文档在指定分面上的取值
+ */
+function facetValue(document: FacetableDocument, facet: FacetName): string | undefined {
+  switch (facet) {
+    case "documentType":
+      return document.docTypeName?.trim() || undefined;
+    case "departmentName":
+      return (document.sourceDepartmentName ?? document.departmentName)?.trim() || undefined;
+    case "submitter":
+      return document.submitter?.trim() || undefined;
+    case "year":
+      return YEAR_PATTERN.exec((document.createdAt ?? document.handoverDate ?? "").trim())?.[1];
+  }
+}
+
+/**
+ * 统计各分面的取值数量（数量降序，数量相同时按取值排序）
+ */
+export function computeFacets(
+  documents: FacetableDocument[],
+  facets: FacetName[]
+): Partial<Record<FacetName, FacetBucket[]>> {
+  const result: Partial<Record<FacetName, FacetBucket[]>> = {};
+
+  for (const facet of new Set(facets)) {
+    const counts = new Map<string, number>();
+    for (const document of documents) {
+      const value = facetValue(document, facet) ?? UNKNOWN_VALUES[facet];
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    result[facet] = Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value, "zh-CN")
+    );
+  }
+
+  return result;
+}
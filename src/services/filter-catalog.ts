@@ -0,0 +1,160 @@
+/**
+ * 过滤条件目录模块
+ *
+ * 根据已知的提交人、文档类型和部门目录识别自然语言查询中混入的过滤条件，例如：
+ *   张三提交的采购合同 → submitter=张三、documentType=合同，查询文本为“采购”
+ * 识别出的取值转换为结构化过滤条件，并连同“提交的”“的”等助词从查询文本中移除。
+ * 取值须在词边界上：其后为查询结尾、空白、标点或助词（张三丰传记、合同审批流程不识别），英文取值前后不能紧邻字母或数字
+ */
+
+import * as fs from "fs";
+import { z } from "zod";
+import type { CatalogFilterName, ExtractedFilter } from "../types/mcp.js";
+
+/**
+ * 目录文件格式
+ */
+const FilterCatalogSchema = z.object({
+  submitters: z.array(z.string()).default([]),
+  documentTypes: z.array(z.string()).default([]),
+  departments: z.array(z.string()).default([])
+});
+
+export type FilterCatalog = z.infer<typeof FilterCatalogSchema>;
+
+/**
+ * 过滤条件识别结果
+ */
+export interface CatalogExtraction {
+  filters: Partial<Record<CatalogFilterName, string>>;
+  extracted: ExtractedFilter[];
+  /** 移除识别内容后的检索词 */
+  terms: string[];
+}
+
+/** 目录条目的最小长度，避免单字误识别 */
+const MIN_ENTRY_LENGTH = 2;
+
+/** 各过滤条件对应的目录字段，按识别顺序排列 */
+const CATALOG_FIELDS: Array<[CatalogFilterName, keyof FilterCatalog]> = [
+  ["submitter", "submitters"],
+  ["departmentName", "departments"],
+  ["documentType", "documentTypes"]
+];
+
+/** 取值前后可一并移除的助词 */
+const AFFIXES: Record<CatalogFilterName, { leading?: RegExp; trailing: RegExp }> = {
+  submitter: { leading: /由$/, trailing: /^(?:提交|上传|发布|起草|编写|撰写|经办|负责)?的?/ },
+  departmentName: { leading: /由$/, trailing: /^(?:提交|上传|发布|起草|编写|负责)?的?/ },
+  documentType: { trailing: /^类?的?/ }
+};
+
+/**
+ * 解析目录文件内容
+ */
+export function parseFilterCatalog(content: string): FilterCatalog {
+  return FilterCatalogSchema.parse(JSON.parse(content));
+}
+
+/**
+ * 加载目录文件
+ */
+export function loadFilterCatalog(filePath: string): FilterCatalog {
+  return parseFilterCatalog(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * 目录条目数量
+ */
+export function catalogSize(catalog: FilterCatalog): number {
+  return catalog.submitters.length + catalog.documentTypes.length + catalog.departments.length;
+}
+
+const ALPHANUMERIC_PATTERN = /[A-Za-z0-9]/;
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+
+/**
+ * 匹配处是否在词边界上
+ */
+function isAnchored(text: string, index: number, length: number, trailing: RegExp): boolean {
+  const previous = text[index - 1] ?? "";
+  const next = text[index + length] ?? "";
+  if (ALPHANUMERIC_PATTERN.test(text[index]!) && ALPHANUMERIC_PATTERN.test(previous)) {
+    return false;
+  }
+  if (ALPHANUMERIC_PATTERN.test(text[index + length - 1]!)) {
+    return !ALPHANUMERIC_PATTERN.test(next);
+  }
+  return !WORD_CHAR_PATTERN.test(next) || Boolean(trailing.exec(text.slice(index + length))?.[0]);
+}
+
+/**
+ * 在文本中查找在词边界上的最长目录条目（大小写不敏感）
+ */
+function findLongestEntry(
+  text: string,
+  entries: string[],
+  trailing: RegExp
+): { index: number; entry: string; length: number } | undefined {
+  const lowerText = text.toLowerCase();
+  let best: { index: number; entry: string; length: number } | undefined;
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (trimmed.length < MIN_ENTRY_LENGTH || (best && trimmed.length <= best.length)) {
+      continue;
+    }
+    const lowerEntry = trimmed.toLowerCase();
+    for (let index = lowerText.indexOf(lowerEntry); index !== -1; index = lowerText.indexOf(lowerEntry, index + 1)) {
+      if (isAnchored(text, index, trimmed.length, trailing)) {
+        best = { index, entry: trimmed, length: trimmed.length };
+        break;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 从检索词中识别目录中的提交人、部门和文档类型；每类最多识别一个，
+ * skip 中的过滤条件（已显式指定）不识别；移除后没有剩余检索词时停止识别，该内容保留在查询中
+ */
+export function extractCatalogFilters(
+  terms: string[],
+  catalog: FilterCatalog,
+  skip: Iterable<CatalogFilterName> = []
+): CatalogExtraction {
+  const skipped = new Set(skip);
+  const filters: Partial<Record<CatalogFilterName, string>> = {};
+  const extracted: ExtractedFilter[] = [];
+  let text = terms.join(" ");
+
+  for (const [filter, field] of CATALOG_FIELDS) {
+    if (skipped.has(filter)) {
+      continue;
+    }
+    const { leading, trailing } = AFFIXES[filter];
+    const found = findLongestEntry(text, catalog[field], trailing);
+    if (!found) {
+      continue;
+    }
+
+    const before = text.slice(0, found.index);
+    const after = text.slice(found.index + found.length);
+    const leadingMatch = leading?.exec(before)?.[0] ?? "";
+    const trailingMatch = trailing.exec(after)?.[0] ?? "";
+    const remaining = `${before.slice(0, before.length - leadingMatch.length)} ${after.slice(trailingMatch.length)}`;
+    if (!remaining.trim()) {
+      break;
+    }
+
+    filters[filter] = found.entry;
+    extracted.push({
+      filter,
+      value: found.entry,
+      matched: `${leadingMatch}${text.slice(found.index, found.index + found.length)}${trailingMatch}`
+    });
+    text = remaining;
+  }
+
+  return { filters, extracted, terms: text.split(/\s+/).filter(Boolean) };
+}
@@ -0,0 +1,57 @@
+/**
+ * 关键词高亮模块
+ *
+ * 在返回文本中用可配置的标记包裹命中的检索词（如 **term** 或 【term】），
+ * 优先匹配较长的词，相邻或重叠的命中合并为一个高亮区间
+ */
+
+import type { HighlightMarkers } from "../types/mcp.js";
+
+/**
+ * 标记是否有效（前后标记均为空时不高亮）
+ */
+export function isHighlightEnabled(markers: HighlightMarkers): boolean {
+  return markers.pre.length > 0 || markers.post.length > 0;
+}
+
+/**
+ * 高亮文本中的检索词（大小写不敏感）
+ */
+export function highlightTerms(text: string, terms: string[], markers: HighlightMarkers): string {
+  if (!text || !isHighlightEnabled(markers)) {
+    return text;
+  }
+
+  const needles = Array.from(new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean))).sort(
+    (a, b) => b.length - a.length
+  );
+  if (needles.length === 0) {
+    return text;
+  }
+
+  const lowerText = text.toLowerCase();
+  const ranges: Array<{ start: number; end: number }> = [];
+  let index = 0;
+  while (index < lowerText.length) {
+    const needle = needles.find(candidate => lowerText.startsWith(candidate, index));
+    if (!needle) {
+      index++;
+      continue;
+    }
+    const last = ranges[ranges.length - 1];
+    if (last && last.end >= index) {
+      last.end = index + needle.length;
+    } else {
+      ranges.push({ start: index, end: index + needle.length });
+    }
+    index += needle.length;
+  }
+
+  let result = "";
+  let cursor = 0;
+  for (const range of ranges) {
+    result += text.slice(cursor, range.start) + markers.pre + text.slice(range.start, range.end) + markers.post;
+    cursor = range.end;
+  }
+  return result + text.slice(cursor);
+}
@@ -8,11 +8,157 @@ import { z } from "zod";
 import {
   type DocumentFileContentResponse,
   type LdimsApiConfig,
+  type SearchDocumentsParams,
   type SearchDocumentsResponse,
+  type QueryFallbackAttempt,
+  type SearchDocumentsBatchResponse,
+  type FindSimilarDocumentsResponse,
+  type SimilarDocumentResult,
+  type BatchMergedDocument,
   type DocumentExtractedContentResponse,
+  type DocumentMetadataResponse,
+  type DocumentFilesResponse,
+  type DocumentOutlineResponse,
+  type DocumentSectionResponse,
+  type FileFetchFailure,
+  type RecentDocumentsResponse,
   type McpErrorResponse,
-  SearchDocumentsSchema
+  type SearchConfig,
+  type SearchDocumentResult,
+  type Snippet,
+  SearchDocumentsSchema,
+  SearchDocumentsBatchSchema,
+  FindSimilarDocumentsSchema,
+  GetDocumentOutlineSchema,
+  GetDocumentSectionSchema
 } from "../types/mcp.js";
+import {
+  buildLeadingPreview,
+  extractKeywords,
+  extractSnippets,
+  summarizeSnippets,
+  type SnippetSource
+} from "./snippet-extractor.js";
+import { planFilters } from "./search-filters.js";
+import { RelevanceScorer } from "./relevance-scorer.js";
+import { BoostRuleSet, applyBoostRules } from "./boost-rules.js";
+import { ChineseSegmenter, loadDictionaryFile } from "./chinese-segmenter.js";
+import { highlightTerms, isHighlightEnabled } from "./highlighter.js";
+import { computeFacets } from "./facets.js";
+import { expandQuery, matchExactPhrase } from "./search-mode.js";
+import { matchesQueryConstraints, parseQuery, QueryParseError } from "./query-parser.js";
+import { decodeSearchCursor, encodeSearchCursor, fingerprintQuery, InvalidCursorError } from "./search-cursor.js";
+import { allocateOutputBudget, estimateTokens, selectWithinBudget, truncateToTokens } from "./output-budget.js";
+import { compareBySortField, planSort } from "./search-sort.js";
+import { collapseNearDuplicates, fingerprintContent } from "./near-duplicates.js";
+import { buildTermVector, computeIdf, cosineSimilarity, selectDistinctiveTerms } from "./term-vector.js";
+import { explainResult, mergeExplainTerms } from "./search-explain.js";
+import { documentSimilarity, rerankByMmr, type DiversityProfile } from "./diversity.js";
+import { catalogSize, extractCatalogFilters, loadFilterCatalog, type FilterCatalog } from "./filter-catalog.js";
+import { generateQueryVariants } from "./query-variants.js";
+import { sliceContent, type ContentRangeRequest } from "./content-range.js";
+import { extractOutline, findSection } from "./document-outline.js";
+import { buildExtractedContentUri, buildFileContentUri } from "./resource-templates.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { resolveDateFilters } from "../utils/date-expressions.js";
+
+/** 查找相似文档时每个特征词检索的候选数量 */
+const SIMILAR_CANDIDATES_PER_TERM = 20;
+
+/** 未找到章节时在错误详情中列出的标题数量 */
+const MAX_SECTION_SUGGESTIONS = 50;
+
+/** 构建词项向量时使用的最大文本长度，避免超长文档拖慢分词 */
+const MAX_TERM_VECTOR_TEXT_LENGTH = 20000;
+
+/** 常见扩展名对应的MIME类型，用于LDIMS未返回有效 Content-Type 时推断 */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  csv: "text/csv",
+  html: "text/html",
+  htm: "text/html",
+  json: "application/json",
+  xml: "application/xml",
+  zip: "application/zip",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  tif: "image/tiff",
+  tiff: "image/tiff"
+};
+
+/**
+ * 单次搜索的执行结果
+ */
+interface ExecutedSearch {
+  response: SearchDocumentsResponse;
+  /** LDIMS 返回的命中数量（本地过滤前） */
+  upstreamHits: number;
+}
+
+/** 无法确定类型时使用的MIME类型 */
+const DEFAULT_BINARY_MIME_TYPE = "application/octet-stream";
+
+/**
+ * 确定原始文件的MIME类型：优先使用响应的 Content-Type，其次为LDIMS记录的文件类型，最后按扩展名推断
+ */
+function resolveMimeType(contentType: string | null, fileType?: string, fileName?: string): string {
+  const headerType = contentType?.split(";")[0]?.trim().toLowerCase();
+  if (headerType && headerType !== DEFAULT_BINARY_MIME_TYPE) {
+    return headerType;
+  }
+  if (fileType?.includes("/")) {
+    return fileType;
+  }
+  for (const extension of [fileType, fileName?.split(".").pop()]) {
+    const mimeType = extension && MIME_TYPES_BY_EXTENSION[extension.replace(/^\./, "").toLowerCase()];
+    if (mimeType) {
+      return mimeType;
+    }
+  }
+  return DEFAULT_BINARY_MIME_TYPE;
+}
+
+/** 提取内容中的文件分隔标识、分隔线和说明标题行 */
+const CONTENT_MARKUP_LINE_PATTERN = /^(=== 文件 \d+: .* ===|=+|\[[^\]\n]+\])$/gm;
+
+/** 存在本地过滤时向LDIMS多取的倍数，以便过滤后仍能填满 maxResults */
+const LOCAL_FILTER_FETCH_MULTIPLIER = 4;
+
+/** 单次向LDIMS请求的最大条数 */
+const MAX_UPSTREAM_PAGE_SIZE = 100;
+
+/**
+ * 搜索配置默认值
+ */
+const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  maxSnippets: 10,
+  returnSnippetSummary: true,
+  defaultContentMode: "smart_extract",
+  scoringWeights: {
+    termFrequency: 0.4,
+    proximity: 0.2,
+    title: 0.25,
+    recency: 0.15
+  },
+  recencyHalfLifeDays: 365,
+  highlightMarkers: { pre: "**", post: "**" },
+  batchConcurrency: 3,
+  timeZone: "Asia/Shanghai",
+  contentChunkSize: 20000,
+  resourceListSize: 50,
+  resourceListSortBy: "createdAt",
+  fileFetchConcurrency: 4,
+  documentFetchDeadlineMs: 60000
+};
 
 // 新增: HTML 字符转义工具函数，防止注入
 function escapeHtml(text: string): string {
@@ -51,6 +197,46 @@ const LdimsDocumentFileResponse = z.object({
     .optional()
 });
 
+/**
+ * LDIMS 文档详情API响应结构
+ */
+const LdimsDocumentDetailResponse = z.object({
+  success: z.boolean(),
+  data: z
+    .object({
+      id: z.union([z.string(), z.number()]).nullish(),
+      docName: z.string().nullish(),
+      docTypeName: z.string().nullish(),
+      submitter: z.string().nullish(),
+      departmentName: z.string().nullish(),
+      sourceDepartmentName: z.string().nullish(),
+      createdAt: z.string().nullish(),
+      handoverDate: z.string().nullish(),
+      remarks: z.string().nullish(),
+      fileCount: z.number().nullish(),
+      files: z
+        .array(
+          z.object({
+            id: z.union([z.string(), z.number()]),
+            fileName: z.string().nullish(),
+            fileType: z.string().nullish(),
+            fileSize: z.number().nullish(),
+            processingStatus: z.string().nullish()
+          })
+        )
+        .nullish()
+    })
+    .nullish(),
+  error: z
+    .object({
+      code: z.string(),
+      message: z.string()
+    })
+    .optional()
+});
+
+type LdimsDocumentDetail = NonNullable<z.infer<typeof LdimsDocumentDetailResponse>["data"]>;
+
 /**
  * LDIMS 文档搜索API响应结构 - 匹配后端实际格式
  */
@@ -92,6 +278,20 @@ const LdimsSearchResponse = z.object({
     .nullish()
 });
 
+type LdimsSearchItem = NonNullable<z.infer<typeof LdimsSearchResponse>["data"]>["list"][number];
+
+/**
+ * 组装后的文档内容
+ */
+interface AssembledDocumentContent {
+  /** 完整内容（含文件分隔标识） */
+  fullContent: string;
+  /** 文件详情 */
+  fileDetails: Array<{ fileId: string; fileName: string; contentLength: number }>;
+  /** 片段抽取与相关性评分使用的文件内容 */
+  snippetSources: SnippetSource[];
+}
+
 /**
  * LDIMS API 错误类
  */
@@ -111,16 +311,62 @@ export class LdimsApiError extends Error {
  */
 export class LdimsApiService {
   private config: LdimsApiConfig;
+  private searchConfig: SearchConfig;
+  private segmenter: ChineseSegmenter;
+  private boostRules: BoostRuleSet | undefined;
+  private filterCatalog: FilterCatalog | undefined;
   private logger = console; // 简化的日志器
 
   constructor(config: LdimsApiConfig) {
     this.config = config;
+    this.searchConfig = { ...DEFAULT_SEARCH_CONFIG, ...config.search };
+    this.segmenter = new ChineseSegmenter(this.loadSegmenterDictionary());
+    this.filterCatalog = this.loadFilterCatalog();
+    if (this.searchConfig.boostRulesPath) {
+      this.boostRules = new BoostRuleSet(this.searchConfig.boostRulesPath, this.logger);
+    }
+  }
+
+  /**
+   * 加载用户分词词典，读取失败时仅使用内置词典
+   */
+  private loadSegmenterDictionary(): string[] {
+    const dictionaryPath = this.searchConfig.segmenterDictionaryPath;
+    if (!dictionaryPath) {
+      return [];
+    }
+    try {
+      const words = loadDictionaryFile(dictionaryPath);
+      this.logger.info(`[LDIMS API] 已加载用户分词词典: ${dictionaryPath}（${words.length} 个词）`);
+      return words;
+    } catch (_error) {
+      this.logger.warn(`[LDIMS API] 用户分词词典加载失败，仅使用内置词典: ${dictionaryPath}`, _error);
+      return [];
+    }
+  }
+
+  /**
+   * 加载过滤条件目录，读取失败时不识别查询中的过滤条件
+   */
+  private loadFilterCatalog(): FilterCatalog | undefined {
+    const catalogPath = this.searchConfig.filterCatalogPath;
+    if (!catalogPath) {
+      return undefined;
+    }
+    try {
+      const catalog = loadFilterCatalog(catalogPath);
+      this.logger.info(`[LDIMS API] 已加载过滤条件目录: ${catalogPath}（${catalogSize(catalog)} 个条目）`);
+      return catalog;
+    } catch (_error) {
+      this.logger.warn(`[LDIMS API] 过滤条件目录加载失败，不识别查询中的过滤条件: ${catalogPath}`, _error);
+      return undefined;
+    }
   }
 
   /**
-   * 内部HTTP请求方法
+   * 内部HTTP请求方法；signal 中止时请求同样中止并按超时处理
    */
-  private async makeRequest(endpoint: string): Promise<any> {
+  private async makeRequest(endpoint: string, signal?: AbortSignal): Promise<any> {
     const url = `${this.config.baseUrl}${endpoint}`;
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -133,6 +379,11 @@ export class LdimsApiService {
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout ?? 30000);
+    const abort = (): void => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener("abort", abort, { once: true });
 
     try {
       const response = await fetch(url, {
@@ -157,6 +408,52 @@ export class LdimsApiService {
         throw new LdimsApiError("TIMEOUT", "Request timeout");
       }
       throw _error;
+    } finally {
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  /**
+   * 内部HTTP请求方法（二进制响应），文件不存在时返回 undefined
+   */
+  private async makeBinaryRequest(endpoint: string): Promise<{ data: Buffer; contentType: string | null } | undefined> {
+    const headers: Record<string, string> = {
+      "User-Agent": "LDIMS-MCP-Service/1.0.0"
+    };
+
+    if (this.config.authToken) {
+      headers["Authorization"] = `Bearer ${this.config.authToken}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout ?? 30000);
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}${endpoint}`, {
+        method: "GET",
+        headers,
+        signal: controller.signal
+      });
+
+      if (response.status === 404 || response.status === 204) {
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new LdimsApiError(
+          `HTTP_${response.status}`,
+          `HTTP request failed: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = Buffer.from(await response.arrayBuffer());
+      return { data, contentType: response.headers.get("content-type") };
+    } catch (_error) {
+      if (_error instanceof Error && _error.name === "AbortError") {
+        throw new LdimsApiError("TIMEOUT", "Request timeout");
+      }
+      throw _error;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
@@ -173,14 +470,19 @@ export class LdimsApiService {
   }
 
   /**
-   * 获取文档文件内容
+   * 获取文档文件内容；text 格式指定 range 时只返回该范围内的内容（未指定 length 时使用配置的默认分段长度）
    */
   async getDocumentFileContent(
     fileId: string,
     includeMetadata: boolean = false,
-    format: "text" | "base64" = "text"
+    format: "text" | "base64" = "text",
+    range?: ContentRangeRequest
   ): Promise<DocumentFileContentResponse> {
     try {
+      if (format === "base64") {
+        return await this.getDocumentFileBinary(fileId, includeMetadata);
+      }
+
       // 构建API URL - 匹配LDIMS后端实际端点
       const url = `${this.config.baseUrl}/api/v1/documents/files/${fileId}/content`;
 
@@ -256,29 +558,41 @@ export class LdimsApiService {
           throw new LdimsApiError("NO_DATA", "API response missing data field");
         }
 
-        const hasContent = Boolean(validatedResponse.data.extractedContent);
+        const fileData = validatedResponse.data;
+        const hasContent = Boolean(fileData.extractedContent);
+        const chunk =
+          range && fileData.extractedContent
+            ? sliceContent(
+                fileData.extractedContent,
+                range.offset ?? 0,
+                range.length ?? this.searchConfig.contentChunkSize
+              )
+            : undefined;
 
         // 转换为MCP格式 - 处理LDIMS API响应格式
         const result: DocumentFileContentResponse = {
-          file_id: String(validatedResponse.data.id ?? fileId),
-          content: validatedResponse.data.extractedContent ?? "",
+          file_id: String(fileData.id ?? fileId),
+          content: chunk?.text ?? fileData.extractedContent ?? "",
           format: format,
           found: hasContent,
+          ...(chunk && { range: chunk.range }),
           ...(hasContent
             ? {
                 ...(includeMetadata && {
                   metadata: {
-                    filename: validatedResponse.data.fileName ?? "未知文件",
-                    size: validatedResponse.data.fileSize ?? 0,
-                    created_at: validatedResponse.data.createdAt ?? new Date().toISOString(),
-                    mime_type: validatedResponse.data.fileType ?? "text/plain",
-                    ...(validatedResponse.data.updatedAt && {
-                      updated_at: validatedResponse.data.updatedAt
+                    filename: fileData.fileName ?? "未知文件",
+                    size: fileData.fileSize ?? 0,
+                    created_at: fileData.createdAt ?? new Date().toISOString(),
+                    mime_type: fileData.fileType ?? "text/plain",
+                    ...(fileData.updatedAt && {
+                      updated_at: fileData.updatedAt
                     })
                   }
                 })
               }
-            : { message: "未找到提取内容，文件可能被删除或尚未解析。" })
+            : {
+                message: "未找到提取内容，文件可能被删除或尚未解析。"
+              })
         };
 
         console.log(`[LDIMS API] 成功获取文件内容: ${fileId}`);
@@ -310,6 +624,59 @@ export class LdimsApiService {
     }
   }
 
+  /**
+   * 下载LDIMS中的原始文件并按 base64 返回；文件记录只用于补充元数据和MIME类型，获取失败不影响下载结果
+   */
+  private async getDocumentFileBinary(fileId: string, includeMetadata: boolean): Promise<DocumentFileContentResponse> {
+    const binary = await this.makeBinaryRequest(`/api/v1/documents/files/${fileId}/download`);
+    if (!binary) {
+      return {
+        file_id: String(fileId),
+        content: "",
+        format: "base64",
+        found: false,
+        message: "未找到原始文件，文件可能已被删除。"
+      };
+    }
+
+    // 响应头无法确定MIME类型时再按文件记录中的类型或扩展名推断
+    const needsRecord = includeMetadata || resolveMimeType(binary.contentType) === DEFAULT_BINARY_MIME_TYPE;
+    const fileData = needsRecord ? await this.fetchFileRecord(fileId) : undefined;
+    const mimeType = resolveMimeType(binary.contentType, fileData?.fileType, fileData?.fileName);
+
+    return {
+      file_id: String(fileData?.id ?? fileId),
+      content: binary.data.toString("base64"),
+      format: "base64",
+      found: true,
+      mime_type: mimeType,
+      ...(includeMetadata && {
+        metadata: {
+          filename: fileData?.fileName ?? "未知文件",
+          size: binary.data.length,
+          created_at: fileData?.createdAt ?? new Date().toISOString(),
+          mime_type: mimeType,
+          ...(fileData?.updatedAt && { updated_at: fileData.updatedAt })
+        }
+      })
+    };
+  }
+
+  /**
+   * 获取文件记录（文件名、类型、创建时间等），获取失败时返回 undefined
+   */
+  private async fetchFileRecord(fileId: string): Promise<z.infer<typeof LdimsDocumentFileResponse>["data"]> {
+    try {
+      const response = LdimsDocumentFileResponse.parse(
+        await this.makeRequest(`/api/v1/documents/files/${fileId}/content`)
+      );
+      return response.success ? response.data : undefined;
+    } catch (_error) {
+      this.logger.warn(`[LDIMS API] 获取文件记录失败，元数据将不完整: ${fileId}`, _error);
+      return undefined;
+    }
+  }
+
   /**
    * 检查API连接状态
    */
@@ -339,158 +706,1117 @@ export class LdimsApiService {
     return { ...this.config };
   }
 
+  /**
+   * 组装文档内容：合并所有文件的提取内容，缺少文件内容时回退到备注或基本信息
+   */
+  private assembleDocumentContent(result: LdimsSearchItem): AssembledDocumentContent {
+    // 构建完整的文档内容，包含所有文件的完整内容
+    let fullContent = "";
+    const fileDetails: Array<{ fileId: string; fileName: string; contentLength: number }> = [];
+    const snippetSources: SnippetSource[] = [];
+
+    // 处理文档的所有文件
+    if (result.files && result.files.length > 0) {
+      const contentParts: string[] = [];
+
+      result.files.forEach((file, index) => {
+        if (file.extractedContent && file.extractedContent.trim()) {
+          // 为每个文件添加清晰的分隔标识
+          const fileHeader = `=== 文件 ${index + 1}: ${file.fileName} ===`;
+          const fileContent = file.extractedContent.trim();
+          contentParts.push(`${fileHeader}\n${fileContent}`);
+
+          // 记录文件详情
+          fileDetails.push({
+            fileId: String(file.id),
+            fileName: file.fileName || `文件${index + 1}`,
+            contentLength: fileContent.length
+          });
+          snippetSources.push({
+            fileId: String(file.id),
+            fileName: file.fileName || `文件${index + 1}`,
+            content: fileContent
+          });
+        }
+      });
+
+      // 合并所有文件内容
+      if (contentParts.length > 0) {
+        fullContent = contentParts.join("\n\n" + "=".repeat(50) + "\n\n");
+      }
+    }
+
+    // 如果没有文件内容，使用文档备注
+    if (!fullContent && result.remarks) {
+      fullContent = `[文档说明]\n${result.remarks}`;
+    }
+
+    // 如果仍然没有内容，提供基本信息
+    if (!fullContent) {
+      fullContent = `[文档信息]\n文档名称: ${result.docName}\n文档类型: ${result.docTypeName}\n提交人: ${result.submitter}\n创建时间: ${result.createdAt}`;
+    }
+
+    return { fullContent, fileDetails, snippetSources };
+  }
+
   /**
    * 搜索文档
    */
   async searchDocuments(
-    params: z.infer<typeof SearchDocumentsSchema>
+    params: z.input<typeof SearchDocumentsSchema>
   ): Promise<SearchDocumentsResponse | McpErrorResponse> {
     try {
       // 验证输入参数
       const validatedParams = SearchDocumentsSchema.parse(params);
-      const { query, maxResults, filters } = validatedParams;
+      const { response, upstreamHits } = await this.executeSearch(validatedParams);
 
-      // 构建API URL
-      const urlParams = new URLSearchParams({
-        searchText: query,
-        page: "1",
-        pageSize: (maxResults ?? 10).toString()
+      // 零命中回退：LDIMS 对首页请求零命中时依次尝试繁简转换、拼音和模糊匹配的查询变体；
+      // 命中的文档全部被本地过滤排除时不回退
+      if (upstreamHits > 0 || validatedParams.cursor || !validatedParams.queryFallback) {
+        return response;
+      }
+      return await this.searchWithQueryVariants(validatedParams, response);
+    } catch (_error) {
+      this.logger.error("文档搜索失败", _error);
+
+      return {
+        isError: true,
+        errorCode:
+          _error instanceof InvalidCursorError
+            ? "INVALID_CURSOR"
+            : _error instanceof QueryParseError
+              ? "INVALID_QUERY"
+              : "SEARCH_FAILED",
+        errorMessage: _error instanceof Error ? _error.message : "搜索失败",
+        errorDetails: { query: params.query, filters: params.filters }
+      };
+    }
+  }
+
+  /**
+   * 依次使用查询变体重试，返回第一个有结果的变体的搜索结果；均无结果时返回原始查询的结果
+   */
+  private async searchWithQueryVariants(
+    validatedParams: SearchDocumentsParams,
+    original: SearchDocumentsResponse
+  ): Promise<SearchDocumentsResponse> {
+    const catalog = this.filterCatalog;
+    const names = catalog ? [...catalog.submitters, ...catalog.departments, ...catalog.documentTypes] : [];
+    const variants = generateQueryVariants(validatedParams.query, names);
+    if (variants.length === 0) {
+      return original;
+    }
+
+    const attempted: QueryFallbackAttempt[] = [];
+    for (const variant of variants) {
+      const { response } = await this.executeSearch(validatedParams, variant.query);
+      attempted.push({ kind: variant.kind, query: variant.query, resultsCount: response.results.length });
+      if (response.results.length > 0) {
+        this.logger.info(`[LDIMS API] 查询 "${validatedParams.query}" 零命中，变体 "${variant.query}" 返回结果`);
+        return {
+          ...response,
+          searchMetadata: {
+            ...response.searchMetadata,
+            queryFallback: { originalQuery: validatedParams.query, variant, attempted }
+          }
+        };
+      }
+    }
+
+    return {
+      ...original,
+      searchMetadata: { ...original.searchMetadata, queryFallback: { originalQuery: validatedParams.query, attempted } }
+    };
+  }
+
+  /**
+   * 执行单次搜索（不含零命中回退）；variantQuery 为零命中回退时实际检索的查询变体
+   */
+  private async executeSearch(validatedParams: SearchDocumentsParams, variantQuery?: string): Promise<ExecutedSearch> {
+    const { maxResults } = validatedParams;
+    const contentMode = validatedParams.content_mode ?? this.searchConfig.defaultContentMode;
+    const requestedResults = maxResults ?? 10;
+
+    // 排序：LDIMS不支持的排序字段在扩大后的获取窗口内本地排序
+    const sortPlan = planSort(validatedParams.sortBy, validatedParams.sortOrder);
+    const localSort = sortPlan.sortBy !== "relevance" && sortPlan.appliedAt === "local";
+
+    // 结果多样化仅在按相关度排序时生效，同样需要扩大获取窗口以提供候选
+    const diversity = sortPlan.sortBy === "relevance" ? (validatedParams.diversity ?? 0) : 0;
+
+    // 分页：游标记录LDIMS页码、每页条数和当前页内已返回的位置；
+    // 每页条数和归并方式决定当前页内的结果位置，同样计入指纹
+    const fingerprint = fingerprintQuery(validatedParams.query, {
+      filters: validatedParams.filters,
+      sortBy: sortPlan.sortBy,
+      sortOrder: sortPlan.sortOrder,
+      diversity,
+      maxResults: requestedResults,
+      collapseDuplicates: validatedParams.collapseDuplicates
+    });
+    const cursorState = validatedParams.cursor ? decodeSearchCursor(validatedParams.cursor, fingerprint) : undefined;
+
+    // 零命中回退后游标记录实际检索的变体，翻页时按原始查询传入游标即可继续检索该变体
+    const searchQuery = variantQuery ?? cursorState?.query ?? validatedParams.query;
+    const cursorQuery = searchQuery !== validatedParams.query ? searchQuery : undefined;
+
+    // 解析结构化查询：字段限定符并入过滤条件（显式 filters 优先），短语和排除词在本地校验
+    const structuredQuery = parseQuery(searchQuery);
+    const mergedFilters = { searchMode: "semantic" as const, ...structuredQuery.filters, ...validatedParams.filters };
+
+    // 自然语言日期：按配置的时区转换为ISO时间；exact 模式下查询文本保持原样，不从中提取日期
+    const dateResolution = resolveDateFilters(mergedFilters, structuredQuery.terms, {
+      timeZone: this.searchConfig.timeZone,
+      extractFromTerms: mergedFilters.searchMode === "semantic"
+    });
+    // 目录识别：自由词中的已知提交人、部门和文档类型转换为过滤条件（已指定的过滤条件不再识别）
+    const catalogExtraction =
+      this.filterCatalog && mergedFilters.searchMode === "semantic"
+        ? extractCatalogFilters(
+            dateResolution.terms,
+            this.filterCatalog,
+            (["submitter", "documentType", "departmentName"] as const).filter(name => mergedFilters[name]?.trim())
+          )
+        : undefined;
+    const queryTerms = catalogExtraction?.terms ?? dateResolution.terms;
+    const filters = {
+      ...mergedFilters,
+      ...catalogExtraction?.filters,
+      ...(dateResolution.dateFrom && { dateFrom: dateResolution.dateFrom }),
+      ...(dateResolution.dateTo && { dateTo: dateResolution.dateTo })
+    };
+    // exact 模式按原始词序整体匹配：未使用结构化语法时即为原始查询
+    const parsedQuery = {
+      ...structuredQuery,
+      terms: queryTerms,
+      text:
+        mergedFilters.searchMode === "exact"
+          ? structuredQuery.structured
+            ? structuredQuery.text
+            : searchQuery.trim()
+          : [...queryTerms, ...structuredQuery.phrases].join(" ")
+    };
+    const query = parsedQuery.text;
+    const keywords = this.segmenter.segmentKeywords(extractKeywords(query));
+
+    // 搜索模式：semantic 扩展查询后发送，exact 在本地校验完整短语
+    const { searchMode } = filters;
+    const phrase = query.trim();
+    // 引号短语保持原样，仅扩展自由词
+    const expansion =
+      searchMode === "semantic"
+        ? expandQuery(parsedQuery.terms.join(" "), keyword => this.segmenter.segment(keyword))
+        : undefined;
+    const snippetKeywords = expansion ? [...expansion.terms, ...parsedQuery.phrases] : [phrase];
+    // 高亮：命中的检索词用配置的标记包裹
+    const highlightMarkers = this.searchConfig.highlightMarkers;
+    const highlight = validatedParams.highlight && isHighlightEnabled(highlightMarkers);
+    const highlightedTerms = searchMode === "exact" ? snippetKeywords : [...snippetKeywords, ...keywords];
+    const mark = (text: string): string =>
+      highlight ? highlightTerms(text, highlightedTerms, highlightMarkers) : text;
+    const searchText = expansion ? [expansion.searchText, ...parsedQuery.phrases].filter(Boolean).join(" ") : query;
+
+    // 拆分过滤条件：LDIMS支持的参数直接转发，其余在本地执行
+    const filterPlan = planFilters(filters);
+    const localFilters: string[] = [
+      ...filterPlan.local,
+      ...(parsedQuery.phrases.length > 0 ? ["phrases"] : []),
+      ...(parsedQuery.excluded.length > 0 ? ["excluded"] : [])
+    ];
+
+    // 请求分面统计时同样扩大获取窗口，统计基于通过本地过滤的全部获取结果
+    const requestedFacets = validatedParams.facets ?? [];
+    const page = cursorState?.page ?? 1;
+    const pageOffset = cursorState?.offset ?? 0;
+    // 游标中的每页条数不可信，限制在LDIMS单次请求上限内
+    const pageSize = cursorState
+      ? Math.min(cursorState.pageSize, MAX_UPSTREAM_PAGE_SIZE)
+      : localFilters.length > 0 || searchMode === "exact" || requestedFacets.length > 0 || localSort || diversity > 0
+        ? Math.min(requestedResults * LOCAL_FILTER_FETCH_MULTIPLIER, MAX_UPSTREAM_PAGE_SIZE)
+        : requestedResults;
+
+    // 构建API URL
+    const urlParams = new URLSearchParams({
+      searchText,
+      page: page.toString(),
+      pageSize: pageSize.toString()
+    });
+
+    // **添加过滤条件**
+    for (const [key, value] of Object.entries({ ...filterPlan.upstreamParams, ...sortPlan.upstreamParams })) {
+      urlParams.append(key, value);
+    }
+
+    const url = `/api/v1/documents/search/content?${urlParams.toString()}`;
+
+    this.logger.log(`[LDIMS API] 搜索文档: ${url}`);
+    const startTime = Date.now();
+    const responseData = await this.makeRequest(url);
+
+    // 验证响应格式
+    const validatedResponse = LdimsSearchResponse.parse(responseData);
+
+    if (validatedResponse.code !== 200) {
+      throw new LdimsApiError("SEARCH_FAILED", validatedResponse.message ?? "搜索请求失败");
+    }
+
+    if (!validatedResponse.data) {
+      throw new LdimsApiError("NO_DATA", "搜索响应缺少数据");
+    }
+
+    // 本地执行LDIMS未支持的过滤条件，以及查询中的短语和排除词
+    const fetchedList = validatedResponse.data.list ?? [];
+    const filteredList = fetchedList
+      .filter(item => filterPlan.matches(item))
+      .map(result => ({ result, content: this.assembleDocumentContent(result) }))
+      .filter(({ result, content }) =>
+        matchesQueryConstraints(
+          [result.docName ?? "", result.remarks ?? "", ...content.snippetSources.map(source => source.content)].join(
+            "\n"
+          ),
+          parsedQuery
+        )
+      );
+    const excludedCount = fetchedList.length - filteredList.length;
+
+    // 本地相关性评分并按得分重新排序
+    const assembled = filteredList
+      .map(item => ({
+        ...item,
+        exactMatches: searchMode === "exact" && phrase ? matchExactPhrase(item.result, phrase) : undefined
+      }))
+      .filter(item => !item.exactMatches || item.exactMatches.length > 0);
+    const droppedCount = filteredList.length - assembled.length;
+    const scoringTexts = assembled.map(({ content }) =>
+      content.snippetSources.length > 0
+        ? content.snippetSources.map(source => source.content).join("\n")
+        : content.fullContent
+    );
+    const scorer = new RelevanceScorer({
+      query,
+      keywords: searchMode === "exact" ? [phrase] : keywords,
+      weights: this.searchConfig.scoringWeights,
+      recencyHalfLifeDays: this.searchConfig.recencyHalfLifeDays,
+      averageLength:
+        scoringTexts.length > 0 ? scoringTexts.reduce((sum, text) => sum + text.length, 0) / scoringTexts.length : 0
+    });
+    // 提升规则按元数据调整得分（规则文件变更后在本次搜索时重新加载），调整后的得分可能大于1
+    const boostRules = this.boostRules?.getRules() ?? [];
+    const now = Date.now();
+    const ranked = assembled
+      .map((item, index) => {
+        const relevance = scorer.score({
+          title: item.result.docName ?? "",
+          content: scoringTexts[index]!,
+          date: item.result.createdAt ?? item.result.handoverDate
+        });
+        const boost = applyBoostRules(boostRules, item.result, now);
+        return {
+          ...item,
+          scoringText: scoringTexts[index]!,
+          relevance,
+          boost,
+          score: Math.round(relevance.score * boost.factor * 1000) / 1000
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+    // 按指定字段排序（稳定排序，字段相同的文档保持相关度顺序）
+    if (sortPlan.sortBy !== "relevance") {
+      const compare = compareBySortField(sortPlan.sortBy, sortPlan.sortOrder);
+      ranked.sort((a, b) => compare(a.result, b.result));
+    }
+
+    // 近似重复归并：同一文档的不同版本归入排名最高的主结果，分页按归并后的结果组计算。
+    // 指纹只取文件内容（无文件时取备注），不含拼接的文档信息
+    const collapsedGroups = validatedParams.collapseDuplicates
+      ? collapseNearDuplicates(ranked, ({ result, content }) =>
+          fingerprintContent(
+            content.snippetSources.length > 0
+              ? content.snippetSources.map(source => source.content).join("\n")
+              : (result.remarks ?? "")
+          )
+        )
+      : ranked.map(primary => ({ primary, duplicates: [] }));
+    const collapsedCount = ranked.length - collapsedGroups.length;
+
+    // 结果多样化：在获取窗口内按最大边际相关性重排结果组，避免靠前的结果集中于同一部门或类型
+    let groups = collapsedGroups;
+    if (diversity > 0) {
+      const profiles = new Map<(typeof ranked)[number], DiversityProfile>(
+        collapsedGroups.map(({ primary }) => [
+          primary,
+          {
+            vector: this.vectorizeText(primary.scoringText),
+            departmentName: primary.result.sourceDepartmentName ?? primary.result.departmentName,
+            documentType: primary.result.docTypeName
+          }
+        ])
+      );
+      const idf = computeIdf(Array.from(profiles.values(), profile => profile.vector));
+      groups = rerankByMmr(collapsedGroups, {
+        diversity,
+        relevanceOf: group => group.primary.score,
+        similarityOf: (a, b) => documentSimilarity(profiles.get(a.primary)!, profiles.get(b.primary)!, idf)
       });
+    }
+    const reorderedCount = groups.filter((group, index) => group !== collapsedGroups[index]).length;
+
+    // 当前页还有剩余结果时停留在本页，否则在LDIMS仍有数据时翻到下一页
+    const pageEnd = pageOffset + requestedResults;
+    const total = validatedResponse.data.total ?? 0;
+    const upstreamHasMore = fetchedList.length > 0 && page * pageSize < total;
+    // 本地排序只在获取的窗口内有效：窗口内的结果可以继续翻页，窗口之后的结果与其不构成统一的顺序，到达窗口末尾即停止
+    const windowLimited = localSort && upstreamHasMore;
+    let nextCursor: string | undefined;
+    if (pageEnd < groups.length) {
+      nextCursor = encodeSearchCursor({
+        page,
+        pageSize,
+        offset: pageEnd,
+        fingerprint,
+        ...(cursorQuery && { query: cursorQuery })
+      });
+    } else if (upstreamHasMore && !windowLimited) {
+      nextCursor = encodeSearchCursor({
+        page: page + 1,
+        pageSize,
+        offset: 0,
+        fingerprint,
+        ...(cursorQuery && { query: cursorQuery })
+      });
+    }
 
-      // **添加过滤条件**
-      if (filters?.documentType) {
-        urlParams.append("docTypeName", filters.documentType);
+    // explain 模式：说明中列出的检索词及生效的过滤条件
+    const explainTerms = validatedParams.explain
+      ? mergeExplainTerms(
+          searchMode === "exact"
+            ? [["phrase", [phrase]]]
+            : [
+                ["query", keywords],
+                ["expansion", expansion?.terms ?? []],
+                ["phrase", parsedQuery.phrases]
+              ]
+        )
+      : [];
+    const activeFilters = {
+      values: Object.fromEntries(
+        [...filterPlan.upstream, ...filterPlan.local].map(name => [name, filters[name]?.trim() ?? ""])
+      ),
+      upstream: filterPlan.upstream,
+      local: filterPlan.local,
+      phrases: parsedQuery.phrases,
+      excluded: parsedQuery.excluded
+    };
+
+    // 处理LDIMS API响应并转换为MCP格式 - 优化为AI对话场景
+    const pageItems = groups.slice(pageOffset, pageEnd).map(({ primary, duplicates }, index) => {
+      const { result, content, exactMatches, relevance, boost, score } = primary;
+      const { fullContent, fileDetails, snippetSources } = content;
+
+      // smart_extract 模式：仅返回命中关键词的上下文片段（片段偏移始终对应原文）
+      const snippets =
+        contentMode === "smart_extract"
+          ? extractSnippets(snippetSources, snippetKeywords, {
+              contextChars: validatedParams.context_chars,
+              mergeOverlapping: validatedParams.merge_overlapping,
+              maxSnippets: this.searchConfig.maxSnippets,
+              includeScoringDetails: validatedParams.return_scoring_details
+            })
+          : [];
+
+      // 新增: 构造 Markdown 链接 (点击后通过 URL 参数触发前端搜索)
+      const safeName = escapeHtml(result.docName ?? "未知文档");
+      const markdownDocumentName = `[${safeName}](/#/documents?docName=${encodeURIComponent(result.docName ?? "")})`;
+
+      const document: Omit<SearchDocumentResult, "matchedContext"> = {
+        documentId: String(result.id),
+        documentName: result.docName ?? "未知文档",
+        markdownDocumentName,
+        relevanceScore: score,
+        ...(exactMatches && { exactMatches }),
+        ...(duplicates.length > 0 && {
+          duplicates: duplicates.map(({ item, similarity }) => ({
+            documentId: String(item.result.id),
+            documentName: item.result.docName ?? "未知文档",
+            similarity: Math.round(similarity * 100) / 100
+          }))
+        }),
+        ...(validatedParams.explain && {
+          explanation: explainResult({
+            rank: pageOffset + index + 1,
+            document: result,
+            files: snippetSources,
+            terms: explainTerms,
+            relevance,
+            weights: this.searchConfig.scoringWeights,
+            filters: activeFilters,
+            boosts: boost.applied,
+            finalScore: score
+          })
+        }),
+        metadata: {
+          createdAt: result.createdAt ?? new Date().toISOString(),
+          submitter: result.submitter ?? "未知",
+          documentType: result.docTypeName ?? "未知类型",
+          departmentName: result.sourceDepartmentName ?? result.departmentName ?? "未知部门",
+          ...(result.handoverDate && { handoverDate: result.handoverDate }),
+          // 新增：文件详情信息，便于AI理解文档结构
+          fileCount: result.files?.length ?? 0,
+          fileDetails: fileDetails,
+          totalContentLength: fullContent.length,
+          hasMultipleFiles: (result.files?.length ?? 0) > 1,
+          ...(boost.applied.length > 0 && { appliedBoosts: boost.applied })
+        }
+      };
+
+      return { document, fullContent, snippets };
+    });
+
+    // 输出预算：按排名分配内容 token，片段的开销包含其高亮内容和在摘要中的重复
+    const { maxOutputTokens } = validatedParams;
+    const snippetCost = (snippet: Snippet): number =>
+      estimateTokens(JSON.stringify(snippet)) +
+      (highlight ? estimateTokens(snippet.content) : 0) +
+      (this.searchConfig.returnSnippetSummary ? estimateTokens(snippet.content) : 0);
+    const leadingPreview = (fullContent: string): string =>
+      buildLeadingPreview(fullContent, validatedParams.context_chars * 2);
+    const budget =
+      maxOutputTokens !== undefined
+        ? allocateOutputBudget(
+            pageItems.map(({ document, fullContent, snippets }) => ({
+              fixedTokens: estimateTokens(JSON.stringify({ ...document, matchedContext: "" })),
+              contentTokens:
+                contentMode !== "smart_extract"
+                  ? estimateTokens(fullContent)
+                  : snippets.length > 0
+                    ? snippets.reduce((sum, snippet) => sum + snippetCost(snippet), 0)
+                    : estimateTokens(leadingPreview(fullContent))
+            })),
+            maxOutputTokens
+          )
+        : undefined;
+
+    const results: SearchDocumentResult[] = pageItems.map(({ document, fullContent, snippets }, index) => {
+      const allowance = budget?.allowances[index];
+      const fit = (text: string): string => (allowance === undefined ? text : truncateToTokens(text, allowance));
+
+      if (contentMode !== "smart_extract") {
+        const context = fit(fullContent);
+        return {
+          ...document,
+          matchedContext: mark(context),
+          ...(context !== fullContent && { contentTruncated: true })
+        };
+      }
+
+      // 高亮结果单独返回，片段 content 保持原文以便按偏移对应到文件内容
+      const kept = (allowance === undefined ? snippets : selectWithinBudget(snippets, snippetCost, allowance)).map(
+        snippet => (highlight ? { ...snippet, highlighted_content: mark(snippet.content) } : snippet)
+      );
+
+      if (kept.length === 0) {
+        // 未命中关键词（或无文件内容）时仅提供开头预览；片段全部超出预算时预览最相关的片段
+        const preview = snippets[0]?.content ?? leadingPreview(fullContent);
+        const context = fit(preview);
+        return {
+          ...document,
+          matchedContext: mark(context),
+          ...((snippets.length > 0 || context !== preview) && { contentTruncated: true })
+        };
       }
 
-      const url = `/api/v1/documents/search/content?${urlParams.toString()}`;
+      return {
+        ...document,
+        matchedContext: this.searchConfig.returnSnippetSummary
+          ? summarizeSnippets(kept)
+          : `[共 ${kept.length} 个命中片段，详见 snippets]`,
+        snippets: kept,
+        ...(kept.length < snippets.length && { contentTruncated: true })
+      };
+    });
+    const truncatedResults = results.filter(result => result.contentTruncated).length;
+
+    const searchResults: SearchDocumentsResponse = {
+      results,
+      totalMatches: Math.max(0, total - excludedCount - droppedCount),
+      ...(nextCursor && { nextCursor }),
+      searchMetadata: {
+        executionTime: `${Date.now() - startTime}ms`,
+        searchMode,
+        queryProcessed: searchText,
+        filtersApplied: {
+          upstream: filterPlan.upstream,
+          local: localFilters,
+          excludedCount
+        },
+        ...(expansion && {
+          queryExpansion: {
+            terms: expansion.terms,
+            splitTerms: expansion.splitTerms,
+            synonyms: expansion.synonyms
+          }
+        }),
+        ...(searchMode === "exact" && { exactMatch: { phrase, droppedCount } }),
+        ...(parsedQuery.structured && {
+          parsedQuery: {
+            terms: parsedQuery.terms,
+            phrases: parsedQuery.phrases,
+            excluded: parsedQuery.excluded,
+            qualifiers: parsedQuery.filters
+          }
+        }),
+        queryTerms: keywords,
+        ...(catalogExtraction &&
+          catalogExtraction.extracted.length > 0 && { extractedFilters: catalogExtraction.extracted }),
+        ...(dateResolution.expressions.length > 0 && {
+          resolvedDates: {
+            timeZone: this.searchConfig.timeZone,
+            ...(filters.dateFrom && { dateFrom: filters.dateFrom }),
+            ...(filters.dateTo && { dateTo: filters.dateTo }),
+            expressions: dateResolution.expressions
+          }
+        }),
+        ...(validatedParams.collapseDuplicates && { collapsedDuplicates: collapsedCount }),
+        ...(diversity > 0 && { diversification: { diversity, windowSize: groups.length, reorderedCount } }),
+        ...(sortPlan.sortBy !== "relevance" && {
+          sort: {
+            sortBy: sortPlan.sortBy,
+            sortOrder: sortPlan.sortOrder,
+            appliedAt: sortPlan.appliedAt,
+            windowSize: ranked.length,
+            ...(windowLimited && { windowLimited })
+          }
+        }),
+        ...(requestedFacets.length > 0 && {
+          facets: {
+            windowSize: ranked.length,
+            counts: computeFacets(
+              ranked.map(item => item.result),
+              requestedFacets
+            )
+          }
+        }),
+        // 新增：内容处理元数据
+        contentProcessing: {
+          contentMode,
+          ...(highlight && { highlightMarkers }),
+          fullContentReturned: contentMode === "full" && truncatedResults === 0,
+          contentNotTruncated: contentMode === "full" && truncatedResults === 0,
+          optimizedForAI: true,
+          ...(maxOutputTokens !== undefined && {
+            outputBudget: {
+              maxOutputTokens,
+              estimatedTokens: results.reduce((sum, result) => sum + estimateTokens(JSON.stringify(result)), 0),
+              truncatedResults,
+              overBudget: budget?.overBudget ?? false
+            }
+          })
+        }
+      }
+    };
 
-      this.logger.log(`[LDIMS API] 搜索文档: ${url}`);
+    this.logger.info("文档搜索完成（增强版）", {
+      query: validatedParams.query,
+      contentMode,
+      page,
+      hasMore: nextCursor !== undefined,
+      resultsCount: searchResults.results.length,
+      executionTime: `${Date.now() - startTime}ms`,
+      totalContentLength: searchResults.results.reduce((sum, r) => sum + r.matchedContext.length, 0),
+      avgContentLength:
+        searchResults.results.length > 0
+          ? Math.round(
+              searchResults.results.reduce((sum, r) => sum + r.matchedContext.length, 0) / searchResults.results.length
+            )
+          : 0
+    });
+
+    return { response: searchResults, upstreamHits: fetchedList.length };
+  }
+
+  /**
+   * 批量搜索文档：以有限并发执行多个查询，返回各查询结果及按 documentId 去重的合并视图
+   */
+  async searchDocumentsBatch(
+    params: z.input<typeof SearchDocumentsBatchSchema>
+  ): Promise<SearchDocumentsBatchResponse | McpErrorResponse> {
+    try {
+      const { queries } = SearchDocumentsBatchSchema.parse(params);
+      const concurrency = Math.min(this.searchConfig.batchConcurrency, queries.length);
       const startTime = Date.now();
-      const responseData = await this.makeRequest(url);
 
-      // 验证响应格式
-      const validatedResponse = LdimsSearchResponse.parse(responseData);
+      this.logger.log(`[LDIMS API] 批量搜索: ${queries.length} 个查询，并发上限 ${concurrency}`);
+
+      const results = await mapWithConcurrency(queries, concurrency, async (query, index) => {
+        const response = await this.searchDocuments(query);
+        return "isError" in response
+          ? { index, query: query.query, error: response }
+          : { index, query: query.query, response };
+      });
+
+      // 合并视图：同一文档保留最高相关度，并记录命中它的查询
+      const merged = new Map<string, BatchMergedDocument>();
+      for (const { index, response } of results) {
+        for (const document of response?.results ?? []) {
+          const existing = merged.get(document.documentId);
+          if (!existing) {
+            merged.set(document.documentId, {
+              documentId: document.documentId,
+              documentName: document.documentName,
+              relevanceScore: document.relevanceScore,
+              matchedQueries: [index],
+              metadata: document.metadata
+            });
+            continue;
+          }
+          existing.relevanceScore = Math.max(existing.relevanceScore, document.relevanceScore);
+          if (!existing.matchedQueries.includes(index)) {
+            existing.matchedQueries.push(index);
+          }
+        }
+      }
+
+      const failed = results.filter(result => result.error).length;
+
+      this.logger.info("批量搜索完成", {
+        queryCount: queries.length,
+        failed,
+        uniqueDocuments: merged.size,
+        executionTime: `${Date.now() - startTime}ms`
+      });
+
+      return {
+        results,
+        // 被更多查询命中的文档排在前面，其次按相关度
+        merged: Array.from(merged.values()).sort(
+          (a, b) => b.matchedQueries.length - a.matchedQueries.length || b.relevanceScore - a.relevanceScore
+        ),
+        batchMetadata: {
+          executionTime: `${Date.now() - startTime}ms`,
+          queryCount: queries.length,
+          succeeded: queries.length - failed,
+          failed,
+          concurrency
+        }
+      };
+    } catch (_error) {
+      this.logger.error("批量搜索失败", _error);
+
+      return {
+        isError: true,
+        errorCode: "BATCH_SEARCH_FAILED",
+        errorMessage: _error instanceof Error ? _error.message : "批量搜索失败",
+        errorDetails: { queryCount: Array.isArray(params.queries) ? params.queries.length : 0 }
+      };
+    }
+  }
+
+  /**
+   * 查找相似文档：由参照文档的提取内容构建词项向量，用特征词检索候选文档，并按 TF-IDF 余弦相似度重排序
+   */
+  async findSimilarDocuments(
+    params: z.input<typeof FindSimilarDocumentsSchema>
+  ): Promise<FindSimilarDocumentsResponse | McpErrorResponse> {
+    try {
+      const { documentId, maxResults, termCount } = FindSimilarDocumentsSchema.parse(params);
+      const startTime = Date.now();
 
-      if (validatedResponse.code !== 200) {
-        throw new LdimsApiError("SEARCH_FAILED", validatedResponse.message ?? "搜索请求失败");
+      const source = await this.getDocumentExtractedContent(documentId);
+      if ("isError" in source) {
+        return source;
       }
 
-      if (!validatedResponse.data) {
-        throw new LdimsApiError("NO_DATA", "搜索响应缺少数据");
+      // 没有可用文件内容时提取结果只有文档基本信息，改用文档名称
+      const sourceText =
+        source.metadata.processedFiles === 0
+          ? source.metadata.documentName
+          : source.text.replace(CONTENT_MARKUP_LINE_PATTERN, "");
+      const sourceVector = this.vectorizeText(sourceText);
+      const queryTerms = selectDistinctiveTerms(sourceVector, termCount);
+
+      if (queryTerms.length === 0) {
+        throw new LdimsApiError("NO_DISTINCTIVE_TERMS", `文档 ${documentId} 没有可用于检索相似文档的内容`);
       }
 
-      // 处理LDIMS API响应并转换为MCP格式 - 优化为AI对话场景
-      const searchResults: SearchDocumentsResponse = {
-        results: (validatedResponse.data.list ?? []).map((result: any) => {
-          // 构建完整的文档内容，包含所有文件的完整内容
-          let fullContent = "";
-          const fileDetails: Array<{ fileId: string; fileName: string; contentLength: number }> = [];
-
-          // 处理文档的所有文件
-          if (result.files && result.files.length > 0) {
-            const contentParts: string[] = [];
-
-            result.files.forEach((file: any, index: number) => {
-              if (file.extractedContent && file.extractedContent.trim()) {
-                // 为每个文件添加清晰的分隔标识
-                const fileHeader = `=== 文件 ${index + 1}: ${file.fileName} ===`;
-                const fileContent = file.extractedContent.trim();
-                contentParts.push(`${fileHeader}\n${fileContent}`);
-
-                // 记录文件详情
-                fileDetails.push({
-                  fileId: String(file.id),
-                  fileName: file.fileName || `文件${index + 1}`,
-                  contentLength: fileContent.length
-                });
-              }
-            });
+      this.logger.log(`[LDIMS API] 查找相似文档: ${documentId}，特征词 ${queryTerms.join(" ")}`);
 
-            // 合并所有文件内容
-            if (contentParts.length > 0) {
-              fullContent = contentParts.join("\n\n" + "=".repeat(50) + "\n\n");
-            }
+      // 逐个特征词检索并合并候选，不依赖LDIMS对多词查询的组合方式
+      const searches = await mapWithConcurrency(queryTerms, this.searchConfig.batchConcurrency, async term => {
+        const urlParams = new URLSearchParams({
+          searchText: term,
+          page: "1",
+          pageSize: SIMILAR_CANDIDATES_PER_TERM.toString()
+        });
+        try {
+          const response = LdimsSearchResponse.parse(
+            await this.makeRequest(`/api/v1/documents/search/content?${urlParams.toString()}`)
+          );
+          if (response.code !== 200) {
+            throw new LdimsApiError("SEARCH_FAILED", response.message ?? "搜索请求失败");
           }
+          return { list: response.data?.list ?? [] };
+        } catch (_error) {
+          this.logger.warn(`[LDIMS API] 特征词 "${term}" 检索失败`, _error);
+          return { error: _error };
+        }
+      });
 
-          // 如果没有文件内容，使用文档备注
-          if (!fullContent && result.remarks) {
-            fullContent = `[文档说明]\n${result.remarks}`;
+      const failed = searches.filter(search => "error" in search);
+      if (failed.length === searches.length) {
+        throw failed[0]!.error;
+      }
+
+      const candidates = new Map<string, LdimsSearchItem>();
+      for (const search of searches) {
+        for (const item of search.list ?? []) {
+          const id = String(item.id);
+          if (id !== documentId && !candidates.has(id)) {
+            candidates.set(id, item);
           }
+        }
+      }
 
-          // 如果仍然没有内容，提供基本信息
-          if (!fullContent) {
-            fullContent = `[文档信息]\n文档名称: ${result.docName}\n文档类型: ${result.docTypeName}\n提交人: ${result.submitter}\n创建时间: ${result.createdAt}`;
+      const candidateVectors = Array.from(candidates.values(), item => {
+        const { snippetSources } = this.assembleDocumentContent(item);
+        const text =
+          snippetSources.length > 0
+            ? snippetSources.map(snippetSource => snippetSource.content).join("\n")
+            : (item.remarks ?? item.docName ?? "");
+        return { item, vector: this.vectorizeText(text) };
+      });
+      const idf = computeIdf([sourceVector, ...candidateVectors.map(({ vector }) => vector)]);
+
+      const results: SimilarDocumentResult[] = candidateVectors
+        .map(({ item, vector }) => ({ item, ...cosineSimilarity(sourceVector, vector, idf) }))
+        .filter(({ similarity }) => similarity > 0)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, maxResults)
+        .map(({ item, similarity, sharedTerms }) => ({
+          documentId: String(item.id),
+          documentName: item.docName ?? "未知文档",
+          similarity: Math.round(similarity * 1000) / 1000,
+          sharedTerms,
+          metadata: {
+            createdAt: item.createdAt ?? new Date().toISOString(),
+            submitter: item.submitter ?? "未知",
+            documentType: item.docTypeName ?? "未知类型",
+            departmentName: item.sourceDepartmentName ?? item.departmentName ?? "未知部门",
+            fileCount: item.files?.length ?? 0
           }
+        }));
 
-          // 新增: 构造 Markdown 链接 (点击后通过 URL 参数触发前端搜索)
-          const safeName = escapeHtml(result.docName ?? "未知文档");
-          const markdownDocumentName = `[${safeName}](/#/documents?docName=${encodeURIComponent(result.docName ?? "")})`;
+      this.logger.info("相似文档查找完成", {
+        documentId,
+        candidateCount: candidates.size,
+        resultsCount: results.length,
+        executionTime: `${Date.now() - startTime}ms`
+      });
 
-          return {
-            documentId: String(result.id),
-            documentName: result.docName ?? "未知文档",
-            markdownDocumentName,
-            relevanceScore: 0.8,
-            matchedContext: fullContent, // 现在包含完整内容，不再截断
-            metadata: {
-              createdAt: result.createdAt ?? new Date().toISOString(),
-              submitter: result.submitter ?? "未知",
-              documentType: result.docTypeName ?? "未知类型",
-              departmentName: result.sourceDepartmentName ?? result.departmentName ?? "未知部门",
-              handoverDate: result.handoverDate,
-              // 新增：文件详情信息，便于AI理解文档结构
-              fileCount: result.files?.length ?? 0,
-              fileDetails: fileDetails,
-              totalContentLength: fullContent.length,
-              hasMultipleFiles: (result.files?.length ?? 0) > 1
-            }
-          };
-        }),
-        totalMatches: validatedResponse.data.total ?? 0,
+      return {
+        sourceDocument: { documentId, documentName: source.metadata.documentName },
+        queryTerms,
+        results,
         searchMetadata: {
           executionTime: `${Date.now() - startTime}ms`,
-          searchMode: params.filters?.searchMode ?? "semantic",
-          queryProcessed: params.query,
-          // 新增：内容处理元数据
-          contentProcessing: {
-            fullContentReturned: true,
-            contentNotTruncated: true,
-            optimizedForAI: true
-          }
+          candidateCount: candidates.size
         }
       };
+    } catch (_error) {
+      this.logger.error("相似文档查找失败", _error);
 
-      this.logger.info("文档搜索完成（增强版）", {
-        query: params.query,
-        resultsCount: searchResults.results.length,
-        executionTime: `${Date.now() - startTime}ms`,
-        totalContentLength: searchResults.results.reduce((sum, r) => sum + r.matchedContext.length, 0),
-        avgContentLength:
-          searchResults.results.length > 0
-            ? Math.round(
-                searchResults.results.reduce((sum, r) => sum + r.matchedContext.length, 0) /
-                  searchResults.results.length
-              )
-            : 0
+      return {
+        isError: true,
+        errorCode:
+          _error instanceof LdimsApiError && _error.code === "NO_DISTINCTIVE_TERMS"
+            ? "NO_DISTINCTIVE_TERMS"
+            : "SIMILAR_SEARCH_FAILED",
+        errorMessage: _error instanceof Error ? _error.message : "相似文档查找失败",
+        errorDetails: { documentId: params.documentId }
+      };
+    }
+  }
+
+  /**
+   * 对文本分词并构建词项向量
+   */
+  private vectorizeText(text: string): Map<string, number> {
+    return buildTermVector(this.segmenter.segmentTerms(text.slice(0, MAX_TERM_VECTOR_TEXT_LENGTH)));
+  }
+
+  /**
+   * 获取文档的提取内容；指定 range 时只返回该范围内的内容（未指定 length 时使用配置的默认分段长度）
+   */
+  async getDocumentExtractedContent(
+    documentId: string,
+    range?: ContentRangeRequest
+  ): Promise<DocumentExtractedContentResponse | McpErrorResponse> {
+    const result = await this.loadExtractedContent(documentId);
+    if (!range || "isError" in result) {
+      return result;
+    }
+
+    const chunk = sliceContent(result.text, range.offset ?? 0, range.length ?? this.searchConfig.contentChunkSize);
+    return { ...result, text: chunk.text, metadata: { ...result.metadata, range: chunk.range } };
+  }
+
+  /**
+   * 获取文档大纲：识别提取内容中的标题，偏移与 extracted_content 资源的 offset 一致
+   */
+  async getDocumentOutline(
+    params: z.input<typeof GetDocumentOutlineSchema>
+  ): Promise<DocumentOutlineResponse | McpErrorResponse> {
+    try {
+      const { document_id: documentId } = GetDocumentOutlineSchema.parse(params);
+
+      const content = await this.getDocumentExtractedContent(documentId);
+      if ("isError" in content) {
+        return content;
+      }
+
+      return {
+        documentId,
+        documentName: content.metadata.documentName,
+        totalLength: content.text.length,
+        headings: extractOutline(content.text)
+      };
+    } catch (_error) {
+      this.logger.error("文档大纲获取失败", _error);
+
+      return {
+        isError: true,
+        errorCode: "OUTLINE_FAILED",
+        errorMessage: _error instanceof Error ? _error.message : "文档大纲获取失败",
+        errorDetails: { documentId: params.document_id }
+      };
+    }
+  }
+
+  /**
+   * 按标题或大纲序号获取文档的单个章节；章节较长时按 offset/length 分段返回
+   */
+  async getDocumentSection(
+    params: z.input<typeof GetDocumentSectionSchema>
+  ): Promise<DocumentSectionResponse | McpErrorResponse> {
+    try {
+      const { document_id: documentId, title, index, offset, length } = GetDocumentSectionSchema.parse(params);
+
+      const content = await this.getDocumentExtractedContent(documentId);
+      if ("isError" in content) {
+        return content;
+      }
+
+      const headings = extractOutline(content.text);
+      const heading = findSection(headings, {
+        ...(title !== undefined && { title }),
+        ...(index !== undefined && { index })
+      });
+      if (!heading) {
+        throw new LdimsApiError(
+          "SECTION_NOT_FOUND",
+          title !== undefined
+            ? `文档 ${documentId} 中未找到标题为“${title}”的章节`
+            : `文档 ${documentId} 的大纲中没有序号为 ${index} 的章节（共 ${headings.length} 个）`,
+          headings.slice(0, MAX_SECTION_SUGGESTIONS).map(candidate => candidate.title)
+        );
+      }
+
+      const chunk = sliceContent(
+        content.text.slice(heading.offset, heading.endOffset),
+        offset,
+        length ?? this.searchConfig.contentChunkSize
+      );
+
+      return {
+        documentId,
+        documentName: content.metadata.documentName,
+        heading,
+        text: chunk.text,
+        range: chunk.range
+      };
+    } catch (_error) {
+      this.logger.error("文档章节获取失败", _error);
+
+      const isSectionMissing = _error instanceof LdimsApiError && _error.code === "SECTION_NOT_FOUND";
+      return {
+        isError: true,
+        errorCode: isSectionMissing ? "SECTION_NOT_FOUND" : "SECTION_FAILED",
+        errorMessage: _error instanceof Error ? _error.message : "文档章节获取失败",
+        errorDetails: {
+          documentId: params.document_id,
+          ...(isSectionMissing && { headings: _error.details })
+        }
+      };
+    }
+  }
+
+  /**
+   * 列出最近创建或移交的文档（resources/list），按配置的排序字段最新在前分页返回
+   */
+  async listRecentDocuments(cursor?: string): Promise<RecentDocumentsResponse | McpErrorResponse> {
+    const sortBy = this.searchConfig.resourceListSortBy;
+
+    try {
+      // 游标与搜索分页格式相同，指纹区分排序字段，避免修改配置后沿用旧游标
+      const fingerprint = fingerprintQuery("", { resources: sortBy });
+      const cursorState = cursor ? decodeSearchCursor(cursor, fingerprint) : undefined;
+      const page = cursorState?.page ?? 1;
+      const pageSize = cursorState
+        ? Math.min(cursorState.pageSize, MAX_UPSTREAM_PAGE_SIZE)
+        : this.searchConfig.resourceListSize;
+
+      const urlParams = new URLSearchParams({
+        page: page.toString(),
+        pageSize: pageSize.toString(),
+        sortBy,
+        sortOrder: "desc"
       });
 
-      return searchResults;
+      // 文档列表接口与内容搜索接口返回相同的分页结构
+      const response = LdimsSearchResponse.parse(await this.makeRequest(`/api/v1/documents?${urlParams.toString()}`));
+      if (response.code !== 200) {
+        throw new LdimsApiError("DOCUMENT_LIST_FAILED", response.message ?? "文档列表请求失败");
+      }
+
+      const list = response.data?.list ?? [];
+      const total = response.data?.total ?? list.length;
+      const hasMore = list.length > 0 && page * pageSize < total;
+
+      return {
+        documents: list.map(item => {
+          const documentId = String(item.id);
+          const departmentName = item.departmentName ?? item.sourceDepartmentName;
+          return {
+            documentId,
+            documentName: item.docName ?? `文档-${documentId}`,
+            ...(item.docTypeName && { documentType: item.docTypeName }),
+            ...(item.submitter && { submitter: item.submitter }),
+            ...(departmentName && { departmentName }),
+            ...(item.createdAt && { createdAt: item.createdAt }),
+            ...(item.handoverDate && { handoverDate: item.handoverDate }),
+            uri: buildExtractedContentUri(documentId)
+          };
+        }),
+        total,
+        ...(hasMore && { nextCursor: encodeSearchCursor({ page: page + 1, pageSize, offset: 0, fingerprint }) })
+      };
     } catch (_error) {
-      this.logger.error("文档搜索失败", _error);
+      this.logger.error("文档列表获取失败", _error);
 
       return {
         isError: true,
-        errorCode: "SEARCH_FAILED",
-        errorMessage: _error instanceof Error ? _error.message : "搜索失败",
-        errorDetails: { query: params.query, filters: params.filters }
+        errorCode: _error instanceof InvalidCursorError ? "INVALID_CURSOR" : "DOCUMENT_LIST_FAILED",
+        errorMessage: _error instanceof Error ? _error.message : "文档列表获取失败",
+        errorDetails: { sortBy }
+      };
+    }
+  }
+
+  /**
+   * 获取文档元数据
+   */
+  async getDocumentMetadata(documentId: string): Promise<DocumentMetadataResponse | McpErrorResponse> {
+    try {
+      const document = await this.fetchDocumentDetail(documentId);
+      const departmentName = document.departmentName ?? document.sourceDepartmentName;
+
+      return {
+        documentId,
+        documentName: document.docName ?? `文档-${documentId}`,
+        ...(document.docTypeName && { documentType: document.docTypeName }),
+        ...(document.submitter && { submitter: document.submitter }),
+        ...(departmentName && { departmentName }),
+        ...(document.createdAt && { createdAt: document.createdAt }),
+        ...(document.handoverDate && { handoverDate: document.handoverDate }),
+        ...(document.remarks && { remarks: document.remarks }),
+        fileCount: document.files?.length ?? document.fileCount ?? 0
       };
+    } catch (_error) {
+      return this.toDocumentErrorResponse(_error, "DOCUMENT_METADATA_FAILED", { documentId });
     }
   }
 
   /**
-   * 获取文档的提取内容
+   * 获取文档包含的文件列表
    */
-  async getDocumentExtractedContent(documentId: string): Promise<DocumentExtractedContentResponse | McpErrorResponse> {
+  async listDocumentFiles(documentId: string): Promise<DocumentFilesResponse | McpErrorResponse> {
+    try {
+      const document = await this.fetchDocumentDetail(documentId);
+
+      return {
+        documentId,
+        documentName: document.docName ?? `文档-${documentId}`,
+        files: (document.files ?? []).map(file => ({
+          fileId: String(file.id),
+          fileName: file.fileName ?? `文件${file.id}`,
+          ...(file.fileType && { fileType: file.fileType }),
+          ...(typeof file.fileSize === "number" && { fileSize: file.fileSize }),
+          ...(file.processingStatus && { processingStatus: file.processingStatus }),
+          uri: buildFileContentUri(documentId, String(file.id))
+        }))
+      };
+    } catch (_error) {
+      return this.toDocumentErrorResponse(_error, "DOCUMENT_FILES_FAILED", { documentId });
+    }
+  }
+
+  /**
+   * 获取文档中单个文件的提取内容；文件不属于该文档时返回 FILE_NOT_FOUND
+   */
+  async getDocumentFile(
+    documentId: string,
+    fileId: string,
+    range: ContentRangeRequest = {}
+  ): Promise<DocumentFileContentResponse | McpErrorResponse> {
+    try {
+      const document = await this.fetchDocumentDetail(documentId);
+      if (!document.files?.some(file => String(file.id) === fileId)) {
+        throw new LdimsApiError("FILE_NOT_FOUND", `文档 ${documentId} 中不存在文件 ${fileId}`);
+      }
+      return await this.getDocumentFileContent(fileId, true, "text", range);
+    } catch (_error) {
+      return this.toDocumentErrorResponse(_error, "FILE_CONTENT_FAILED", { documentId, fileId });
+    }
+  }
+
+  /**
+   * 获取文档详情，文档不存在时抛出 DOCUMENT_NOT_FOUND
+   */
+  private async fetchDocumentDetail(documentId: string): Promise<LdimsDocumentDetail> {
+    const response = LdimsDocumentDetailResponse.parse(
+      await this.makeRequest(`/api/v1/documents/${encodeURIComponent(documentId)}`)
+    );
+    if (!response.success || !response.data) {
+      throw new LdimsApiError(
+        response.error?.code ?? "DOCUMENT_NOT_FOUND",
+        response.error?.message ?? `文档 ${documentId} 不存在`
+      );
+    }
+    return response.data;
+  }
+
+  /**
+   * 将文档资源请求的异常转换为错误响应：LDIMS返回的错误码原样保留，HTTP 404 视为文档不存在
+   */
+  private toDocumentErrorResponse(
+    error: unknown,
+    fallbackCode: string,
+    details: Record<string, unknown>
+  ): McpErrorResponse {
+    this.logger.error("文档资源获取失败", { ...details, error });
+
+    return {
+      isError: true,
+      errorCode:
+        error instanceof LdimsApiError ? (error.code === "HTTP_404" ? "DOCUMENT_NOT_FOUND" : error.code) : fallbackCode,
+      errorMessage: error instanceof Error ? error.message : "文档资源获取失败",
+      errorDetails: details
+    };
+  }
+
+  /**
+   * 加载文档的完整提取内容
+   */
+  private async loadExtractedContent(documentId: string): Promise<DocumentExtractedContentResponse | McpErrorResponse> {
     try {
       this.logger.debug("获取文档提取内容", { documentId });
 
@@ -507,35 +1833,17 @@ export class LdimsApiService {
       let totalFiles = 0;
       let processedFiles = 0;
 
-      // 如果文档有文件列表，获取所有文件的内容
+      let failedFiles: FileFetchFailure[] = [];
+
+      // 如果文档有文件列表，以有限并发获取所有文件的内容，按原文件顺序拼接
       if (document.files && document.files.length > 0) {
         totalFiles = document.files.length;
-        const contentParts: string[] = [];
-
-        for (const [index, file] of document.files.entries()) {
-          try {
-            if (file.extractedContent && file.extractedContent.trim()) {
-              // 直接使用已提取的内容
-              const fileHeader = `=== 文件 ${index + 1}: ${file.fileName || `文件${file.id}`} ===`;
-              contentParts.push(`${fileHeader}\n${file.extractedContent.trim()}`);
-              processedFiles++;
-            } else if (file.id) {
-              // 尝试获取文件的提取内容
-              try {
-                const fileContentResponse = await this.makeRequest(`/api/v1/documents/files/${file.id}/content`);
-                if (fileContentResponse.success && fileContentResponse.data?.extractedContent) {
-                  const fileHeader = `=== 文件 ${index + 1}: ${file.fileName || `文件${file.id}`} ===`;
-                  contentParts.push(`${fileHeader}\n${fileContentResponse.data.extractedContent.trim()}`);
-                  processedFiles++;
-                }
-              } catch (fileError) {
-                this.logger.warn(`获取文件 ${file.id} 内容失败:`, fileError);
-              }
-            }
-          } catch (fileError) {
-            this.logger.warn(`处理文件 ${file.id || index} 时出错:`, fileError);
-          }
-        }
+        const fetched = await this.fetchDocumentFiles(document.files);
+        const contentParts = fetched.flatMap((file, index) =>
+          file.content === undefined ? [] : [`=== 文件 ${index + 1}: ${file.fileName} ===\n${file.content}`]
+        );
+        processedFiles = contentParts.length;
+        failedFiles = fetched.flatMap(file => (file.failure ? [file.failure] : []));
 
         if (contentParts.length > 0) {
           fullContent = contentParts.join("\n\n" + "=".repeat(50) + "\n\n");
@@ -575,7 +1883,8 @@ export class LdimsApiService {
           documentType: document.docTypeName,
           submitter: document.submitter,
           createdAt: document.createdAt,
-          departmentName: document.departmentName || document.sourceDepartmentName
+          departmentName: document.departmentName || document.sourceDepartmentName,
+          ...(failedFiles.length > 0 && { failedFiles })
         }
       };
 
@@ -584,6 +1893,7 @@ export class LdimsApiService {
         contentLength: result.text.length,
         totalFiles,
         processedFiles,
+        failedFiles: failedFiles.length,
         format: result.metadata.format
       });
 
@@ -606,6 +1916,77 @@ export class LdimsApiService {
     }
   }
 
+  /**
+   * 以配置的并发上限获取文档中各文件的提取内容，结果顺序与文件顺序一致；
+   * 超过文档内容获取时限后未完成和未开始的请求均记为失败
+   */
+  private async fetchDocumentFiles(
+    files: Array<{ id?: string | number; fileName?: string; extractedContent?: string }>
+  ): Promise<Array<{ fileName: string; content?: string; failure?: FileFetchFailure }>> {
+    const deadlineMs = this.searchConfig.documentFetchDeadlineMs;
+    const deadline = new AbortController();
+    const deadlineTimer = setTimeout(() => deadline.abort(), deadlineMs);
+
+    try {
+      return await mapWithConcurrency(files, this.searchConfig.fileFetchConcurrency, async (file, index) => {
+        const fileName = file.fileName || `文件${file.id ?? index + 1}`;
+
+        // 直接使用已提取的内容
+        if (file.extractedContent?.trim()) {
+          return { fileName, content: file.extractedContent.trim() };
+        }
+        if (!file.id) {
+          return { fileName };
+        }
+
+        const fileId = String(file.id);
+        const deadlineFailure = {
+          fileName,
+          failure: { fileId, fileName, reason: "deadline" as const, message: `超过文档内容获取时限（${deadlineMs}ms）` }
+        };
+        if (deadline.signal.aborted) {
+          return deadlineFailure;
+        }
+
+        try {
+          const response = await this.makeRequest(`/api/v1/documents/files/${fileId}/content`, deadline.signal);
+          if (!response.success) {
+            const code = response.error?.code ?? "UNKNOWN_ERROR";
+            const message = response.error?.message ?? "Unknown API error";
+            return {
+              fileName,
+              failure: { fileId, fileName, reason: "error" as const, message: `${code}: ${message}` }
+            };
+          }
+          const content = response.data?.extractedContent ? String(response.data.extractedContent).trim() : "";
+          if (!content) {
+            return {
+              fileName,
+              failure: { fileId, fileName, reason: "empty" as const, message: "文件没有提取内容，可能尚未解析" }
+            };
+          }
+          return { fileName, content };
+        } catch (fileError) {
+          this.logger.warn(`获取文件 ${fileId} 内容失败:`, fileError);
+          if (deadline.signal.aborted) {
+            return deadlineFailure;
+          }
+          return {
+            fileName,
+            failure: {
+              fileId,
+              fileName,
+              reason: "error" as const,
+              message: fileError instanceof Error ? fileError.message : String(fileError)
+            }
+          };
+        }
+      });
+    } finally {
+      clearTimeout(deadlineTimer);
+    }
+  }
+
   /**
    * 通过文件ID获取文档内容（兼容性方法）
    */
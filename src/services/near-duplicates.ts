@@ -0,0 +1,145 @@
+/**
+ * 近似重复检测模块
+ *
+ * 使用字符 shingle 的 64 位 SimHash 为文档内容生成指纹，
+ * 将汉明距离不超过阈值的结果归并到排名最高的主结果下（如同一文档的草稿、扫描件和重复上传）
+ */
+
+/**
+ * 64 位 SimHash 指纹（高、低 32 位）
+ */
+export interface ContentFingerprint {
+  high: number;
+  low: number;
+  /** 规范化后的文本，过短时用于精确比较 */
+  normalized: string;
+}
+
+/**
+ * 归并后的结果组
+ */
+export interface DuplicateGroup<T> {
+  primary: T;
+  duplicates: Array<{ item: T; similarity: number }>;
+}
+
+/** shingle 长度（字符） */
+const SHINGLE_SIZE = 3;
+
+/** 视为近似重复的最大汉明距离（64 位） */
+export const MAX_HAMMING_DISTANCE = 3;
+
+/** 规范化文本短于此长度时 SimHash 不可靠，仅在文本完全相同时视为重复 */
+const MIN_SIMHASH_LENGTH = 20;
+
+/** 忽略空白、标点和符号，避免排版差异影响指纹 */
+const IGNORED_CHARS_PATTERN = /[\s\p{P}\p{S}]+/gu;
+
+/**
+ * 规范化文本
+ */
+function normalizeText(text: string): string {
+  return text.replace(IGNORED_CHARS_PATTERN, "").toLowerCase();
+}
+
+/**
+ * FNV-1a 32 位哈希（seed 不同得到相互独立的两组位）
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function popcount(value: number): number {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (Math.imul((bits + (bits >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24) & 0xff;
+}
+
+/**
+ * 计算文本的 SimHash 指纹
+ */
+export function fingerprintContent(text: string): ContentFingerprint {
+  const normalized = normalizeText(text);
+  const weights = new Array<number>(64).fill(0);
+
+  const shingleCount = Math.max(1, normalized.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < shingleCount; i++) {
+    const shingle = normalized.slice(i, i + SHINGLE_SIZE);
+    const hashes = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x050c5d1f)];
+    hashes.forEach((hash, half) => {
+      for (let bit = 0; bit < 32; bit++) {
+        weights[half * 32 + bit]! += (hash >>> bit) & 1 ? 1 : -1;
+      }
+    });
+  }
+
+  let high = 0;
+  let low = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    if (weights[bit]! > 0) {
+      high |= 1 << bit;
+    }
+    if (weights[32 + bit]! > 0) {
+      low |= 1 << bit;
+    }
+  }
+
+  return { high: high >>> 0, low: low >>> 0, normalized };
+}
+
+/**
+ * 两个指纹之间的汉明距离
+ */
+export function hammingDistance(a: ContentFingerprint, b: ContentFingerprint): number {
+  return popcount((a.high ^ b.high) >>> 0) + popcount((a.low ^ b.low) >>> 0);
+}
+
+/**
+ * 计算两个指纹的相似度（0~1）；空文本不与任何文本相似，过短的文本仅在完全相同时视为相似
+ */
+export function fingerprintSimilarity(a: ContentFingerprint, b: ContentFingerprint): number {
+  if (!a.normalized || !b.normalized) {
+    return 0;
+  }
+  if (a.normalized.length < MIN_SIMHASH_LENGTH || b.normalized.length < MIN_SIMHASH_LENGTH) {
+    return a.normalized === b.normalized ? 1 : 0;
+  }
+  return 1 - hammingDistance(a, b) / 64;
+}
+
+/**
+ * 按排名顺序归并近似重复结果：每个结果与已有主结果比较，命中则归入该组，否则成为新的主结果
+ */
+export function collapseNearDuplicates<T>(
+  items: T[],
+  fingerprintOf: (item: T) => ContentFingerprint
+): Array<DuplicateGroup<T>> {
+  const groups: Array<DuplicateGroup<T> & { fingerprint: ContentFingerprint }> = [];
+  const threshold = 1 - MAX_HAMMING_DISTANCE / 64;
+
+  for (const item of items) {
+    const fingerprint = fingerprintOf(item);
+    let bestGroup: (typeof groups)[number] | undefined;
+    let bestSimilarity = 0;
+    for (const group of groups) {
+      const similarity = fingerprintSimilarity(fingerprint, group.fingerprint);
+      if (similarity >= threshold && similarity > bestSimilarity) {
+        bestGroup = group;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (bestGroup) {
+      bestGroup.duplicates.push({ item, similarity: bestSimilarity });
+    } else {
+      groups.push({ primary: item, duplicates: [], fingerprint });
+    }
+  }
+
+  return groups.map(({ primary, duplicates }) => ({ primary, duplicates }));
+}
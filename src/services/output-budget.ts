@@ -0,0 +1,128 @@
+/**
+ * 输出预算模块
+ *
+ * 按估算的 token 数在搜索结果之间分配输出预算：排名靠前的文档获得更多内容，
+ * 排名靠后的文档在预算不足时仅保留元数据和简短预览
+ */
+
+/**
+ * 单个结果的预算需求
+ */
+export interface BudgetItem {
+  /** 元数据等固定开销（不参与裁剪） */
+  fixedTokens: number;
+  /** 完整内容所需的 token 数 */
+  contentTokens: number;
+}
+
+/**
+ * 预算分配结果
+ */
+export interface BudgetAllocation {
+  /** 每个结果可用于内容的 token 数（与输入顺序一致） */
+  allowances: number[];
+  /** 预算不足以容纳全部元数据和预览时为 true */
+  overBudget: boolean;
+}
+
+/** 每个结果至少保留的预览 token 数 */
+export const PREVIEW_TOKENS = 60;
+
+/** 中日韩统一表意文字（约 1 token/字） */
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/** 其余字符约 4 个/token */
+const OTHER_CHAR_TOKENS = 0.25;
+
+/** 截断时在末尾这一比例内寻找句子边界 */
+const BOUNDARY_WINDOW = 0.3;
+
+const SENTENCE_BOUNDARIES = new Set(["。", "！", "？", "；", "!", "?", ";", ".", "\n"]);
+
+function charTokens(char: string): number {
+  return CJK_PATTERN.test(char) ? 1 : OTHER_CHAR_TOKENS;
+}
+
+/**
+ * 估算文本的 token 数：汉字按 1 token/字，其余字符按 4 字符/token
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const char of text) {
+    tokens += charTokens(char);
+  }
+  return Math.ceil(tokens);
+}
+
+/**
+ * 将文本截断到不超过 maxTokens（含末尾省略号），尽量在句子边界处截断
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  // 预留省略号
+  const limit = maxTokens - 1;
+  let tokens = 0;
+  let end = 0;
+  for (const char of text) {
+    tokens += charTokens(char);
+    if (tokens > limit) {
+      break;
+    }
+    end += char.length;
+  }
+
+  for (let i = end - 1; i >= Math.floor(end * (1 - BOUNDARY_WINDOW)) && i > 0; i--) {
+    if (SENTENCE_BOUNDARIES.has(text[i]!)) {
+      end = i + 1;
+      break;
+    }
+  }
+
+  const truncated = text.slice(0, end).trim();
+  return truncated ? `${truncated}…` : "";
+}
+
+/**
+ * 分配输出预算
+ *
+ * 先为每个结果保留固定开销和预览，剩余预算按排名权重 1/(rank+1) 依次分配；
+ * 靠前结果用不完的份额顺延给后续结果
+ */
+export function allocateOutputBudget(items: BudgetItem[], budget: number): BudgetAllocation {
+  const previews = items.map(item => Math.min(item.contentTokens, PREVIEW_TOKENS));
+  const reserved = items.reduce((sum, item, index) => sum + item.fixedTokens + previews[index]!, 0);
+  let remaining = Math.max(0, budget - reserved);
+
+  const weights = items.map((_, index) => 1 / (index + 1));
+  let remainingWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const allowances = items.map((item, index) => {
+    const weight = weights[index]!;
+    const share = Math.floor((remaining * weight) / remainingWeight);
+    remainingWeight -= weight;
+    const grant = Math.min(item.contentTokens - previews[index]!, share);
+    remaining -= grant;
+    return previews[index]! + grant;
+  });
+
+  return { allowances, overBudget: reserved > budget };
+}
+
+/**
+ * 按顺序选取不超过预算的元素（放不下的元素跳过，继续尝试后续较小的元素）
+ */
+export function selectWithinBudget<T>(items: T[], cost: (item: T) => number, allowance: number): T[] {
+  const selected: T[] = [];
+  let used = 0;
+  for (const item of items) {
+    const itemCost = cost(item);
+    if (used + itemCost <= allowance) {
+      selected.push(item);
+      used += itemCost;
+    }
+  }
+  return selected;
+}
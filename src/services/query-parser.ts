@@ -0,0 +1,292 @@
+/**
+ * 结构化查询解析模块
+ *
+ * 解析 query 中的字段限定符、布尔运算符和引号短语，例如：
+ *   type:合同 submitter:张三 "违约责任" -草稿 after:2024-01-01
+ * 字段限定符转换为 searchDocuments 过滤条件，短语和排除词作为本地后置过滤，
+ * 其余自由文本作为发送给LDIMS的查询文本。
+ * 未使用上述语法的查询按普通文本处理，其中的括号、OR 和未知的 word: 均视为字面文本
+ */
+
+import { isDateExpression } from "../utils/date-expressions.js";
+
+/**
+ * 可由字段限定符设置的过滤条件
+ */
+export type QualifierFilters = Partial<Record<"documentType" | "submitter" | "dateFrom" | "dateTo", string>>;
+
+/**
+ * 解析后的查询
+ */
+export interface ParsedQuery {
+  /** 发送给LDIMS的查询文本（自由词和短语，保持原有顺序） */
+  text: string;
+  /** 自由词 */
+  terms: string[];
+  /** 必须字面出现的短语（引号或 + 前缀） */
+  phrases: string[];
+  /** 不得出现的词或短语（- 前缀或 NOT） */
+  excluded: string[];
+  /** 字段限定符转换得到的过滤条件 */
+  filters: QualifierFilters;
+  /** 是否使用了结构化语法 */
+  structured: boolean;
+}
+
+/**
+ * 查询语法错误
+ */
+export class QueryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryParseError";
+  }
+}
+
+/**
+ * 字段限定符 → 过滤条件
+ */
+const QUALIFIER_FIELDS: Record<string, keyof QualifierFilters> = {
+  type: "documentType",
+  submitter: "submitter",
+  after: "dateFrom",
+  before: "dateTo"
+};
+
+/** 日期类限定符 */
+const DATE_QUALIFIERS = new Set<keyof QualifierFilters>(["dateFrom", "dateTo"]);
+
+/** 引号配对（支持中英文引号） */
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', "“": "”" };
+
+/** 字段限定符前缀，如 type: */
+const QUALIFIER_PATTERN = /^([A-Za-z_]+):/;
+
+/**
+ * 原始词元
+ */
+interface Token {
+  value: string;
+  /** 词元的原始文本（含前缀、限定符和引号） */
+  raw: string;
+  quoted: boolean;
+  prefix: "" | "-" | "+";
+  field?: string;
+}
+
+/**
+ * 读取引号内的内容，返回结束位置（闭合引号之后）
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = QUOTE_PAIRS[input[start]!]!;
+  const end = input.indexOf(close, start + 1);
+  if (end === -1) {
+    throw new QueryParseError(`查询语法错误：第 ${start + 1} 个字符处的引号未闭合`);
+  }
+  return { value: input.slice(start + 1, end), end: end + 1 };
+}
+
+/**
+ * 拆分词元：空白分隔，引号内的空白保留
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index]!)) {
+      index++;
+      continue;
+    }
+
+    const tokenStart = index;
+    let prefix: Token["prefix"] = "";
+    if ((input[index] === "-" || input[index] === "+") && index + 1 < input.length && !/\s/.test(input[index + 1]!)) {
+      prefix = input[index] as "-" | "+";
+      index++;
+    }
+
+    if (QUOTE_PAIRS[input[index]!]) {
+      const { value, end } = readQuoted(input, index);
+      tokens.push({ value, raw: input.slice(tokenStart, end), quoted: true, prefix });
+      index = end;
+      continue;
+    }
+
+    let end = index;
+    while (end < input.length && !/\s/.test(input[end]!)) {
+      end++;
+    }
+    const word = input.slice(index, end);
+    const qualifier = QUALIFIER_PATTERN.exec(word);
+
+    // URL 等包含 "://" 的文本不视为字段限定符
+    if (qualifier && !word.startsWith(`${qualifier[1]}://`)) {
+      const valueStart = index + qualifier[0].length;
+      if (QUOTE_PAIRS[input[valueStart]!]) {
+        const { value, end: quotedEnd } = readQuoted(input, valueStart);
+        tokens.push({
+          value,
+          raw: input.slice(tokenStart, quotedEnd),
+          quoted: true,
+          prefix,
+          field: qualifier[1]!.toLowerCase()
+        });
+        index = quotedEnd;
+        continue;
+      }
+      tokens.push({
+        value: word.slice(qualifier[0].length),
+        raw: input.slice(tokenStart, end),
+        quoted: false,
+        prefix,
+        field: qualifier[1]!.toLowerCase()
+      });
+    } else {
+      tokens.push({ value: word, raw: input.slice(tokenStart, end), quoted: false, prefix });
+    }
+    index = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * 是否为支持的字段限定符
+ */
+function isKnownQualifier(field: string): boolean {
+  return Object.hasOwn(QUALIFIER_FIELDS, field);
+}
+
+/**
+ * 是否为不带前缀和引号的布尔运算符
+ */
+function isOperator(token: Token, operator: "AND" | "NOT" | "OR"): boolean {
+  return !token.quoted && token.field === undefined && token.prefix === "" && token.value === operator;
+}
+
+/**
+ * 查询是否使用了结构化语法：引号短语、+/- 前缀、已知字段限定符或 AND/NOT
+ */
+function usesQuerySyntax(tokens: Token[]): boolean {
+  return tokens.some(
+    token =>
+      token.quoted ||
+      token.prefix !== "" ||
+      (token.field !== undefined && isKnownQualifier(token.field)) ||
+      isOperator(token, "AND") ||
+      isOperator(token, "NOT")
+  );
+}
+
+/**
+ * 解析结构化查询
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const tokens = tokenize(query);
+  const structured = usesQuerySyntax(tokens);
+  const terms: string[] = [];
+  const phrases: string[] = [];
+  const ordered: string[] = [];
+  const excluded: string[] = [];
+  const filters: QualifierFilters = {};
+  let negateNext = false;
+
+  for (const token of tokens) {
+    // 普通文本：括号、OR 和未知的 word: 均为字面文本
+    if (!structured) {
+      const value = token.field !== undefined ? token.raw : token.value.trim();
+      if (value) {
+        terms.push(value);
+        ordered.push(value);
+      }
+      continue;
+    }
+
+    if (!token.quoted && token.field === undefined && token.prefix === "") {
+      if (token.value === "AND") {
+        continue;
+      }
+      if (token.value === "NOT") {
+        negateNext = true;
+        continue;
+      }
+      if (token.value === "OR") {
+        throw new QueryParseError("查询语法错误：暂不支持 OR 运算符，请拆分为多次搜索");
+      }
+      if (/[()]/.test(token.value)) {
+        throw new QueryParseError("查询语法错误：暂不支持括号分组");
+      }
+    }
+
+    const negated = negateNext || token.prefix === "-";
+    negateNext = false;
+
+    if (token.field !== undefined) {
+      const filterName = isKnownQualifier(token.field) ? QUALIFIER_FIELDS[token.field] : undefined;
+      if (!filterName) {
+        throw new QueryParseError(
+          `查询语法错误：不支持的字段限定符 "${token.field}:"，可用限定符：${Object.keys(QUALIFIER_FIELDS)
+            .map(name => `${name}:`)
+            .join("、")}`
+        );
+      }
+      if (negated || token.prefix === "+") {
+        throw new QueryParseError(`查询语法错误：字段限定符 "${token.field}:" 不支持 -、+ 或 NOT 前缀`);
+      }
+      const value = token.value.trim();
+      if (!value) {
+        throw new QueryParseError(`查询语法错误：字段限定符 "${token.field}:" 缺少取值`);
+      }
+      if (filters[filterName] !== undefined) {
+        throw new QueryParseError(`查询语法错误：字段限定符 "${token.field}:" 重复出现`);
+      }
+      if (DATE_QUALIFIERS.has(filterName) && !isDateExpression(value) && Number.isNaN(Date.parse(value))) {
+        throw new QueryParseError(
+          `查询语法错误："${token.field}:${value}" 不是有效日期，请使用ISO 8601格式或相对日期（如 去年、上季度）`
+        );
+      }
+      filters[filterName] = value;
+      continue;
+    }
+
+    const value = token.value.trim();
+    if (!value) {
+      continue;
+    }
+
+    if (negated) {
+      excluded.push(value);
+    } else if (token.quoted || token.prefix === "+") {
+      phrases.push(value);
+      ordered.push(value);
+    } else {
+      terms.push(value);
+      ordered.push(value);
+    }
+  }
+
+  if (negateNext) {
+    throw new QueryParseError("查询语法错误：NOT 之后缺少要排除的词");
+  }
+
+  return {
+    text: ordered.join(" "),
+    terms,
+    phrases,
+    excluded,
+    filters,
+    structured
+  };
+}
+
+/**
+ * 本地校验短语和排除词：短语须完整出现，排除词不得出现（均不区分大小写）
+ */
+export function matchesQueryConstraints(text: string, parsed: Pick<ParsedQuery, "phrases" | "excluded">): boolean {
+  const lowerText = text.toLowerCase();
+  return (
+    parsed.phrases.every(phrase => lowerText.includes(phrase.toLowerCase())) &&
+    parsed.excluded.every(term => !lowerText.includes(term.toLowerCase()))
+  );
+}
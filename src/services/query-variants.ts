@@ -0,0 +1,554 @@
+/**
+ * 查询变体模块
+ *
+ * LDIMS对原始查询零命中时，依次生成以下查询变体用于重试：
+ *   script 繁简转换：採購合同 → 采购合同
+ *   pinyin 拼音：zhangsan 的合同 → 张三 的合同
+ *   fuzzy  模糊匹配：张珊的采购合约 → 张三的采购合同（近音字，或与名称相差一个字）
+ * 拼音和模糊匹配以候选名称（过滤条件目录中的提交人、部门和文档类型）为目标，
+ * 内置常用字的繁简对照和拼音表，不依赖外部库
+ */
+
+import type { QueryReplacement, QueryVariant, QueryVariantKind } from "../types/mcp.js";
+
+/**
+ * 内置繁简对照（简体在前），仅收录一一对应的常用字
+ */
+const SCRIPT_PAIRS = [
+  "采採 购購 议議 协協 书書 报報 会會 纪紀 财財 务務 审審 计計 发發 单單 据據 档檔 资資 产產 设設 备備",
+  "规規 项項 门門 员員 张張 刘劉 陈陳 杨楊 赵趙 吴吳 孙孫 郑鄭 冯馮 邓鄧 许許 罗羅 马馬 韩韓 叶葉 钱錢",
+  "汤湯 质質 术術 总總 结結 划劃 运運 营營 销銷 订訂 级級 类類 业業 东東 国國 际際 广廣 厂廠 长長 开開",
+  "关關 问問 题題 价價 贷貸 银銀 险險 验驗 检檢 测測 试試 证證 认認 请請 办辦 处處 录錄 记記 讯訊 统統",
+  "数數 库庫 网網 络絡 电電 话話 邮郵 车車 辆輛 维維 护護 应應 标標 准準 补補 贴貼 奖獎 绩績 预預 决決",
+  "实實 执執 监監 调調 访訪 谈談 论論 讨討 见見 说說 读讀 写寫 图圖 纸紙 样樣 签簽 约約 条條 责責 赔賠",
+  "偿償 费費 税稅 额額 户戶 币幣 经經 济濟 环環 让讓 转轉 贸貿 进進 输輸 仓倉 储儲 货貨 装裝 递遞 归歸",
+  "历歷 旧舊 机機 构構 组組 织織 团團 队隊 负負 领領 导導 职職 称稱 养養 医醫 疗療 伤傷 劳勞 动動 争爭",
+  "诉訴 讼訟 师師 专專 权權 获獲 节節 宾賓 馆館 饮飲 厅廳 楼樓 层層 场場 区區 县縣 乡鄉 镇鎮 农農 药藥",
+  "卫衛 态態 热熱 气氣 灯燈 线線 铁鐵 钢鋼 软軟 迁遷 隐隱 练練 训訓 课課 讲講 杂雜 黄黃 谢謝 韦韋 邹鄒",
+  "龙龍 陆陸 龚龔 贺賀 顾顧 严嚴 卢盧 闫閆 苏蘇 乔喬 贾賈 华華 伟偉 丽麗 强強 军軍 杰傑 涛濤 辉輝 鹏鵬",
+  "飞飛 晓曉 云雲 洁潔 宁寧 轩軒 荣榮 亚亞 悦悅 泽澤 诚誠 义義 乐樂 凯凱 颖穎 兰蘭 红紅 刚剛 静靜 凤鳳",
+  "岚嵐 丰豐 为為 与與 个個 们們 这這 时時 来來 对對 现現 内內 两兩 从從 还還 无無 点點 过過 万萬 众眾",
+  "体體 变變 达達 选選"
+].join(" ");
+
+/**
+ * 内置拼音表（不含声调），多音字在各读音下分别收录
+ */
+const PINYIN_TABLE: Record<string, string> = {
+  an: "安案",
+  ba: "八",
+  bai: "白",
+  ban: "办",
+  bao: "报保",
+  bei: "备",
+  biao: "标表",
+  bin: "斌彬",
+  bing: "冰",
+  bo: "波博",
+  bu: "部",
+  cai: "蔡采财",
+  cao: "曹草",
+  ce: "策",
+  ceng: "曾",
+  cha: "查",
+  chan: "产",
+  chang: "长场",
+  chao: "超",
+  chen: "陈晨辰",
+  cheng: "程成诚",
+  chun: "春",
+  cui: "崔",
+  dai: "戴贷",
+  dan: "单丹",
+  dang: "档",
+  de: "德",
+  deng: "邓",
+  ding: "丁",
+  dong: "董东",
+  du: "杜度",
+  duan: "段",
+  er: "二",
+  fa: "法发",
+  fan: "范帆凡",
+  fang: "方芳",
+  fei: "飞费",
+  feng: "冯峰",
+  fu: "付福服",
+  gang: "刚纲",
+  gao: "高告稿",
+  ge: "葛格",
+  gong: "龚公工",
+  gou: "购",
+  gu: "顾",
+  guan: "管",
+  guang: "光",
+  gui: "桂规",
+  guo: "郭国",
+  hai: "海",
+  han: "韩涵函",
+  hang: "行航",
+  hao: "郝浩",
+  he: "何贺和合核",
+  hong: "红",
+  hou: "侯",
+  hu: "胡护",
+  hua: "华划",
+  huang: "黄",
+  hui: "会辉慧",
+  ji: "纪计技记",
+  jia: "贾佳嘉家价",
+  jian: "建件检",
+  jiang: "蒋姜江",
+  jie: "杰洁结",
+  jin: "金",
+  jing: "静晶婧",
+  jiu: "九究",
+  ju: "据",
+  juan: "娟",
+  jun: "军俊",
+  kai: "凯开",
+  kong: "孔",
+  kuai: "会",
+  kuan: "款",
+  lan: "兰",
+  le: "乐",
+  lei: "雷磊蕾",
+  li: "李黎丽莉立利力理",
+  liang: "梁亮量",
+  liao: "廖",
+  lin: "林琳赁",
+  ling: "玲",
+  liu: "刘六流",
+  long: "龙",
+  lu: "吕卢陆璐露录",
+  lue: "略",
+  luo: "罗",
+  lv: "吕",
+  lve: "略",
+  ma: "马",
+  mao: "毛",
+  mei: "梅",
+  meng: "孟",
+  mi: "密",
+  min: "敏民",
+  ming: "明",
+  mo: "莫",
+  mu: "目",
+  na: "娜",
+  nan: "楠",
+  ning: "宁",
+  ou: "欧",
+  pan: "潘",
+  peng: "彭鹏",
+  pi: "批",
+  piao: "票",
+  ping: "平萍",
+  qi: "七琪琦",
+  qian: "钱倩",
+  qiang: "强",
+  qin: "秦覃",
+  qing: "请清",
+  qiu: "邱",
+  quan: "全",
+  ran: "然",
+  ren: "任人",
+  rong: "荣",
+  rui: "瑞睿",
+  san: "三",
+  shan: "单山珊杉",
+  shang: "上",
+  shao: "邵",
+  she: "设",
+  shen: "沈申审",
+  sheng: "生",
+  shi: "石史十事市室",
+  shou: "售收",
+  shu: "术书",
+  si: "司四思",
+  song: "宋",
+  su: "苏",
+  suan: "算",
+  sun: "孙",
+  tan: "谭覃",
+  tang: "唐汤",
+  tao: "陶涛",
+  tian: "田天",
+  ting: "婷",
+  tong: "同通",
+  tou: "投",
+  wan: "万",
+  wang: "王汪",
+  wei: "魏韦伟薇维",
+  wen: "文",
+  wu: "吴武五务",
+  xi: "息细",
+  xia: "夏霞",
+  xian: "险",
+  xiang: "向项",
+  xiao: "肖晓小销",
+  xie: "谢协",
+  xin: "欣新鑫信心",
+  xing: "行",
+  xiong: "熊",
+  xiu: "秀",
+  xu: "徐许旭",
+  xuan: "轩",
+  xue: "薛雪",
+  ya: "亚",
+  yan: "闫严艳燕研验",
+  yang: "杨阳洋",
+  yao: "姚要",
+  ye: "叶",
+  yi: "一怡义议",
+  yin: "尹",
+  ying: "英颖营",
+  yong: "勇永用",
+  yu: "于余玉宇雨预",
+  yuan: "袁",
+  yue: "乐悦约",
+  yun: "云运",
+  ze: "泽则",
+  zeng: "曾",
+  zha: "查",
+  zhang: "张长章彰账",
+  zhao: "赵招",
+  zheng: "郑政",
+  zhi: "志知制质",
+  zhong: "钟中",
+  zhou: "周",
+  zhu: "朱",
+  zi: "子资",
+  zong: "总综",
+  zou: "邹",
+  zu: "租"
+};
+
+/**
+ * 繁简写法相同的常用字；查询中既不在繁简对照中也不在此列表中的汉字可能需要转换但无法转换，
+ * 此时不生成繁简转换变体，避免产生繁简混杂的查询（如 违约责任 → 违約責任）
+ */
+const SCRIPT_INVARIANT_CHARS = new Set(
+  [
+    "的一是不了人我在有他上下大中小到地以要就出也子和生去年得自作用道行所然家事成方多同已而定心其起都把好",
+    "使本明理什公此加外天文手意高正力者名因性由合甲乙丙丁第款章法部算金日月期度季工程建安全管政策市品牌客",
+    "服信息研究目案告件通知申批核查租借支付收入利保薪酬福考勤招聘伴供商量左右前少低新短主任董股益率格值印",
+    "花土房屋施器材料物耗油燃水暖消防估稽式版次序列清附充修改更撤解除止延署授委代律仲裁可著密李王徐朱林何",
+    "郭梁宋唐曹袁傅曾彭蔡魏薛潘杜戴夏汪田石姚廖熊郝孔白崔康毛邱秦江史侯邵孟段雷尹黎易常武三四五六七八九十",
+    "百千零平春秋冬西南北山海河湖星光玉英芳敏梅"
+  ].join("")
+);
+
+const TO_SIMPLIFIED = new Map<string, string>();
+const TO_TRADITIONAL = new Map<string, string>();
+for (const pair of SCRIPT_PAIRS.split(" ")) {
+  const [simplified, traditional] = Array.from(pair);
+  TO_SIMPLIFIED.set(traditional!, simplified!);
+  TO_TRADITIONAL.set(simplified!, traditional!);
+}
+
+const CHAR_READINGS = new Map<string, string[]>();
+for (const [syllable, chars] of Object.entries(PINYIN_TABLE)) {
+  for (const char of chars) {
+    CHAR_READINGS.set(char, [...(CHAR_READINGS.get(char) ?? []), syllable]);
+  }
+}
+
+/** 单个名称展开的拼音组合上限（多音字） */
+const MAX_PINYIN_KEYS = 16;
+
+/** 连续拼音音节的最大词元数，如 zhang san feng */
+const MAX_PINYIN_TOKENS = 4;
+
+/** 候选名称的最小长度 */
+const MIN_NAME_LENGTH = 2;
+
+/** 允许按编辑距离匹配的最小名称长度；更短的名称只按近音匹配 */
+const MIN_EDIT_DISTANCE_LENGTH = 4;
+
+const CJK_RUN_PATTERN = /[\u4e00-\u9fff]+/g;
+const LATIN_WORD_PATTERN = /[A-Za-z]+/g;
+const CJK_ONLY_PATTERN = /^[\u4e00-\u9fff]+$/;
+const LATIN_ONLY_PATTERN = /^[A-Za-z]+$/;
+
+/**
+ * 转换为简体（未收录的字保持不变）
+ */
+export function toSimplified(text: string): string {
+  return Array.from(text, char => TO_SIMPLIFIED.get(char) ?? char).join("");
+}
+
+/**
+ * 转换为繁体（未收录的字保持不变）
+ */
+export function toTraditional(text: string): string {
+  return Array.from(text, char => TO_TRADITIONAL.get(char) ?? char).join("");
+}
+
+/**
+ * 查询中的汉字是否都能确定繁简写法（在繁简对照中或繁简写法相同），不能确定时转换结果可能只转换了一部分
+ */
+function isScriptConvertible(text: string): boolean {
+  return Array.from(text.matchAll(CJK_RUN_PATTERN)).every(([run]) =>
+    Array.from(run).every(
+      char => TO_SIMPLIFIED.has(char) || TO_TRADITIONAL.has(char) || SCRIPT_INVARIANT_CHARS.has(char)
+    )
+  );
+}
+
+/**
+ * 近音归一：不区分平翘舌、前后鼻音和 n/l
+ */
+function normalizeSyllable(syllable: string): string {
+  return syllable
+    .replace(/^([zcs])h/, "$1")
+    .replace(/^l/, "n")
+    .replace(/([aei])ng$/, "$1n");
+}
+
+/**
+ * 计算文本可能的拼音（音节直接拼接）；含未收录的字时返回空数组
+ */
+export function pinyinKeys(text: string, approximate = false): string[] {
+  let keys = [""];
+  for (const char of toSimplified(text)) {
+    const readings = CHAR_READINGS.get(char);
+    if (!readings) {
+      return [];
+    }
+    const syllables = approximate ? [...new Set(readings.map(normalizeSyllable))] : readings;
+    keys = keys.flatMap(key => syllables.map(syllable => key + syllable)).slice(0, MAX_PINYIN_KEYS);
+  }
+  return keys;
+}
+
+/**
+ * 编辑距离（相邻两字互换计为一次编辑）
+ */
+export function editDistance(a: string, b: string): number {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  const distances = Array.from({ length: left.length + 1 }, (_, i) =>
+    Array.from({ length: right.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= left.length; i++) {
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      let distance = Math.min(distances[i - 1]![j]! + 1, distances[i]![j - 1]! + 1, distances[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        distance = Math.min(distance, distances[i - 2]![j - 2]! + 1);
+      }
+      distances[i]![j] = distance;
+    }
+  }
+  return distances[left.length]![right.length]!;
+}
+
+/**
+ * 替换区间
+ */
+interface Span {
+  start: number;
+  end: number;
+  to: string;
+}
+
+/**
+ * 按区间替换文本，返回新文本和替换记录
+ */
+function applySpans(text: string, spans: Span[]): { text: string; replacements: QueryReplacement[] } {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  let result = "";
+  let position = 0;
+  for (const span of sorted) {
+    result += text.slice(position, span.start) + span.to;
+    position = span.end;
+  }
+  return {
+    text: result + text.slice(position),
+    replacements: sorted.map(span => ({ from: text.slice(span.start, span.end), to: span.to }))
+  };
+}
+
+/**
+ * 逐字比较转换前后的文本，记录发生变化的连续片段
+ */
+function diffByChar(before: string, after: string): QueryReplacement[] {
+  const left = Array.from(before);
+  const right = Array.from(after);
+  const replacements: QueryReplacement[] = [];
+  let index = 0;
+  while (index < left.length) {
+    if (left[index] === right[index]) {
+      index++;
+      continue;
+    }
+    const start = index;
+    while (index < left.length && left[index] !== right[index]) {
+      index++;
+    }
+    replacements.push({ from: left.slice(start, index).join(""), to: right.slice(start, index).join("") });
+  }
+  return replacements;
+}
+
+/**
+ * 字段限定符名称（如 type:）不参与替换
+ */
+function isQualifierName(text: string, end: number): boolean {
+  return text[end] === ":";
+}
+
+/**
+ * 拼音替换：连续的拉丁词元拼接后与候选名称的拼音相同时替换为该名称
+ */
+function replacePinyin(text: string, names: string[]): Span[] {
+  const byPinyin = new Map<string, string>();
+  for (const name of names) {
+    if (CJK_ONLY_PATTERN.test(name)) {
+      for (const key of pinyinKeys(name)) {
+        if (!byPinyin.has(key)) {
+          byPinyin.set(key, name);
+        }
+      }
+    }
+  }
+
+  const tokens = Array.from(text.matchAll(LATIN_WORD_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    value: match[0].toLowerCase()
+  }));
+  const spans: Span[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    let key = "";
+    let found: Span | undefined;
+    for (let j = i; j < Math.min(tokens.length, i + MAX_PINYIN_TOKENS); j++) {
+      const token = tokens[j]!;
+      if (j > i && !/^[\s'-]*$/.test(text.slice(tokens[j - 1]!.end, token.start))) {
+        break;
+      }
+      key += token.value;
+      const name = byPinyin.get(key);
+      if (name && !isQualifierName(text, token.end)) {
+        found = { start: tokens[i]!.start, end: token.end, to: name };
+      }
+    }
+    if (found) {
+      const { end } = found;
+      spans.push(found);
+      i = tokens.findIndex(token => token.end === end);
+    }
+  }
+  return spans;
+}
+
+/**
+ * 模糊匹配候选
+ */
+interface FuzzyCandidate extends Span {
+  distance: number;
+}
+
+/**
+ * 模糊替换：与候选名称近音（等长）或编辑距离为1的片段替换为该名称；
+ * 已与某个名称完全一致的片段不参与替换
+ */
+function replaceFuzzy(text: string, names: string[]): Span[] {
+  const lowerText = text.toLowerCase();
+  const covered: Array<[number, number]> = [];
+  for (const name of names) {
+    const lowerName = name.toLowerCase();
+    for (let index = lowerText.indexOf(lowerName); index !== -1; index = lowerText.indexOf(lowerName, index + 1)) {
+      covered.push([index, index + name.length]);
+    }
+  }
+  const isCovered = (start: number, end: number): boolean =>
+    covered.some(([coveredStart, coveredEnd]) => start < coveredEnd && end > coveredStart);
+
+  const candidates: FuzzyCandidate[] = [];
+  for (const name of names) {
+    if (CJK_ONLY_PATTERN.test(name)) {
+      const namePinyin = new Set(pinyinKeys(name, true));
+      for (const run of text.matchAll(CJK_RUN_PATTERN)) {
+        for (let length = name.length - 1; length <= name.length + 1; length++) {
+          for (let offset = 0; length >= MIN_NAME_LENGTH && offset + length <= run[0].length; offset++) {
+            const start = run.index! + offset;
+            const end = start + length;
+            if (isCovered(start, end)) {
+              continue;
+            }
+            const window = text.slice(start, end);
+            const distance = editDistance(window, name);
+            const homophone = length === name.length && pinyinKeys(window, true).some(key => namePinyin.has(key));
+            if (homophone || (name.length >= MIN_EDIT_DISTANCE_LENGTH && distance <= 1)) {
+              candidates.push({ start, end, to: name, distance });
+            }
+          }
+        }
+      }
+    } else if (LATIN_ONLY_PATTERN.test(name) && name.length >= MIN_EDIT_DISTANCE_LENGTH) {
+      for (const word of text.matchAll(LATIN_WORD_PATTERN)) {
+        const start = word.index!;
+        const end = start + word[0].length;
+        if (isCovered(start, end) || isQualifierName(text, end)) {
+          continue;
+        }
+        const distance = editDistance(word[0].toLowerCase(), name.toLowerCase());
+        if (distance <= 1) {
+          candidates.push({ start, end, to: name, distance });
+        }
+      }
+    }
+  }
+
+  // 优先较长的名称、较小的编辑距离和长度相同的片段，区间不重叠
+  const lengthGap = (candidate: FuzzyCandidate): number =>
+    Math.abs(candidate.end - candidate.start - candidate.to.length);
+  candidates.sort(
+    (a, b) => b.to.length - a.to.length || a.distance - b.distance || lengthGap(a) - lengthGap(b) || a.start - b.start
+  );
+  const spans: Span[] = [];
+  for (const candidate of candidates) {
+    if (!spans.some(span => candidate.start < span.end && candidate.end > span.start)) {
+      spans.push(candidate);
+    }
+  }
+  return spans;
+}
+
+/**
+ * 生成查询变体，按 script → pinyin → fuzzy 的顺序返回；
+ * pinyin 在简体文本上替换，fuzzy 在 pinyin 替换后的文本上继续替换，与前一变体相同的不重复返回。
+ * 查询含无法确定繁简写法的汉字时不生成 script 变体，pinyin 和 fuzzy 在原始查询上替换
+ */
+export function generateQueryVariants(query: string, names: string[]): QueryVariant[] {
+  const candidates = [
+    ...new Set(names.map(name => toSimplified(name.trim())).filter(name => name.length >= MIN_NAME_LENGTH))
+  ];
+  const variants: QueryVariant[] = [];
+  const seen = new Set([query]);
+  const add = (kind: QueryVariantKind, text: string, replacements: QueryReplacement[]): void => {
+    if (!seen.has(text)) {
+      seen.add(text);
+      variants.push({ kind, query: text, replacements });
+    }
+  };
+
+  const convertible = isScriptConvertible(query);
+  const simplified = convertible ? toSimplified(query) : query;
+  if (convertible) {
+    add("script", simplified, diffByChar(query, simplified));
+    const traditional = toTraditional(query);
+    add("script", traditional, diffByChar(query, traditional));
+  }
+
+  const pinyin = applySpans(simplified, replacePinyin(simplified, candidates));
+  add("pinyin", pinyin.text, [...diffByChar(query, simplified), ...pinyin.replacements]);
+
+  const fuzzy = applySpans(pinyin.text, replaceFuzzy(pinyin.text, candidates));
+  add("fuzzy", fuzzy.text, [...diffByChar(query, simplified), ...pinyin.replacements, ...fuzzy.replacements]);
+
+  return variants;
+}
@@ -0,0 +1,245 @@
+/**
+ * 相关性评分模块
+ *
+ * 基于返回的文档内容和元数据在本地计算相关性：
+ * 词频（按文档长度归一化）、关键词邻近度、标题命中和时效性，按可配置权重加权求和
+ */
+
+import type { RelevanceWeights } from "../types/mcp.js";
+
+/**
+ * 参与评分的文档
+ */
+export interface ScorableDocument {
+  /** 文档标题 */
+  title: string;
+  /** 用于评分的正文内容 */
+  content: string;
+  /** 文档日期（用于时效性评分） */
+  date?: string | null | undefined;
+}
+
+/**
+ * 各评分维度得分（0~1）
+ */
+export interface RelevanceComponents {
+  termFrequency: number;
+  proximity: number;
+  title: number;
+  recency: number;
+}
+
+/**
+ * 单个文档的评分结果
+ */
+export interface RelevanceScore {
+  /** 加权综合得分（0~1） */
+  score: number;
+  /** 各维度得分 */
+  components: RelevanceComponents;
+  /** 各关键词在正文中的出现次数 */
+  termCounts: Record<string, number>;
+}
+
+/**
+ * 评分器选项
+ */
+export interface RelevanceScorerOptions {
+  /** 原始查询（用于整句命中判断） */
+  query: string;
+  /** 查询关键词 */
+  keywords: string[];
+  /** 各维度权重 */
+  weights: RelevanceWeights;
+  /** 时效性半衰期（天） */
+  recencyHalfLifeDays: number;
+  /** 结果集中正文的平均长度（用于词频长度归一化） */
+  averageLength: number;
+  /** 评分基准时间（默认当前时间） */
+  now?: number;
+}
+
+/** 词频饱和参数（BM25 k1） */
+const TF_SATURATION = 1.2;
+
+/** 长度归一化参数（BM25 b） */
+const LENGTH_NORMALIZATION = 0.75;
+
+/** 邻近度计算的字符尺度：跨度为该值时得分减半 */
+const PROXIMITY_SCALE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 统计关键词出现位置（大小写不敏感）
+ */
+function findPositions(lowerText: string, needle: string): number[] {
+  const positions: number[] = [];
+  let index = lowerText.indexOf(needle);
+  while (index !== -1) {
+    positions.push(index);
+    index = lowerText.indexOf(needle, index + needle.length);
+  }
+  return positions;
+}
+
+/**
+ * 计算包含所有已命中关键词的最小字符窗口（滑动窗口）
+ */
+function minimalCoveringSpan(hits: Array<{ keyword: number; start: number; end: number }>, required: number): number {
+  const sorted = [...hits].sort((a, b) => a.start - b.start);
+  const counts = new Map<number, number>();
+  let covered = 0;
+  let left = 0;
+  let best = Infinity;
+
+  for (const right of sorted) {
+    const count = (counts.get(right.keyword) ?? 0) + 1;
+    counts.set(right.keyword, count);
+    if (count === 1) {
+      covered++;
+    }
+
+    while (covered === required) {
+      const leftHit = sorted[left]!;
+      best = Math.min(best, right.end - leftHit.start);
+
+      const remaining = counts.get(leftHit.keyword)! - 1;
+      counts.set(leftHit.keyword, remaining);
+      if (remaining === 0) {
+        covered--;
+      }
+      left++;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 相关性评分器
+ */
+export class RelevanceScorer {
+  private readonly options: RelevanceScorerOptions;
+  private readonly lowerKeywords: string[];
+  private readonly lowerQuery: string;
+  private readonly now: number;
+
+  constructor(options: RelevanceScorerOptions) {
+    this.options = options;
+    this.lowerKeywords = options.keywords.map(keyword => keyword.toLowerCase());
+    this.lowerQuery = options.query.trim().toLowerCase();
+    this.now = options.now ?? Date.now();
+  }
+
+  /**
+   * 计算单个文档的相关性
+   */
+  score(document: ScorableDocument): RelevanceScore {
+    const lowerContent = document.content.toLowerCase();
+    const positions = this.lowerKeywords.map(keyword => findPositions(lowerContent, keyword));
+    const termCounts: Record<string, number> = {};
+    this.options.keywords.forEach((keyword, index) => {
+      termCounts[keyword] = positions[index]!.length;
+    });
+
+    const components: RelevanceComponents = {
+      termFrequency: this.scoreTermFrequency(positions, document.content.length),
+      proximity: this.scoreProximity(lowerContent, positions),
+      title: this.scoreTitle(document.title.toLowerCase()),
+      recency: this.scoreRecency(document.date)
+    };
+
+    const { weights } = this.options;
+    const totalWeight = weights.termFrequency + weights.proximity + weights.title + weights.recency;
+    const weighted =
+      totalWeight > 0
+        ? (weights.termFrequency * components.termFrequency +
+            weights.proximity * components.proximity +
+            weights.title * components.title +
+            weights.recency * components.recency) /
+          totalWeight
+        : 0;
+
+    return {
+      score: round(weighted),
+      components: {
+        termFrequency: round(components.termFrequency),
+        proximity: round(components.proximity),
+        title: round(components.title),
+        recency: round(components.recency)
+      },
+      termCounts
+    };
+  }
+
+  /**
+   * 词频：每个关键词的饱和词频（BM25式长度归一化）取平均
+   */
+  private scoreTermFrequency(positions: number[][], length: number): number {
+    if (positions.length === 0) {
+      return 0;
+    }
+    const averageLength = this.options.averageLength > 0 ? this.options.averageLength : length || 1;
+    const lengthFactor = 1 - LENGTH_NORMALIZATION + LENGTH_NORMALIZATION * (length / averageLength);
+    const total = positions.reduce((sum, hits) => {
+      const tf = hits.length;
+      return sum + tf / (tf + TF_SATURATION * lengthFactor);
+    }, 0);
+    return total / positions.length;
+  }
+
+  /**
+   * 邻近度：完整查询原样出现记满分；否则按覆盖全部已命中关键词的最小窗口计算，并乘以命中比例
+   */
+  private scoreProximity(lowerContent: string, positions: number[][]): number {
+    if (this.lowerQuery && lowerContent.includes(this.lowerQuery)) {
+      return 1;
+    }
+
+    const hitKeywordIndexes = positions.map((hits, index) => (hits.length > 0 ? index : -1)).filter(i => i >= 0);
+    if (hitKeywordIndexes.length < 2) {
+      return 0;
+    }
+
+    const hits = hitKeywordIndexes.flatMap(index =>
+      positions[index]!.map(start => ({ keyword: index, start, end: start + this.lowerKeywords[index]!.length }))
+    );
+    const span = minimalCoveringSpan(hits, hitKeywordIndexes.length);
+    const coverage = hitKeywordIndexes.length / this.lowerKeywords.length;
+    return coverage * (PROXIMITY_SCALE / (PROXIMITY_SCALE + span));
+  }
+
+  /**
+   * 标题命中：完整查询出现在标题中记满分，否则按命中关键词比例计算
+   */
+  private scoreTitle(lowerTitle: string): number {
+    if (!lowerTitle || this.lowerKeywords.length === 0) {
+      return 0;
+    }
+    if (this.lowerQuery && lowerTitle.includes(this.lowerQuery)) {
+      return 1;
+    }
+    const matched = this.lowerKeywords.filter(keyword => lowerTitle.includes(keyword)).length;
+    return matched / this.lowerKeywords.length;
+  }
+
+  /**
+   * 时效性：按半衰期指数衰减，缺少日期记0分
+   */
+  private scoreRecency(date: string | null | undefined): number {
+    const timestamp = date ? Date.parse(date) : NaN;
+    if (Number.isNaN(timestamp) || this.options.recencyHalfLifeDays <= 0) {
+      return 0;
+    }
+    const ageDays = Math.max(0, (this.now - timestamp) / DAY_MS);
+    return Math.pow(0.5, ageDays / this.options.recencyHalfLifeDays);
+  }
+}
+
+/**
+ * 保留4位小数
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
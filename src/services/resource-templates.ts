@@ -0,0 +1,122 @@
+/**
+ * 资源模板模块
+ *
+ * 定义 resources/templates/list 返回的URI模板（RFC 6570），并将 resources/read 请求的URI
+ * 匹配到对应的资源类型，例如：
+ *   ldims://docs/42/files/7/content?offset=20000 → fileContent，documentId=42，fileId=7
+ */
+
+/**
+ * 资源类型
+ */
+export type ResourceKind = "metadata" | "files" | "fileContent" | "extractedContent";
+
+/**
+ * 资源模板定义
+ */
+export interface ResourceTemplateDefinition {
+  kind: ResourceKind;
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  /** 匹配URI路径（不含查询参数），捕获组依次为 documentId、fileId */
+  pattern: RegExp;
+}
+
+/**
+ * 匹配到的资源
+ */
+export interface MatchedResource {
+  kind: ResourceKind;
+  documentId: string;
+  fileId?: string;
+  /** URI查询参数，如分段读取的 offset/length */
+  query: URLSearchParams;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  {
+    kind: "metadata",
+    uriTemplate: "ldims://docs/{documentId}/metadata",
+    name: "LDIMS文档元数据",
+    description: "文档名称、类型、提交人、部门、创建和移交日期、说明及文件数量",
+    mimeType: "application/json",
+    pattern: /^ldims:\/\/docs\/([^/?]+)\/metadata$/
+  },
+  {
+    kind: "files",
+    uriTemplate: "ldims://docs/{documentId}/files",
+    name: "LDIMS文档文件列表",
+    description: "文档包含的文件及其类型、大小、解析状态和内容资源URI",
+    mimeType: "application/json",
+    pattern: /^ldims:\/\/docs\/([^/?]+)\/files$/
+  },
+  {
+    kind: "fileContent",
+    uriTemplate: "ldims://docs/{documentId}/files/{fileId}/content{?offset,length}",
+    name: "LDIMS文件提取内容",
+    description: "文档中单个文件的提取文本，内容较长时可通过 offset/length 分段读取",
+    mimeType: "text/plain",
+    pattern: /^ldims:\/\/docs\/([^/?]+)\/files\/([^/?]+)\/content$/
+  },
+  {
+    kind: "extractedContent",
+    uriTemplate: "ldims://docs/{documentId}/extracted_content{?offset,length}",
+    name: "LDIMS文档提取内容",
+    description: "文档所有文件的提取文本（按文件拼接），内容较长时可通过 offset/length 分段读取",
+    mimeType: "text/plain",
+    pattern: /^ldims:\/\/docs\/([^/?]+)\/extracted_content$/
+  }
+];
+
+/**
+ * 解码URI中的路径参数，格式错误时返回 undefined
+ */
+function decodeSegment(segment: string | undefined): string | undefined {
+  if (segment === undefined) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 将资源URI匹配到资源模板，不匹配任何模板时返回 undefined
+ */
+export function matchResourceUri(uri: string): MatchedResource | undefined {
+  const queryStart = uri.indexOf("?");
+  const path = queryStart === -1 ? uri : uri.slice(0, queryStart);
+  const query = new URLSearchParams(queryStart === -1 ? "" : uri.slice(queryStart + 1));
+
+  for (const template of RESOURCE_TEMPLATES) {
+    const match = template.pattern.exec(path);
+    if (!match) {
+      continue;
+    }
+    const documentId = decodeSegment(match[1]);
+    const fileId = decodeSegment(match[2]);
+    if (!documentId || (match[2] !== undefined && !fileId)) {
+      return undefined;
+    }
+    return { kind: template.kind, documentId, ...(fileId && { fileId }), query };
+  }
+  return undefined;
+}
+
+/**
+ * 构建文档提取内容资源的URI
+ */
+export function buildExtractedContentUri(documentId: string): string {
+  return `ldims://docs/${encodeURIComponent(documentId)}/extracted_content`;
+}
+
+/**
+ * 构建文件提取内容资源的URI
+ */
+export function buildFileContentUri(documentId: string, fileId: string): string {
+  return `ldims://docs/${encodeURIComponent(documentId)}/files/${encodeURIComponent(fileId)}/content`;
+}
@@ -0,0 +1,93 @@
+/**
+ * 搜索分页游标模块
+ *
+ * 将LDIMS的 page/pageSize 以及当前页内已返回的位置编码为不透明游标，
+ * 并通过查询指纹保证游标只能用于生成它的同一查询
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * 游标携带的分页状态
+ */
+export interface SearchCursorState {
+  /** LDIMS 页码（从1开始） */
+  page: number;
+  /** LDIMS 每页条数 */
+  pageSize: number;
+  /** 当前页内已返回的结果数 */
+  offset: number;
+  /** 查询指纹 */
+  fingerprint: string;
+  /** 零命中回退后实际检索的查询变体（指纹仍按原始查询计算） */
+  query?: string;
+}
+
+/**
+ * 游标无效（格式错误或与当前查询不匹配）
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * 计算查询指纹：查询文本和过滤条件相同的请求才能共用游标
+ */
+export function fingerprintQuery(query: string, filters: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify([query.trim(), filters ?? null]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * 编码游标
+ */
+export function encodeSearchCursor(state: SearchCursorState): string {
+  const payload = [state.page, state.pageSize, state.offset, state.fingerprint, ...(state.query ? [state.query] : [])];
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+/**
+ * 解码并校验游标
+ */
+export function decodeSearchCursor(cursor: string, fingerprint: string): SearchCursorState {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError("分页游标格式无效");
+  }
+
+  if (!Array.isArray(payload) || payload.length < 4 || payload.length > 5) {
+    throw new InvalidCursorError("分页游标格式无效");
+  }
+
+  const [page, pageSize, offset, cursorFingerprint, query] = payload as unknown[];
+  if (
+    !isNonNegativeInteger(page) ||
+    page < 1 ||
+    !isNonNegativeInteger(pageSize) ||
+    pageSize < 1 ||
+    !isNonNegativeInteger(offset) ||
+    typeof cursorFingerprint !== "string" ||
+    (query !== undefined && (typeof query !== "string" || !query.trim()))
+  ) {
+    throw new InvalidCursorError("分页游标格式无效");
+  }
+
+  if (cursorFingerprint !== fingerprint) {
+    throw new InvalidCursorError(
+      "分页游标与当前查询不匹配，请使用相同的 query、filters、排序、maxResults 和 collapseDuplicates"
+    );
+  }
+
+  return { page, pageSize, offset, fingerprint, ...(typeof query === "string" && { query }) };
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
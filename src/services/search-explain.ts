@@ -0,0 +1,179 @@
+/**
+ * 搜索结果说明模块
+ *
+ * 为 explain 模式生成每个结果的匹配与评分说明：检索词在标题、备注和各文件中的命中次数，
+ * 过滤条件的生效位置及文档对应字段值，以及各评分维度对综合得分的贡献
+ */
+
+import type {
+  AppliedBoost,
+  ExplainedFilter,
+  ExplainedScoreComponent,
+  ExplainedTermHit,
+  RelevanceWeights,
+  SearchExplanation
+} from "../types/mcp.js";
+import type { FilterName } from "./search-filters.js";
+import type { RelevanceScore } from "./relevance-scorer.js";
+import type { SnippetSource } from "./snippet-extractor.js";
+
+/**
+ * 待说明的检索词
+ */
+export interface ExplainTerm {
+  term: string;
+  source: ExplainedTermHit["source"];
+}
+
+/**
+ * 生成说明所需的文档字段
+ */
+export interface ExplainableDocument {
+  docName?: string | null | undefined;
+  remarks?: string | null | undefined;
+  createdAt?: string | null | undefined;
+  submitter?: string | null | undefined;
+  docTypeName?: string | null | undefined;
+  departmentName?: string | null | undefined;
+  sourceDepartmentName?: string | null | undefined;
+}
+
+/**
+ * 生效的过滤条件
+ */
+export interface ActiveFilters {
+  values: Partial<Record<FilterName, string>>;
+  upstream: FilterName[];
+  local: FilterName[];
+  phrases: string[];
+  excluded: string[];
+}
+
+/**
+ * 说明生成选项
+ */
+export interface ExplainOptions {
+  rank: number;
+  document: ExplainableDocument;
+  files: SnippetSource[];
+  terms: ExplainTerm[];
+  relevance: RelevanceScore;
+  weights: RelevanceWeights;
+  filters: ActiveFilters;
+  /** 生效的提升规则 */
+  boosts?: AppliedBoost[];
+  /** 应用提升规则后的最终得分（默认等于评分） */
+  finalScore?: number;
+}
+
+/** 过滤条件比较的文档字段 */
+const FILTER_DOCUMENT_FIELDS: Record<FilterName, (document: ExplainableDocument) => string | null | undefined> = {
+  dateFrom: document => document.createdAt,
+  dateTo: document => document.createdAt,
+  documentType: document => document.docTypeName,
+  submitter: document => document.submitter,
+  departmentName: document => document.sourceDepartmentName ?? document.departmentName
+};
+
+/**
+ * 统计检索词出现次数（大小写不敏感，不重叠）
+ */
+function countOccurrences(text: string, term: string): number {
+  const needle = term.toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+  const haystack = text.toLowerCase();
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * 合并检索词：按出现顺序去重（大小写不敏感），保留首次出现的来源
+ */
+export function mergeExplainTerms(groups: Array<[ExplainTerm["source"], string[]]>): ExplainTerm[] {
+  const seen = new Set<string>();
+  const terms: ExplainTerm[] = [];
+  for (const [source, values] of groups) {
+    for (const term of values) {
+      const normalized = term.toLowerCase();
+      if (term && !seen.has(normalized)) {
+        seen.add(normalized);
+        terms.push({ term, source });
+      }
+    }
+  }
+  return terms;
+}
+
+/**
+ * 生成单个结果的说明
+ */
+export function explainResult(options: ExplainOptions): SearchExplanation {
+  const { document, files, relevance, weights, filters } = options;
+
+  const termHits: ExplainedTermHit[] = options.terms.map(({ term, source }) => {
+    const titleCount = countOccurrences(document.docName ?? "", term);
+    const remarksCount = countOccurrences(document.remarks ?? "", term);
+    const fileHits = files
+      .map(file => ({ fileId: file.fileId, fileName: file.fileName, count: countOccurrences(file.content, term) }))
+      .filter(file => file.count > 0);
+    return {
+      term,
+      source,
+      total: titleCount + remarksCount + fileHits.reduce((sum, file) => sum + file.count, 0),
+      titleCount,
+      remarksCount,
+      files: fileHits
+    };
+  });
+
+  const totalWeight = weights.termFrequency + weights.proximity + weights.title + weights.recency;
+  const component = (name: keyof RelevanceWeights): ExplainedScoreComponent => ({
+    score: relevance.components[name],
+    weight: weights[name],
+    contribution: totalWeight > 0 ? round((weights[name] * relevance.components[name]) / totalWeight) : 0
+  });
+
+  const explainedFilters: ExplainedFilter[] = [
+    ...[...filters.upstream, ...filters.local].map(name => {
+      const documentValue = FILTER_DOCUMENT_FIELDS[name](document);
+      return {
+        filter: name,
+        value: filters.values[name] ?? "",
+        appliedAt: filters.upstream.includes(name) ? ("upstream" as const) : ("local" as const),
+        ...(documentValue && { documentValue })
+      };
+    }),
+    ...(filters.phrases.length > 0
+      ? [{ filter: "phrases" as const, value: filters.phrases, appliedAt: "local" as const }]
+      : []),
+    ...(filters.excluded.length > 0
+      ? [{ filter: "excluded" as const, value: filters.excluded, appliedAt: "local" as const }]
+      : [])
+  ];
+
+  return {
+    rank: options.rank,
+    relevanceScore: options.finalScore ?? relevance.score,
+    baseScore: relevance.score,
+    scoreBreakdown: {
+      termFrequency: component("termFrequency"),
+      proximity: component("proximity"),
+      title: component("title"),
+      recency: component("recency")
+    },
+    boosts: options.boosts ?? [],
+    termHits,
+    filters: explainedFilters
+  };
+}
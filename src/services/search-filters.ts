@@ -0,0 +1,138 @@
+/**
+ * 搜索过滤模块
+ *
+ * 将 searchDocuments 的过滤条件拆分为转发给LDIMS的查询参数和本地后置过滤，
+ * 并记录每个过滤条件的实际生效位置
+ */
+
+import type { SearchDocumentsParams } from "../types/mcp.js";
+
+type SearchFilters = NonNullable<SearchDocumentsParams["filters"]>;
+
+/**
+ * 可参与过滤的过滤条件名称
+ */
+export type FilterName = "dateFrom" | "dateTo" | "documentType" | "submitter" | "departmentName";
+
+/**
+ * 本地过滤所需的文档字段
+ */
+export interface FilterableDocument {
+  createdAt?: string | null | undefined;
+  submitter?: string | null | undefined;
+  docTypeName?: string | null | undefined;
+  departmentName?: string | null | undefined;
+  sourceDepartmentName?: string | null | undefined;
+}
+
+/**
+ * 过滤执行计划
+ */
+export interface FilterPlan {
+  /** 需要追加到LDIMS搜索请求的查询参数 */
+  upstreamParams: Record<string, string>;
+  /** 已转发给LDIMS的过滤条件 */
+  upstream: FilterName[];
+  /** 在结果返回后本地执行的过滤条件 */
+  local: FilterName[];
+  /** 本地过滤谓词 */
+  matches: (document: FilterableDocument) => boolean;
+}
+
+/**
+ * LDIMS搜索接口已支持的过滤参数映射
+ */
+const UPSTREAM_FILTER_PARAMS: Partial<Record<FilterName, string>> = {
+  documentType: "docTypeName"
+};
+
+/** 仅包含日期部分的输入（如 2024-12-31） */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 解析过滤日期；dateTo 为纯日期时取当天结束时刻
+ */
+export function parseFilterDate(value: string, boundary: "start" | "end"): number {
+  const trimmed = value.trim();
+  if (DATE_ONLY_PATTERN.test(trimmed)) {
+    const time = boundary === "start" ? "T00:00:00.000" : "T23:59:59.999";
+    return Date.parse(`${trimmed}${time}`);
+  }
+  return Date.parse(trimmed);
+}
+
+/**
+ * 规范化用于比较的文本
+ */
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * 根据过滤条件生成执行计划
+ */
+export function planFilters(filters: SearchFilters | undefined): FilterPlan {
+  const upstreamParams: Record<string, string> = {};
+  const upstream: FilterName[] = [];
+  const local: FilterName[] = [];
+  const predicates: Array<(document: FilterableDocument) => boolean> = [];
+
+  const active: Array<[FilterName, string]> = (
+    ["dateFrom", "dateTo", "documentType", "submitter", "departmentName"] as const
+  )
+    .map(name => [name, filters?.[name]?.trim() ?? ""] as [FilterName, string])
+    .filter(([, value]) => value.length > 0);
+
+  for (const [name, value] of active) {
+    const upstreamParam = UPSTREAM_FILTER_PARAMS[name];
+    if (upstreamParam) {
+      upstreamParams[upstreamParam] = value;
+      upstream.push(name);
+      continue;
+    }
+
+    local.push(name);
+    switch (name) {
+      case "dateFrom": {
+        const from = parseFilterDate(value, "start");
+        predicates.push(document => {
+          const createdAt = document.createdAt ? Date.parse(document.createdAt) : NaN;
+          return !Number.isNaN(createdAt) && createdAt >= from;
+        });
+        break;
+      }
+      case "dateTo": {
+        const to = parseFilterDate(value, "end");
+        predicates.push(document => {
+          const createdAt = document.createdAt ? Date.parse(document.createdAt) : NaN;
+          return !Number.isNaN(createdAt) && createdAt <= to;
+        });
+        break;
+      }
+      case "submitter": {
+        const submitter = normalize(value);
+        predicates.push(document => normalize(document.submitter ?? "").includes(submitter));
+        break;
+      }
+      case "departmentName": {
+        const departmentName = normalize(value);
+        predicates.push(document =>
+          normalize(document.sourceDepartmentName ?? document.departmentName ?? "").includes(departmentName)
+        );
+        break;
+      }
+      case "documentType": {
+        const documentType = normalize(value);
+        predicates.push(document => normalize(document.docTypeName ?? "") === documentType);
+        break;
+      }
+    }
+  }
+
+  return {
+    upstreamParams,
+    upstream,
+    local,
+    matches: document => predicates.every(predicate => predicate(document))
+  };
+}
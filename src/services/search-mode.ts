@@ -0,0 +1,162 @@
+/**
+ * 搜索模式模块
+ *
+ * semantic 模式：在发送给LDIMS前扩展查询（同义词、按词典拆分长关键词）；
+ * exact 模式：在返回结果中本地校验完整短语的字面命中，并记录命中位置
+ */
+
+import type { ExactMatch } from "../types/mcp.js";
+import { extractKeywords } from "./snippet-extractor.js";
+
+/**
+ * 查询扩展结果
+ */
+export interface QueryExpansion {
+  /** 发送给LDIMS的查询文本 */
+  searchText: string;
+  /** 原始关键词 + 拆分出的词 + 同义词（去重，保留顺序） */
+  terms: string[];
+  /** 原始关键词中拆分出的词 */
+  splitTerms: string[];
+  /** 新增的同义词 */
+  synonyms: string[];
+}
+
+/**
+ * 精确匹配所需的文档字段
+ */
+export interface PhraseMatchableDocument {
+  docName?: string | null | undefined;
+  remarks?: string | null | undefined;
+  files?:
+    | Array<{
+        id: string | number;
+        fileName: string;
+        extractedContent?: string | null | undefined;
+      }>
+    | undefined;
+}
+
+/** 扩展后的查询词上限，避免上游查询过长 */
+const MAX_EXPANDED_TERMS = 12;
+
+/**
+ * 内置同义词组（同组内互为同义词）
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ["合同", "协议", "契约"],
+  ["违约", "毁约"],
+  ["付款", "支付", "付费"],
+  ["费用", "开支", "支出"],
+  ["审批", "批准", "核准"],
+  ["员工", "职工", "雇员"],
+  ["公司", "企业"],
+  ["制度", "规定", "办法"],
+  ["通知", "公告", "通告"],
+  ["报告", "汇报"],
+  ["采购", "购买"],
+  ["终止", "解除"]
+];
+
+const SYNONYM_INDEX: Map<string, string[]> = new Map(
+  SYNONYM_GROUPS.flatMap(group => group.map(term => [term, group.filter(other => other !== term)] as const))
+);
+
+/**
+ * 按大小写不敏感去重追加
+ */
+function appendUnique(target: string[], seen: Set<string>, values: string[]): string[] {
+  const added: string[] = [];
+  for (const value of values) {
+    const normalized = value.toLowerCase();
+    if (!seen.has(normalized)) {
+      seen.add(normalized);
+      target.push(value);
+      added.push(value);
+    }
+  }
+  return added;
+}
+
+/**
+ * 默认拆分方式：提取关键词中包含的同义词词典词
+ */
+function splitBySynonymDictionary(keyword: string): string[] {
+  return Array.from(SYNONYM_INDEX.keys()).filter(term => keyword.includes(term));
+}
+
+/**
+ * semantic 模式查询扩展：拆分长关键词（默认按同义词词典，可传入分词器），并补充同义词
+ */
+export function expandQuery(
+  query: string,
+  splitKeyword: (keyword: string) => string[] = splitBySynonymDictionary
+): QueryExpansion {
+  const keywords = extractKeywords(query);
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  appendUnique(terms, seen, keywords);
+
+  const splitTerms = appendUnique(
+    terms,
+    seen,
+    keywords.flatMap(keyword => splitKeyword(keyword))
+  );
+
+  const synonyms = appendUnique(
+    terms,
+    seen,
+    [...terms].flatMap(term => SYNONYM_INDEX.get(term) ?? [])
+  );
+
+  const limited = terms.slice(0, Math.max(MAX_EXPANDED_TERMS, keywords.length));
+  return {
+    searchText: limited.join(" "),
+    terms: limited,
+    splitTerms: splitTerms.filter(term => limited.includes(term)),
+    synonyms: synonyms.filter(term => limited.includes(term))
+  };
+}
+
+/**
+ * 查找短语在文本中的全部字面命中位置（区分大小写）
+ */
+export function findPhrasePositions(text: string, phrase: string): number[] {
+  const positions: number[] = [];
+  if (!phrase) {
+    return positions;
+  }
+  let index = text.indexOf(phrase);
+  while (index !== -1) {
+    positions.push(index);
+    index = text.indexOf(phrase, index + phrase.length);
+  }
+  return positions;
+}
+
+/**
+ * exact 模式：在文档名称、备注和文件内容中查找完整短语
+ */
+export function matchExactPhrase(document: PhraseMatchableDocument, phrase: string): ExactMatch[] {
+  const matches: ExactMatch[] = [];
+
+  const namePositions = findPhrasePositions(document.docName ?? "", phrase);
+  if (namePositions.length > 0) {
+    matches.push({ field: "docName", positions: namePositions });
+  }
+
+  const remarkPositions = findPhrasePositions(document.remarks ?? "", phrase);
+  if (remarkPositions.length > 0) {
+    matches.push({ field: "remarks", positions: remarkPositions });
+  }
+
+  for (const file of document.files ?? []) {
+    // 与片段偏移保持一致：位置相对于去除首尾空白后的提取内容
+    const positions = findPhrasePositions(file.extractedContent?.trim() ?? "", phrase);
+    if (positions.length > 0) {
+      matches.push({ field: "file", fileId: String(file.id), fileName: file.fileName, positions });
+    }
+  }
+
+  return matches;
+}
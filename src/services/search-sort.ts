@@ -0,0 +1,97 @@
+/**
+ * 搜索结果排序模块
+ *
+ * 按相关度、创建日期、移交日期或文档名称排序。LDIMS支持的排序参数直接转发，
+ * 否则在获取的结果窗口内本地排序
+ */
+
+import type { SortField, SortOrder } from "../types/mcp.js";
+
+/**
+ * 排序所需的文档字段
+ */
+export interface SortableDocument {
+  docName?: string | null | undefined;
+  createdAt?: string | null | undefined;
+  handoverDate?: string | null | undefined;
+}
+
+/**
+ * 排序执行计划
+ */
+export interface SortPlan {
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  /** 需要追加到LDIMS搜索请求的查询参数 */
+  upstreamParams: Record<string, string>;
+  /** 排序生效位置：upstream 由LDIMS排序，local 在获取的结果窗口内排序 */
+  appliedAt: "upstream" | "local";
+}
+
+/**
+ * LDIMS已支持的排序参数映射（与文档列表接口的 sortBy 取值相同）；文档名称排序在本地执行，
+ * 相关度排序始终由本地评分决定
+ */
+const UPSTREAM_SORT_PARAMS: Partial<Record<Exclude<SortField, "relevance">, string>> = {
+  createdAt: "createdAt",
+  handoverDate: "handoverDate"
+};
+
+/**
+ * 未指定方向时的默认排序：日期最新在前，名称升序，相关度降序
+ */
+const DEFAULT_SORT_ORDER: Record<SortField, SortOrder> = {
+  relevance: "desc",
+  createdAt: "desc",
+  handoverDate: "desc",
+  documentName: "asc"
+};
+
+/**
+ * 根据排序参数生成执行计划
+ */
+export function planSort(sortBy: SortField = "relevance", sortOrder?: SortOrder): SortPlan {
+  const order = sortOrder ?? DEFAULT_SORT_ORDER[sortBy];
+  const upstreamParam = sortBy === "relevance" ? undefined : UPSTREAM_SORT_PARAMS[sortBy];
+
+  return {
+    sortBy,
+    sortOrder: order,
+    upstreamParams: upstreamParam ? { sortBy: upstreamParam, sortOrder: order } : {},
+    appliedAt: sortBy === "relevance" || !upstreamParam ? "local" : "upstream"
+  };
+}
+
+function parseDate(value: string | null | undefined): number {
+  return value ? Date.parse(value) : NaN;
+}
+
+/**
+ * 生成文档比较函数；缺少排序字段的文档无论方向始终排在最后，相同时返回 0 以保留原有（相关度）顺序
+ */
+export function compareBySortField(
+  sortBy: Exclude<SortField, "relevance">,
+  sortOrder: SortOrder
+): (a: SortableDocument, b: SortableDocument) => number {
+  const direction = sortOrder === "asc" ? 1 : -1;
+
+  if (sortBy === "documentName") {
+    return (a, b) => {
+      const left = a.docName?.trim() ?? "";
+      const right = b.docName?.trim() ?? "";
+      if (!left || !right) {
+        return Number(!left) - Number(!right);
+      }
+      return direction * left.localeCompare(right, "zh-CN");
+    };
+  }
+
+  return (a, b) => {
+    const left = parseDate(a[sortBy]);
+    const right = parseDate(b[sortBy]);
+    if (Number.isNaN(left) || Number.isNaN(right)) {
+      return Number(Number.isNaN(left)) - Number(Number.isNaN(right));
+    }
+    return direction * (left - right);
+  };
+}
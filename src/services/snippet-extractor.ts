@@ -0,0 +1,294 @@
+/**
+ * 片段抽取模块
+ *
+ * 实现 smart_extract 内容模式：定位查询关键词在文件内容中的位置，
+ * 生成对齐到句子边界的上下文片段，并按相关性评分排序。
+ * 算法说明见 docs/token消耗优化.md。
+ */
+
+import type { Snippet, SnippetScoringDetails } from "../types/mcp.js";
+
+/**
+ * 片段抽取选项
+ */
+export interface SnippetExtractionOptions {
+  /** 关键词前后各保留的字符数 */
+  contextChars: number;
+  /** 是否合并重叠或相邻的片段 */
+  mergeOverlapping: boolean;
+  /** 返回片段上限 */
+  maxSnippets: number;
+  /** 是否返回评分明细 */
+  includeScoringDetails: boolean;
+}
+
+/**
+ * 片段来源文件
+ */
+export interface SnippetSource {
+  fileId: string;
+  fileName: string;
+  content: string;
+}
+
+/**
+ * 关键词命中位置
+ */
+interface KeywordHit {
+  keyword: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 片段候选区间
+ */
+interface SnippetRange {
+  start: number;
+  end: number;
+  hits: KeywordHit[];
+}
+
+/** 间隔不超过该字符数的区间视为同一片段 */
+const MERGE_GAP = 50;
+
+/** 向外寻找句子边界的最大字符数 */
+const BOUNDARY_SEARCH_LIMIT = 100;
+
+/** 句子/段落边界字符 */
+const SENTENCE_BOUNDARIES = new Set(["。", "！", "？", "；", "!", "?", ";", ".", "\n"]);
+
+/** 查询中用于拆分关键词的分隔符 */
+const KEYWORD_SEPARATOR = /[\s,，、;；:：.。!！?？"'“”‘’()（）[\]【】<>《》]+/;
+
+/**
+ * 从查询文本中提取关键词（去重，保留原始顺序）
+ */
+export function extractKeywords(query: string): string[] {
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+
+  for (const part of query.split(KEYWORD_SEPARATOR)) {
+    const keyword = part.trim();
+    const normalized = keyword.toLowerCase();
+    if (keyword && !seen.has(normalized)) {
+      seen.add(normalized);
+      keywords.push(keyword);
+    }
+  }
+
+  return keywords;
+}
+
+/**
+ * 定位所有关键词在文本中的命中位置（大小写不敏感）
+ */
+function findKeywordHits(text: string, keywords: string[]): KeywordHit[] {
+  const lowerText = text.toLowerCase();
+  const hits: KeywordHit[] = [];
+
+  for (const keyword of keywords) {
+    const needle = keyword.toLowerCase();
+    let index = lowerText.indexOf(needle);
+    while (index !== -1) {
+      hits.push({ keyword, start: index, end: index + needle.length });
+      index = lowerText.indexOf(needle, index + needle.length);
+    }
+  }
+
+  return hits.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/**
+ * 将区间起点对齐到句子边界之后：优先向前延伸，找不到时向后收缩（不越过首个命中位置）
+ */
+function alignStart(text: string, start: number, firstHitStart: number): number {
+  const limit = Math.max(0, start - BOUNDARY_SEARCH_LIMIT);
+  for (let i = start - 1; i >= limit; i--) {
+    if (SENTENCE_BOUNDARIES.has(text[i]!)) {
+      return i + 1;
+    }
+  }
+  if (limit === 0) {
+    return 0;
+  }
+  for (let i = start; i < firstHitStart; i++) {
+    if (SENTENCE_BOUNDARIES.has(text[i]!)) {
+      return i + 1;
+    }
+  }
+  return start;
+}
+
+/**
+ * 将区间终点对齐到句子边界（含边界字符）：优先向后延伸，找不到时向前收缩（不越过末个命中位置）
+ */
+function alignEnd(text: string, end: number, lastHitEnd: number = end): number {
+  const limit = Math.min(text.length, end + BOUNDARY_SEARCH_LIMIT);
+  for (let i = end; i < limit; i++) {
+    if (SENTENCE_BOUNDARIES.has(text[i]!)) {
+      return i + 1;
+    }
+  }
+  if (limit === text.length) {
+    return text.length;
+  }
+  for (let i = end - 1; i >= lastHitEnd; i--) {
+    if (SENTENCE_BOUNDARIES.has(text[i]!)) {
+      return i + 1;
+    }
+  }
+  return end;
+}
+
+/**
+ * 合并重叠或间隔不超过 MERGE_GAP 的区间
+ */
+function mergeRanges(ranges: SnippetRange[]): SnippetRange[] {
+  const merged: SnippetRange[] = [];
+
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + MERGE_GAP) {
+      last.end = Math.max(last.end, range.end);
+      last.hits.push(...range.hits);
+    } else {
+      merged.push({ ...range, hits: [...range.hits] });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 计算片段评分（关键词覆盖度 + 命中密度 + 位置轻度加成）
+ */
+function scoreRange(
+  range: SnippetRange,
+  keywordCount: number,
+  textLength: number,
+  contextChars: number
+): { score: number; details: SnippetScoringDetails } {
+  const uniqueKeywords = new Set(range.hits.map(hit => hit.keyword.toLowerCase())).size;
+  const firstHit = range.hits[0]!;
+  const span = Math.max(...range.hits.map(hit => hit.end)) - firstHit.start;
+  const percentInDoc = textLength > 0 ? range.start / textLength : 0;
+
+  const coverage = keywordCount > 0 ? uniqueKeywords / keywordCount : 0;
+  const density = Math.min(1, range.hits.length / (1 + span / contextChars));
+  const position = 1 - percentInDoc;
+
+  const score = 0.6 * coverage + 0.25 * density + 0.15 * position;
+
+  return {
+    score: Math.round(score * 10000) / 10000,
+    details: {
+      unique_keywords: uniqueKeywords,
+      total_keywords: range.hits.length,
+      span,
+      percent_in_doc: Math.round(percentInDoc * 10000) / 10000
+    }
+  };
+}
+
+/**
+ * 片段排序：评分降序 → 去重关键词数降序 → 起始位置升序
+ */
+export function compareSnippets(a: Snippet, b: Snippet): number {
+  return (
+    b.relevance_score - a.relevance_score ||
+    new Set(b.keywords_matched).size - new Set(a.keywords_matched).size ||
+    a.original_char_start - b.original_char_start
+  );
+}
+
+/**
+ * 从单个文件内容中抽取片段
+ */
+export function extractSnippetsFromSource(
+  source: SnippetSource,
+  keywords: string[],
+  options: SnippetExtractionOptions
+): Snippet[] {
+  const { content } = source;
+  if (!content || keywords.length === 0) {
+    return [];
+  }
+
+  const hits = findKeywordHits(content, keywords);
+  if (hits.length === 0) {
+    return [];
+  }
+
+  const initialRanges: SnippetRange[] = hits.map(hit => ({
+    start: alignStart(content, Math.max(0, hit.start - options.contextChars), hit.start),
+    end: alignEnd(content, Math.min(content.length, hit.end + options.contextChars), hit.end),
+    hits: [hit]
+  }));
+
+  const ranges = options.mergeOverlapping ? mergeRanges(initialRanges) : initialRanges;
+
+  const snippets = ranges.map(range => {
+    const { score, details } = scoreRange(range, keywords.length, content.length, options.contextChars);
+    const raw = content.slice(range.start, range.end);
+    const leadingWhitespace = raw.length - raw.trimStart().length;
+    const snippetContent = raw.trim();
+    const start = range.start + leadingWhitespace;
+
+    const snippet: Snippet = {
+      content: snippetContent,
+      file_id: source.fileId,
+      file_name: source.fileName,
+      keywords_matched: Array.from(new Set(range.hits.map(hit => hit.keyword))),
+      original_char_start: start,
+      original_char_end: start + snippetContent.length,
+      relevance_score: score
+    };
+
+    if (options.includeScoringDetails) {
+      snippet.scoring_details = details;
+    }
+
+    return snippet;
+  });
+
+  return snippets.sort(compareSnippets).slice(0, options.maxSnippets);
+}
+
+/**
+ * 从多个文件中抽取片段，并按统一排序规则截取前 maxSnippets 个
+ */
+export function extractSnippets(
+  sources: SnippetSource[],
+  keywords: string[],
+  options: SnippetExtractionOptions
+): Snippet[] {
+  return sources
+    .flatMap(source => extractSnippetsFromSource(source, keywords, options))
+    .sort(compareSnippets)
+    .slice(0, options.maxSnippets);
+}
+
+/**
+ * 生成不依赖关键词的开头预览（未命中关键词时用于 matchedContext）
+ */
+export function buildLeadingPreview(text: string, maxChars: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) {
+    return trimmed;
+  }
+  const end = alignEnd(trimmed, maxChars);
+  return `${trimmed.slice(0, end).trim()}…`;
+}
+
+/**
+ * 将片段拼接为简短摘要，写入 matchedContext 以保持向后兼容
+ */
+export function summarizeSnippets(snippets: Snippet[]): string {
+  return snippets
+    .map(
+      snippet =>
+        `[${snippet.file_name} @${snippet.original_char_start}-${snippet.original_char_end}]\n${snippet.highlighted_content ?? snippet.content}`
+    )
+    .join("\n\n...\n\n");
+}
@@ -0,0 +1,150 @@
+/**
+ * 词项向量模块
+ *
+ * 由分词结果构建词频向量，选取特征词，并在候选文档集合上计算 TF-IDF 余弦相似度，
+ * 用于“查找相似文档”
+ */
+
+/**
+ * 词项 → 词频
+ */
+export type TermVector = Map<string, number>;
+
+/**
+ * 相似度计算结果
+ */
+export interface TermSimilarity {
+  /** 余弦相似度（0~1） */
+  similarity: number;
+  /** 对相似度贡献最大的共有词（按贡献降序） */
+  sharedTerms: string[];
+}
+
+/** 中日韩统一表意文字 */
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+/** 纯数字、标点或符号（含日期、编号中的分隔符） */
+const NON_WORD_PATTERN = /^[\d\p{P}\p{S}]+$/u;
+
+/**
+ * 公文和合同中的套话：几乎每份文档都会出现，不作为特征词，也不参与相似度计算
+ */
+const BOILERPLATE_TERMS = new Set([
+  "甲方",
+  "乙方",
+  "丙方",
+  "双方",
+  "各方",
+  "一方",
+  "对方",
+  "本合同",
+  "本协议",
+  "约定",
+  "规定",
+  "按照",
+  "根据",
+  "应当",
+  "承担",
+  "负责",
+  "进行",
+  "协商",
+  "解决",
+  "事宜",
+  "条款",
+  "如下",
+  "以上",
+  "以下",
+  "其中",
+  "包括",
+  "公司",
+  "有限公司"
+]);
+
+/** 特征词权重中词长的上限，避免超长未登录串占优 */
+const MAX_LENGTH_WEIGHT = 4;
+
+/** 返回的共有词数量上限 */
+const MAX_SHARED_TERMS = 5;
+
+/**
+ * 是否可作为特征词：至少两个字符，不是纯数字或标点，也不是套话
+ */
+function isIndexableTerm(term: string): boolean {
+  return term.length >= 2 && !NON_WORD_PATTERN.test(term) && !BOILERPLATE_TERMS.has(term);
+}
+
+/**
+ * 由分词结果构建词频向量（非汉字词统一小写）
+ */
+export function buildTermVector(words: string[]): TermVector {
+  const vector: TermVector = new Map();
+  for (const word of words) {
+    const term = CJK_PATTERN.test(word) ? word : word.toLowerCase();
+    if (isIndexableTerm(term)) {
+      vector.set(term, (vector.get(term) ?? 0) + 1);
+    }
+  }
+  return vector;
+}
+
+/**
+ * 选取特征词：按 (1 + ln 词频) × 词长 排序，词长越长越具有区分度
+ */
+export function selectDistinctiveTerms(vector: TermVector, count: number): string[] {
+  return Array.from(vector.entries())
+    .map(([term, frequency]) => ({
+      term,
+      weight: (1 + Math.log(frequency)) * Math.min(term.length, MAX_LENGTH_WEIGHT)
+    }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count)
+    .map(({ term }) => term);
+}
+
+/**
+ * 在文档集合上计算平滑 IDF：ln((N + 1) / (df + 1)) + 1
+ */
+export function computeIdf(vectors: TermVector[]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  for (const vector of vectors) {
+    for (const term of vector.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log((vectors.length + 1) / (frequency + 1)) + 1);
+  }
+  return idf;
+}
+
+/**
+ * TF-IDF 余弦相似度
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector, idf: Map<string, number>): TermSimilarity {
+  const weight = (vector: TermVector, term: string): number => (vector.get(term) ?? 0) * (idf.get(term) ?? 1);
+  const norm = (vector: TermVector): number =>
+    Math.sqrt(Array.from(vector.keys()).reduce((sum, term) => sum + weight(vector, term) ** 2, 0));
+
+  const normProduct = norm(a) * norm(b);
+  if (normProduct === 0) {
+    return { similarity: 0, sharedTerms: [] };
+  }
+
+  const contributions: Array<{ term: string; value: number }> = [];
+  for (const term of a.keys()) {
+    if (b.has(term)) {
+      contributions.push({ term, value: weight(a, term) * weight(b, term) });
+    }
+  }
+
+  const dot = contributions.reduce((sum, { value }) => sum + value, 0);
+  return {
+    similarity: Math.min(1, dot / normProduct),
+    sharedTerms: contributions
+      .sort((x, y) => y.value - x.value)
+      .slice(0, MAX_SHARED_TERMS)
+      .map(({ term }) => term)
+  };
+}
@@ -5,6 +5,23 @@
  */
 
 import { z } from "zod";
+import { isDateExpression, isValidTimeZone } from "../utils/date-expressions.js";
+
+/**
+ * 实际返回的内容范围
+ */
+export interface ContentRange {
+  /** 起始偏移（字符） */
+  offset: number;
+  /** 本段长度（字符） */
+  length: number;
+  /** 完整内容的总长度（字符） */
+  totalLength: number;
+  /** 是否还有后续内容 */
+  hasMore: boolean;
+  /** 下一段的起始偏移（仅在 hasMore 时返回） */
+  nextOffset?: number;
+}
 
 /**
  * LDIMS文档文件内容响应类型
@@ -14,8 +31,12 @@ export interface DocumentFileContentResponse {
   file_id: string;
   /** 文件内容 */
   content: string;
-  /** 内容格式 */
+  /** 内容格式：text 为提取的文本，base64 为LDIMS原始文件的二进制编码 */
   format: "text" | "base64";
+  /** 原始文件的MIME类型（仅 base64 格式返回） */
+  mime_type?: string;
+  /** 本次返回的内容范围（仅 text 格式返回） */
+  range?: ContentRange;
   /** 文件元数据（可选） */
   metadata?: {
     /** 文件名 */
@@ -94,6 +115,78 @@ export interface LdimsApiConfig {
   timeout: number;
   /** 重试次数 */
   retryCount: number;
+  /** 搜索结果处理配置（可选，未提供的字段使用默认值） */
+  search?: Partial<SearchConfig>;
+}
+
+/**
+ * 搜索内容返回模式
+ */
+export type ContentMode = "full" | "smart_extract";
+
+/**
+ * 搜索结果处理配置
+ */
+export interface SearchConfig {
+  /** 每个文档返回的片段上限（1~50） */
+  maxSnippets: number;
+  /** smart_extract 模式下是否将片段摘要拼接到 matchedContext */
+  returnSnippetSummary: boolean;
+  /** 请求未指定 content_mode 时使用的默认模式 */
+  defaultContentMode: ContentMode;
+  /** 相关性评分各维度权重 */
+  scoringWeights: RelevanceWeights;
+  /** 时效性评分的半衰期（天） */
+  recencyHalfLifeDays: number;
+  /** 关键词高亮标记 */
+  highlightMarkers: HighlightMarkers;
+  /** 用户分词词典文件路径 */
+  segmenterDictionaryPath?: string;
+  /** 批量搜索的并发上限 */
+  batchConcurrency: number;
+  /** 相关性提升规则文件路径（修改后自动重新加载） */
+  boostRulesPath?: string;
+  /** 解析相对日期表达（如 去年、上季度、last week）使用的 IANA 时区 */
+  timeZone: string;
+  /** 提交人、文档类型和部门目录文件路径，用于从查询中识别过滤条件 */
+  filterCatalogPath?: string;
+  /** 分段读取文件内容时未指定 length 使用的默认分段长度（字符） */
+  contentChunkSize: number;
+  /** resources/list 每页返回的文档数 */
+  resourceListSize: number;
+  /** resources/list 的文档排序字段，最新的文档在前 */
+  resourceListSortBy: ResourceListSortField;
+  /** 获取文档提取内容时并发请求文件内容的上限 */
+  fileFetchConcurrency: number;
+  /** 获取单个文档所有文件内容的总时限（毫秒），超时未获取的文件记为失败 */
+  documentFetchDeadlineMs: number;
+}
+
+/**
+ * resources/list 支持的文档排序字段
+ */
+export type ResourceListSortField = "createdAt" | "handoverDate";
+
+/**
+ * 关键词高亮标记（前后标记均为空时不高亮）
+ */
+export interface HighlightMarkers {
+  pre: string;
+  post: string;
+}
+
+/**
+ * 相关性评分权重（按权重和归一化，无需相加为1）
+ */
+export interface RelevanceWeights {
+  /** 词频 */
+  termFrequency: number;
+  /** 关键词邻近度 */
+  proximity: number;
+  /** 标题命中 */
+  title: number;
+  /** 时效性 */
+  recency: number;
 }
 
 /**
@@ -147,6 +240,9 @@ export interface McpServiceConfig {
 // Zod验证Schema
 // =============================================================================
 
+/** 分段读取单次允许的最大字符数 */
+export const MAX_CONTENT_CHUNK_SIZE = 200000;
+
 /**
  * 获取单个文档文件的提取内容。
  *
@@ -161,6 +257,8 @@ export interface McpServiceConfig {
  *   const { results } = await mcp.searchDocuments({ query: "合同" });
  *   const fileId = results[0].fileDetails[0].fileId;
  *   const file = await mcp.get_document_file_content({ file_id: fileId });
+ *
+ * 内容较长时按 offset/length 分段读取，直到 range.hasMore 为 false。
  */
 export const GetDocumentFileContentSchema = z.object({
   file_id: z
@@ -172,14 +270,41 @@ export const GetDocumentFileContentSchema = z.object({
     .enum(["text", "base64"])
     .optional()
     .default("text")
-    .describe("返回内容的格式：text(文本) 或 base64(二进制编码)")
+    .describe("返回内容的格式：text(文本) 或 base64(二进制编码)"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe("分段读取的起始字符偏移，取自上一次响应的 range.nextOffset。仅对 text 格式生效"),
+  length: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CONTENT_CHUNK_SIZE)
+    .optional()
+    .describe(`本次读取的最大字符数（1~${MAX_CONTENT_CHUNK_SIZE}），默认由服务配置决定。仅对 text 格式生效`)
+});
+
+/**
+ * 资源URI查询参数中的分段读取范围，如 ?offset=20000&length=20000
+ */
+export const ContentRangeQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).optional().default(0),
+  length: z.coerce.number().int().min(1).max(MAX_CONTENT_CHUNK_SIZE).optional()
 });
 
 /**
  * 搜索文档工具的参数Schema
  */
 export const SearchDocumentsSchema = z.object({
-  query: z.string().min(1, "搜索查询不能为空").describe("自然语言或关键词搜索查询。请具体描述您要查找的信息内容。"),
+  query: z
+    .string()
+    .min(1, "搜索查询不能为空")
+    .describe(
+      "自然语言或关键词搜索查询。支持结构化语法：type:类型 submitter:提交人 after:/before:日期、“短语”必须出现、-词 或 NOT 词排除，例如 type:合同 “违约责任” -草稿"
+    ),
   maxResults: z
     .number()
     .int()
@@ -188,12 +313,45 @@ export const SearchDocumentsSchema = z.object({
     .optional()
     .default(5)
     .describe("返回结果的最大数量。如需更全面的结果可使用更大的数值。"),
+  maxOutputTokens: z
+    .number()
+    .int()
+    .min(200)
+    .max(100000)
+    .optional()
+    .describe(
+      "输出内容的 token 预算（估算值）。设置后排名靠前的文档获得更多内容，靠后的文档仅保留元数据和简短预览；不设置则不限制"
+    ),
+  cursor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "分页游标：传入上一次响应中的 nextCursor 获取下一页结果，需保持 query、filters、排序、maxResults 和 collapseDuplicates 不变"
+    ),
   filters: z
     .object({
-      dateFrom: z.string().optional().describe("文档创建/修改起始日期过滤（ISO格式）"),
-      dateTo: z.string().optional().describe("文档创建/修改结束日期过滤（ISO格式）"),
+      dateFrom: z
+        .string()
+        .refine(
+          value => isDateExpression(value) || !Number.isNaN(Date.parse(value)),
+          "起始日期格式无效，请使用ISO 8601格式或相对日期（如 去年、上季度、最近30天、last week）"
+        )
+        .optional()
+        .describe(
+          "文档创建/修改起始日期过滤（ISO格式，或 去年、上季度、2023年3月、最近30天、last week 等日期表达，取其起始时刻）"
+        ),
+      dateTo: z
+        .string()
+        .refine(
+          value => isDateExpression(value) || !Number.isNaN(Date.parse(value)),
+          "结束日期格式无效，请使用ISO 8601格式或相对日期（如 去年、上季度、最近30天、last week）"
+        )
+        .optional()
+        .describe("文档创建/修改结束日期过滤（ISO格式，纯日期包含当天；日期表达取其结束时刻）"),
       documentType: z.string().optional().describe("按文档类型/格式过滤"),
       submitter: z.string().optional().describe("按文档提交人过滤"),
+      departmentName: z.string().optional().describe("按文档所属部门过滤"),
       searchMode: z
         .enum(["exact", "semantic"])
         .optional()
@@ -201,45 +359,598 @@ export const SearchDocumentsSchema = z.object({
         .describe("搜索模式：'exact'精确匹配，'semantic'语义匹配")
     })
     .optional()
-    .describe("搜索过滤条件")
+    .describe("搜索过滤条件"),
+  content_mode: z
+    .enum(["full", "smart_extract"])
+    .optional()
+    .describe("内容返回模式：'smart_extract'仅返回命中关键词的上下文片段，'full'返回完整内容。默认由服务配置决定"),
+  context_chars: z
+    .number()
+    .int()
+    .min(50)
+    .max(2000)
+    .optional()
+    .default(400)
+    .describe("smart_extract 模式下关键词前后各保留的字符数"),
+  merge_overlapping: z.boolean().optional().default(true).describe("是否合并重叠或相邻的片段"),
+  return_scoring_details: z.boolean().optional().default(false).describe("是否在片段中返回评分明细"),
+  highlight: z.boolean().optional().default(true).describe("是否用服务配置的标记高亮返回文本中命中的检索词"),
+  facets: z
+    .array(z.enum(["documentType", "departmentName", "submitter", "year"]))
+    .optional()
+    .describe("需要统计的分面：documentType(文档类型)、departmentName(部门)、submitter(提交人)、year(年份)"),
+  sortBy: z
+    .enum(["relevance", "createdAt", "handoverDate", "documentName"])
+    .optional()
+    .default("relevance")
+    .describe("排序字段：relevance(相关度)、createdAt(创建日期)、handoverDate(移交日期)、documentName(文档名称)"),
+  sortOrder: z
+    .enum(["asc", "desc"])
+    .optional()
+    .describe("排序方向：asc 升序、desc 降序。默认日期和相关度降序（最新在前），文档名称升序"),
+  collapseDuplicates: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("是否将内容近似重复的结果（草稿、扫描件、重复上传等）归并到排名最高的主结果下"),
+  diversity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "结果多样性（0~1）：大于0时按最大边际相关性重排，使靠前的结果覆盖更多部门、类型和内容；0 仅按相关度排序。仅在 sortBy=relevance 时生效"
+    ),
+  explain: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("是否为每个结果返回匹配与评分说明：检索词在各文件中的命中次数、生效的过滤条件和各评分维度的贡献"),
+  queryFallback: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe(
+      "LDIMS 对原始查询零命中时，是否依次使用繁简转换、拼音（如 zhangsan → 张三）和模糊匹配（近音字、错别字）的查询变体重试。仅对首页请求生效"
+    )
+});
+
+/** 批量搜索单次允许的最大查询数 */
+export const MAX_BATCH_QUERIES = 10;
+
+export const SearchDocumentsBatchSchema = z.object({
+  queries: z
+    .array(SearchDocumentsSchema)
+    .min(1, "至少需要一个查询")
+    .max(MAX_BATCH_QUERIES, `单次批量搜索最多 ${MAX_BATCH_QUERIES} 个查询`)
+    .describe("查询列表，每个查询的参数与 searchDocuments 相同（可分别设置 filters）")
+});
+
+/**
+ * 查找相似文档工具的参数Schema
+ */
+export const FindSimilarDocumentsSchema = z.object({
+  documentId: z.string().min(1, "文档ID不能为空").describe("作为参照的文档ID，可通过 searchDocuments 结果获取"),
+  maxResults: z.number().int().min(1).max(20).optional().default(5).describe("返回相似文档的最大数量"),
+  termCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .default(5)
+    .describe("从参照文档中选取、用于检索候选文档的特征词数量")
 });
 
+/**
+ * 获取文档大纲参数Schema
+ */
+export const GetDocumentOutlineSchema = z.object({
+  document_id: z.string().min(1, "文档ID不能为空").describe("文档ID，可通过 searchDocuments 结果获取")
+});
+
+/**
+ * 获取文档章节参数Schema（title 和 index 指定其一）
+ */
+export const GetDocumentSectionSchema = z
+  .object({
+    document_id: z.string().min(1, "文档ID不能为空").describe("文档ID，可通过 searchDocuments 结果获取"),
+    title: z
+      .string()
+      .trim()
+      .min(1, "章节标题不能为空")
+      .optional()
+      .describe("章节标题，如“第八条 违约责任”、“违约责任”或“第8条”，按完全相同、开头相同、包含的顺序匹配"),
+    index: z.number().int().min(0).optional().describe("章节在 get_document_outline 结果中的序号"),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .default(0)
+      .describe("章节内分段读取的起始字符偏移，取自上一次响应的 range.nextOffset"),
+    length: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CONTENT_CHUNK_SIZE)
+      .optional()
+      .describe(`本次读取的最大字符数（1~${MAX_CONTENT_CHUNK_SIZE}），默认由服务配置决定`)
+  })
+  .refine(params => (params.title === undefined) !== (params.index === undefined), {
+    message: "title 和 index 必须且只能指定一个"
+  });
+
+/**
+ * 可统计的分面
+ */
+export type FacetName = "documentType" | "departmentName" | "submitter" | "year";
+
+/**
+ * 可排序字段
+ */
+export type SortField = "relevance" | "createdAt" | "handoverDate" | "documentName";
+
+/**
+ * 排序方向
+ */
+export type SortOrder = "asc" | "desc";
+
+/**
+ * 分面取值及文档数量
+ */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * 片段评分明细
+ */
+export interface SnippetScoringDetails {
+  /** 片段中出现的不同关键词数量 */
+  unique_keywords: number;
+  /** 关键词出现总次数（含重复） */
+  total_keywords: number;
+  /** 片段内首末关键词的字符跨度 */
+  span: number;
+  /** 片段起始位置占文件内容总长的比例（0~1） */
+  percent_in_doc: number;
+}
+
+/**
+ * smart_extract 模式下返回的内容片段
+ */
+export interface Snippet {
+  /** 片段内容（边界已对齐到句子/段落），与 original_char_start/original_char_end 对应的原文一致 */
+  content: string;
+  /** 用高亮标记包裹命中检索词后的片段内容（仅在启用高亮时返回） */
+  highlighted_content?: string;
+  /** 来源文件ID */
+  file_id: string;
+  /** 来源文件名 */
+  file_name: string;
+  /** 片段命中的关键词 */
+  keywords_matched: string[];
+  /** 片段在文件提取内容中的起始偏移（含） */
+  original_char_start: number;
+  /** 片段在文件提取内容中的结束偏移（不含） */
+  original_char_end: number;
+  /** 片段相关性评分（0~1） */
+  relevance_score: number;
+  /** 评分明细（仅在 return_scoring_details=true 时返回） */
+  scoring_details?: SnippetScoringDetails;
+}
+
+/**
+ * exact 模式下的短语命中位置
+ */
+export interface ExactMatch {
+  /** 命中字段：文档名称、文档备注或文件内容 */
+  field: "docName" | "remarks" | "file";
+  fileId?: string;
+  fileName?: string;
+  /** 命中起始偏移（文件内容的偏移与片段 original_char_start 一致） */
+  positions: number[];
+}
+
+/**
+ * 检索词在文档中的命中情况
+ */
+export interface ExplainedTermHit {
+  term: string;
+  /** 检索词来源：query 查询分词，expansion 查询扩展（同义词/拆分），phrase 短语 */
+  source: "query" | "expansion" | "phrase";
+  /** 总命中次数 */
+  total: number;
+  titleCount: number;
+  remarksCount: number;
+  /** 命中该检索词的文件（对应 metadata.fileDetails） */
+  files: Array<{ fileId: string; fileName: string; count: number }>;
+}
+
+/**
+ * 过滤条件对该文档的生效情况
+ */
+export interface ExplainedFilter {
+  filter: "dateFrom" | "dateTo" | "documentType" | "submitter" | "departmentName" | "phrases" | "excluded";
+  value: string | string[];
+  /** 生效位置：upstream 由LDIMS执行，local 本地执行 */
+  appliedAt: "upstream" | "local";
+  /** 文档中与过滤条件比较的字段值 */
+  documentValue?: string;
+}
+
+/**
+ * 评分维度的贡献
+ */
+export interface ExplainedScoreComponent {
+  /** 维度得分（0~1） */
+  score: number;
+  /** 配置的权重 */
+  weight: number;
+  /** 对综合得分的贡献：权重归一化后 × 维度得分 */
+  contribution: number;
+}
+
+/**
+ * 生效的相关性提升规则
+ */
+export interface AppliedBoost {
+  /** 规则名称（未命名时由字段和条件生成） */
+  rule: string;
+  /** 得分乘数：大于1提升，小于1压低 */
+  factor: number;
+}
+
+/**
+ * 查询变体类型
+ */
+export type QueryVariantKind = "script" | "pinyin" | "fuzzy";
+
+/**
+ * 查询中被替换的内容
+ */
+export interface QueryReplacement {
+  from: string;
+  to: string;
+}
+
+/**
+ * 查询变体
+ */
+export interface QueryVariant {
+  kind: QueryVariantKind;
+  query: string;
+  replacements: QueryReplacement[];
+}
+
+/**
+ * 零命中回退时尝试过的查询变体
+ */
+export interface QueryFallbackAttempt {
+  kind: QueryVariantKind;
+  query: string;
+  resultsCount: number;
+}
+
+/**
+ * 单个结果的匹配与评分说明
+ */
+export interface SearchExplanation {
+  /** 在本次获取的结果窗口中的排名（从1开始） */
+  rank: number;
+  /** 应用提升规则后的最终得分 */
+  relevanceScore: number;
+  /** 提升规则应用前的评分 */
+  baseScore: number;
+  scoreBreakdown: Record<keyof RelevanceWeights, ExplainedScoreComponent>;
+  /** 生效的提升规则 */
+  boosts: AppliedBoost[];
+  termHits: ExplainedTermHit[];
+  filters: ExplainedFilter[];
+}
+
+/**
+ * 被归并的近似重复文档
+ */
+export interface DuplicateDocument {
+  documentId: string;
+  documentName: string;
+  /** 与主结果内容指纹的相似度（0~1） */
+  similarity: number;
+}
+
+/**
+ * 单个文档搜索结果
+ */
+export interface SearchDocumentResult {
+  documentId: string;
+  documentName: string;
+  /** 指向前端文档列表的 Markdown 链接 */
+  markdownDocumentName?: string;
+  relevanceScore: number;
+  matchedContext: string;
+  /** smart_extract 模式下按评分降序排列的内容片段 */
+  snippets?: Snippet[];
+  /** exact 模式下完整查询短语的字面命中位置 */
+  exactMatches?: ExactMatch[];
+  /** 内容因输出预算被截断或省略了部分片段 */
+  contentTruncated?: boolean;
+  /** 归并到该结果下的近似重复文档（仅在 collapseDuplicates=true 时返回） */
+  duplicates?: DuplicateDocument[];
+  /** 匹配与评分说明（仅在 explain=true 时返回） */
+  explanation?: SearchExplanation;
+  metadata: {
+    createdAt: string;
+    submitter: string;
+    documentType: string;
+    departmentName?: string;
+    handoverDate?: string;
+    // 增强元数据：文件详情信息，便于AI理解文档结构
+    fileCount?: number;
+    fileDetails?: Array<{ fileId: string; fileName: string; contentLength: number }>;
+    totalContentLength?: number;
+    hasMultipleFiles?: boolean;
+    /** 生效的相关性提升规则（仅在有规则命中时返回） */
+    appliedBoosts?: AppliedBoost[];
+  };
+}
+
+/**
+ * 可由目录识别的过滤条件
+ */
+export type CatalogFilterName = "submitter" | "documentType" | "departmentName";
+
+/**
+ * 识别出的过滤条件
+ */
+export interface ExtractedFilter {
+  filter: CatalogFilterName;
+  /** 目录中的取值 */
+  value: string;
+  /** 查询中被移除的原文（含助词） */
+  matched: string;
+}
+
+/**
+ * 已解析的日期表达
+ */
+export interface ResolvedDateExpression {
+  /** 原始日期表达 */
+  expression: string;
+  /** 来源：过滤条件或查询文本 */
+  source: "dateFrom" | "dateTo" | "query";
+  from: string;
+  to: string;
+}
+
 /**
  * 搜索文档响应接口
  */
 export interface SearchDocumentsResponse {
-  results: Array<{
-    documentId: string;
-    documentName: string;
-    relevanceScore: number;
-    matchedContext: string;
-    metadata: {
-      createdAt: string;
-      submitter: string;
-      documentType: string;
-      departmentName?: string;
-      handoverDate?: string;
-      // 增强元数据：文件详情信息，便于AI理解文档结构
-      fileCount?: number;
-      fileDetails?: Array<{ fileId: string; fileName: string; contentLength: number }>;
-      totalContentLength?: number;
-      hasMultipleFiles?: boolean;
-    };
-  }>;
+  results: SearchDocumentResult[];
   totalMatches: number;
+  /** 下一页游标，没有更多结果时不返回 */
+  nextCursor?: string;
   searchMetadata: {
     executionTime: string;
     searchMode: "exact" | "semantic";
     queryProcessed: string;
+    /** 过滤条件生效位置：upstream 由LDIMS执行，local 在结果返回后本地执行 */
+    filtersApplied?: {
+      upstream: string[];
+      local: string[];
+      /** 本地过滤排除的文档数量 */
+      excludedCount: number;
+    };
+    /** semantic 模式的查询扩展 */
+    queryExpansion?: {
+      terms: string[];
+      splitTerms: string[];
+      synonyms: string[];
+    };
+    /** exact 模式的本地短语校验 */
+    exactMatch?: {
+      phrase: string;
+      /** 未包含完整短语而被排除的文档数量 */
+      droppedCount: number;
+    };
+    /** 结构化查询解析结果（仅在 query 使用了结构化语法时返回） */
+    parsedQuery?: {
+      terms: string[];
+      phrases: string[];
+      excluded: string[];
+      qualifiers: Partial<Record<"documentType" | "submitter" | "dateFrom" | "dateTo", string>>;
+    };
+    /** 分词后用于本地评分的检索词 */
+    queryTerms?: string[];
+    /** 从查询中按目录识别并移除的过滤条件（仅在识别到时返回） */
+    extractedFilters?: ExtractedFilter[];
+    /** 自然语言日期解析结果（仅在 dateFrom/dateTo 或查询文本中使用了日期表达时返回） */
+    resolvedDates?: {
+      timeZone: string;
+      /** 实际生效的起止时间 */
+      dateFrom?: string;
+      dateTo?: string;
+      expressions: ResolvedDateExpression[];
+    };
+    /** 零命中回退（仅在LDIMS对原始查询零命中并尝试了查询变体时返回），未返回 variant 表示所有变体均无结果 */
+    queryFallback?: {
+      originalQuery: string;
+      /** 产生本次结果的查询变体；后续分页须使用该变体的 query */
+      variant?: QueryVariant;
+      attempted: QueryFallbackAttempt[];
+    };
+    /** 归并为近似重复的文档数量（仅在 collapseDuplicates=true 时返回） */
+    collapsedDuplicates?: number;
+    /** 结果多样化（仅在 diversity > 0 且按相关度排序时返回） */
+    diversification?: {
+      diversity: number;
+      /** 参与重排的结果数量（近似重复归并后） */
+      windowSize: number;
+      /** 位置发生变化的结果数量 */
+      reorderedCount: number;
+    };
+    /** 排序方式（仅在按相关度以外的字段排序时返回） */
+    sort?: {
+      sortBy: SortField;
+      sortOrder: SortOrder;
+      /** 排序生效位置：upstream 由LDIMS排序，local 在获取的结果窗口内排序 */
+      appliedAt: "upstream" | "local";
+      /** 本地排序时参与排序的文档数量 */
+      windowSize: number;
+      /** 本地排序且窗口外还有结果时为 true；nextCursor 只在窗口内翻页，到达窗口末尾后不再返回 */
+      windowLimited?: boolean;
+    };
+    /** 分面统计（仅在请求 facets 时返回），基于本次获取并通过本地过滤的结果窗口 */
+    facets?: {
+      /** 参与统计的文档数量 */
+      windowSize: number;
+      counts: Partial<Record<FacetName, FacetBucket[]>>;
+    };
     // 增强元数据：内容处理信息
     contentProcessing?: {
+      contentMode: ContentMode;
+      /** 实际使用的高亮标记（未高亮时不返回） */
+      highlightMarkers?: HighlightMarkers;
       fullContentReturned: boolean;
       contentNotTruncated: boolean;
       optimizedForAI: boolean;
+      /** 输出预算使用情况（仅在设置 maxOutputTokens 时返回） */
+      outputBudget?: {
+        maxOutputTokens: number;
+        /** 返回结果的估算 token 数 */
+        estimatedTokens: number;
+        /** 内容被截断的结果数量 */
+        truncatedResults: number;
+        /** 预算不足以容纳全部结果的元数据和预览 */
+        overBudget: boolean;
+      };
     };
   };
 }
 
+/**
+ * 相似文档
+ */
+export interface SimilarDocumentResult {
+  documentId: string;
+  documentName: string;
+  /** 与参照文档的 TF-IDF 余弦相似度（0~1） */
+  similarity: number;
+  /** 对相似度贡献最大的共有关键词 */
+  sharedTerms: string[];
+  metadata: Pick<
+    SearchDocumentResult["metadata"],
+    "createdAt" | "submitter" | "documentType" | "departmentName" | "fileCount"
+  >;
+}
+
+/**
+ * 查找相似文档响应接口
+ */
+export interface FindSimilarDocumentsResponse {
+  sourceDocument: {
+    documentId: string;
+    documentName: string;
+  };
+  /** 用于检索候选文档的特征词 */
+  queryTerms: string[];
+  results: SimilarDocumentResult[];
+  searchMetadata: {
+    executionTime: string;
+    /** 参与重排序的候选文档数量（已去重，不含参照文档） */
+    candidateCount: number;
+  };
+}
+
+/**
+ * 标题类型
+ */
+export type HeadingKind = "file" | "chapter" | "article" | "numbered" | "markdown" | "caps";
+
+/**
+ * 大纲中的标题
+ */
+export interface OutlineHeading {
+  /** 在大纲中的序号（从0开始） */
+  index: number;
+  title: string;
+  kind: HeadingKind;
+  /** 层级，数字越小级别越高 */
+  level: number;
+  /** 标题在提取内容中的起始偏移（字符） */
+  offset: number;
+  /** 章节的结束偏移（不含），即下一个同级或更高级标题的位置 */
+  endOffset: number;
+}
+
+/**
+ * 文档大纲响应接口
+ */
+export interface DocumentOutlineResponse {
+  documentId: string;
+  documentName: string;
+  /** 提取内容的总长度（字符），标题偏移均相对于提取内容 */
+  totalLength: number;
+  headings: OutlineHeading[];
+}
+
+/**
+ * 文档章节响应接口
+ */
+export interface DocumentSectionResponse {
+  documentId: string;
+  documentName: string;
+  heading: OutlineHeading;
+  text: string;
+  /** 本次返回的章节内容范围（偏移相对于章节起始） */
+  range: ContentRange;
+}
+
+/**
+ * 批量搜索中单个查询的结果
+ */
+export interface BatchQueryResult {
+  /** 查询在请求中的序号（从0开始） */
+  index: number;
+  query: string;
+  /** 查询成功时的搜索结果 */
+  response?: SearchDocumentsResponse;
+  /** 查询失败时的错误 */
+  error?: McpErrorResponse;
+}
+
+/**
+ * 批量搜索合并视图中的文档（按 documentId 去重）
+ */
+export interface BatchMergedDocument {
+  documentId: string;
+  documentName: string;
+  /** 各查询中的最高相关度 */
+  relevanceScore: number;
+  /** 命中该文档的查询序号 */
+  matchedQueries: number[];
+  metadata: SearchDocumentResult["metadata"];
+}
+
+/**
+ * 批量搜索响应接口
+ */
+export interface SearchDocumentsBatchResponse {
+  results: BatchQueryResult[];
+  merged: BatchMergedDocument[];
+  batchMetadata: {
+    executionTime: string;
+    queryCount: number;
+    succeeded: number;
+    failed: number;
+    /** 实际使用的并发上限 */
+    concurrency: number;
+  };
+}
+
 /**
  * 文档内容提取资源响应接口
  */
@@ -260,9 +971,87 @@ export interface DocumentExtractedContentResponse {
     submitter?: string;
     createdAt?: string;
     departmentName?: string;
+    /** 获取失败的文件（仅在有文件失败时返回） */
+    failedFiles?: FileFetchFailure[];
+    /** 本次返回的内容范围（仅在按范围读取时返回） */
+    range?: ContentRange;
   };
 }
 
+/**
+ * 获取文档提取内容时单个文件的失败信息
+ */
+export interface FileFetchFailure {
+  fileId: string;
+  fileName: string;
+  /** 失败原因：error 请求出错或LDIMS返回失败，empty 没有提取内容，deadline 超过文档内容获取时限 */
+  reason: "error" | "empty" | "deadline";
+  message: string;
+}
+
+/**
+ * 文档元数据资源响应接口
+ */
+export interface DocumentMetadataResponse {
+  documentId: string;
+  documentName: string;
+  documentType?: string;
+  submitter?: string;
+  departmentName?: string;
+  createdAt?: string;
+  handoverDate?: string;
+  remarks?: string;
+  fileCount: number;
+}
+
+/**
+ * 文档文件列表中的单个文件
+ */
+export interface DocumentFileSummary {
+  fileId: string;
+  fileName: string;
+  fileType?: string;
+  fileSize?: number;
+  processingStatus?: string;
+  /** 文件提取内容的资源URI */
+  uri: string;
+}
+
+/**
+ * 文档文件列表资源响应接口
+ */
+export interface DocumentFilesResponse {
+  documentId: string;
+  documentName: string;
+  files: DocumentFileSummary[];
+}
+
+/**
+ * 最近文档列表中的单个文档
+ */
+export interface RecentDocumentSummary {
+  documentId: string;
+  documentName: string;
+  documentType?: string;
+  submitter?: string;
+  departmentName?: string;
+  createdAt?: string;
+  handoverDate?: string;
+  /** 文档提取内容的资源URI */
+  uri: string;
+}
+
+/**
+ * 最近文档列表响应接口（resources/list）
+ */
+export interface RecentDocumentsResponse {
+  documents: RecentDocumentSummary[];
+  /** LDIMS中的文档总数 */
+  total: number;
+  /** 下一页游标（没有更多文档时不返回） */
+  nextCursor?: string;
+}
+
 /**
  * MCP资源请求接口
  */
@@ -495,6 +1284,8 @@ export class McpError extends Error {
 // 导出参数类型
 export type GetDocumentFileContentParams = z.infer<typeof GetDocumentFileContentSchema>;
 export type SearchDocumentsParams = z.infer<typeof SearchDocumentsSchema>;
+export type SearchDocumentsBatchParams = z.infer<typeof SearchDocumentsBatchSchema>;
+export type FindSimilarDocumentsParams = z.infer<typeof FindSimilarDocumentsSchema>;
 
 /**
  * 环境变量配置Schema
@@ -545,7 +1336,82 @@ export const EnvironmentConfigSchema = z.object({
     .string()
     .transform(Number)
     .refine(n => n >= 0, "最大重试次数不能为负数")
-    .optional()
+    .optional(),
+
+  // 搜索结果处理配置
+  LDIMS_SEARCH_MAX_SNIPPETS: z
+    .string()
+    .transform(Number)
+    .refine(n => Number.isInteger(n) && n >= 1 && n <= 50, "片段上限必须为1~50之间的整数")
+    .default("10"),
+  LDIMS_RETURN_SNIPPET_SUMMARY: z
+    .string()
+    .transform(val => val !== "false")
+    .default("true"),
+  LDIMS_DEFAULT_CONTENT_MODE: z.enum(["full", "smart_extract"]).default("smart_extract"),
+  LDIMS_SCORE_WEIGHT_TERM_FREQUENCY: z
+    .string()
+    .transform(Number)
+    .refine(n => n >= 0, "评分权重不能为负数")
+    .default("0.4"),
+  LDIMS_SCORE_WEIGHT_PROXIMITY: z
+    .string()
+    .transform(Number)
+    .refine(n => n >= 0, "评分权重不能为负数")
+    .default("0.2"),
+  LDIMS_SCORE_WEIGHT_TITLE: z
+    .string()
+    .transform(Number)
+    .refine(n => n >= 0, "评分权重不能为负数")
+    .default("0.25"),
+  LDIMS_SCORE_WEIGHT_RECENCY: z
+    .string()
+    .transform(Number)
+    .refine(n => n >= 0, "评分权重不能为负数")
+    .default("0.15"),
+  LDIMS_SCORE_RECENCY_HALF_LIFE_DAYS: z
+    .string()
+    .transform(Number)
+    .refine(n => n > 0, "时效性半衰期必须大于0")
+    .default("365"),
+  LDIMS_SEGMENTER_DICTIONARY_PATH: z.string().optional(),
+  LDIMS_HIGHLIGHT_PRE_TAG: z.string().default("**"),
+  LDIMS_HIGHLIGHT_POST_TAG: z.string().default("**"),
+  LDIMS_BATCH_CONCURRENCY: z
+    .string()
+    .transform(Number)
+    .refine(n => Number.isInteger(n) && n >= 1 && n <= 10, "批量搜索并发上限必须为1~10之间的整数")
+    .default("3"),
+  LDIMS_BOOST_RULES_PATH: z.string().optional(),
+  LDIMS_FILTER_CATALOG_PATH: z.string().optional(),
+  LDIMS_CONTENT_CHUNK_SIZE: z
+    .string()
+    .transform(Number)
+    .refine(
+      n => Number.isInteger(n) && n >= 1000 && n <= MAX_CONTENT_CHUNK_SIZE,
+      `默认分段长度必须为1000~${MAX_CONTENT_CHUNK_SIZE}之间的整数`
+    )
+    .default("20000"),
+  LDIMS_RESOURCE_LIST_SIZE: z
+    .string()
+    .transform(Number)
+    .refine(n => Number.isInteger(n) && n >= 1 && n <= 100, "资源列表每页文档数必须为1~100之间的整数")
+    .default("50"),
+  LDIMS_RESOURCE_LIST_SORT: z.enum(["createdAt", "handoverDate"]).default("createdAt"),
+  LDIMS_FILE_FETCH_CONCURRENCY: z
+    .string()
+    .transform(Number)
+    .refine(n => Number.isInteger(n) && n >= 1 && n <= 10, "文件内容并发获取上限必须为1~10之间的整数")
+    .default("4"),
+  LDIMS_DOCUMENT_FETCH_DEADLINE: z
+    .string()
+    .transform(Number)
+    .refine(n => Number.isInteger(n) && n >= 1000 && n <= 600000, "文档内容获取时限必须为1000~600000之间的整数（毫秒）")
+    .default("60000"),
+  LDIMS_TIMEZONE: z
+    .string()
+    .refine(isValidTimeZone, "时区无效，请使用IANA时区名称（如 Asia/Shanghai）")
+    .default("Asia/Shanghai")
 });
 
 export type EnvironmentConfig = z.infer<typeof EnvironmentConfigSchema>;
@@ -0,0 +1,30 @@
+/**
+ * 并发控制工具模块
+ *
+ * 以有限并发执行异步任务，结果顺序与输入顺序一致
+ */
+
+/**
+ * 以不超过 limit 的并发度对每个元素执行异步操作
+ *
+ * 任一操作抛出异常时整体拒绝；需要保留部分失败结果时应在 worker 内自行捕获
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const concurrency = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: concurrency }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index]!, index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,523 @@
+/**
+ * 自然语言日期解析模块
+ *
+ * 将中英文相对日期表达（如 今天、上周、上季度、去年、2023年3月、最近30天、last week、past 3 months）
+ * 按配置的时区转换为 ISO 8601 时间范围，供 dateFrom/dateTo 过滤条件使用
+ */
+
+import type { ResolvedDateExpression } from "../types/mcp.js";
+
+/**
+ * 解析后的时间范围（含时区偏移的 ISO 8601 字符串，结束时刻包含在范围内）
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * 解析选项
+ */
+export interface DateExpressionOptions {
+  /** IANA 时区名称，如 Asia/Shanghai */
+  timeZone: string;
+  /** 当前时刻（毫秒），默认 Date.now() */
+  now?: number;
+}
+
+/**
+ * 从检索词中提取的日期表达
+ */
+export interface ExtractedDateExpression {
+  /** 原文中的日期表达 */
+  expression: string;
+  range: DateRange;
+  /** 移除日期表达后的检索词 */
+  terms: string[];
+}
+
+/**
+ * 公历日期（月份从0开始）
+ */
+interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * 以公历日期表示的范围，end 不包含在范围内
+ */
+interface CivilRange {
+  start: CivilDate;
+  end: CivilDate;
+}
+
+/**
+ * 日期表达规则
+ */
+interface DateRule {
+  pattern: string;
+  resolve: (match: RegExpExecArray, today: CivilDate) => CivilRange | undefined;
+}
+
+type Unit = "day" | "week" | "month" | "quarter" | "year";
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9
+};
+
+const ENGLISH_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** 英文月份名称（全称或缩写） */
+const ENGLISH_MONTH_PATTERN =
+  "(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)";
+
+/** 数量：阿拉伯数字或一到九十九的中文数字 */
+const COUNT_PATTERN = "(\\d{1,4}|[一二两三四五六七八九十]{1,3})";
+
+/**
+ * 解析数量（支持“十二”“二十”“三十五”等中文数字）
+ */
+function parseCount(value: string): number {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const [tens, ones] = value.split("十");
+  if (ones === undefined) {
+    return CHINESE_DIGITS[value] ?? NaN;
+  }
+  return (tens ? (CHINESE_DIGITS[tens] ?? NaN) : 1) * 10 + (ones ? (CHINESE_DIGITS[ones] ?? NaN) : 0);
+}
+
+/**
+ * 规范化公历日期（处理月份、日期溢出）
+ */
+function civil(year: number, month: number, day: number): CivilDate {
+  const date = new Date(Date.UTC(year, month, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  return civil(date.year, date.month, date.day + days);
+}
+
+/**
+ * 日期所在单位（日、周、月、季度、年）的范围；offset 为相对该单位的偏移
+ */
+function unitRange(date: CivilDate, unit: Unit, offset = 0): CivilRange {
+  switch (unit) {
+    case "day":
+      return { start: addDays(date, offset), end: addDays(date, offset + 1) };
+    case "week": {
+      // 周一为一周的第一天
+      const weekday = (new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay() + 6) % 7;
+      const monday = addDays(date, offset * 7 - weekday);
+      return { start: monday, end: addDays(monday, 7) };
+    }
+    case "month":
+      return { start: civil(date.year, date.month + offset, 1), end: civil(date.year, date.month + offset + 1, 1) };
+    case "quarter": {
+      const quarterStart = date.month - (date.month % 3) + offset * 3;
+      return { start: civil(date.year, quarterStart, 1), end: civil(date.year, quarterStart + 3, 1) };
+    }
+    case "year":
+      return { start: civil(date.year + offset, 0, 1), end: civil(date.year + offset + 1, 0, 1) };
+  }
+}
+
+/**
+ * 截至今天（含）的最近 count 个单位
+ */
+function rollingRange(today: CivilDate, count: number, unit: Unit): CivilRange | undefined {
+  if (!Number.isInteger(count) || count < 1) {
+    return undefined;
+  }
+  const start =
+    unit === "day"
+      ? addDays(today, -count)
+      : unit === "week"
+        ? addDays(today, -count * 7)
+        : unit === "month"
+          ? civil(today.year, today.month - count, today.day)
+          : unit === "quarter"
+            ? civil(today.year, today.month - count * 3, today.day)
+            : civil(today.year - count, today.month, today.day);
+  return { start, end: addDays(today, 1) };
+}
+
+function monthRange(year: number, month: number): CivilRange | undefined {
+  return month >= 0 && month <= 11 ? unitRange(civil(year, month, 1), "month") : undefined;
+}
+
+function quarterRange(year: number, quarter: number): CivilRange {
+  return unitRange(civil(year, (quarter - 1) * 3, 1), "quarter");
+}
+
+function dayRange(year: number, month: number, day: number): CivilRange | undefined {
+  const date = civil(year, month, day);
+  return date.month === month && date.day === day ? unitRange(date, "day") : undefined;
+}
+
+const CHINESE_UNITS: Record<string, Unit> = {
+  天: "day",
+  日: "day",
+  周: "week",
+  星期: "week",
+  个星期: "week",
+  月: "month",
+  个月: "month",
+  季度: "quarter",
+  个季度: "quarter",
+  年: "year"
+};
+
+const ENGLISH_UNITS: Record<string, Unit> = {
+  day: "day",
+  week: "week",
+  month: "month",
+  quarter: "quarter",
+  year: "year"
+};
+
+const CHINESE_QUARTERS: Record<string, number> = { 一: 1, 二: 2, 三: 3, 四: 4, "1": 1, "2": 2, "3": 3, "4": 4 };
+
+/**
+ * 日期表达规则：同一位置同时命中多条规则时取最长的表达
+ */
+const DATE_RULES: DateRule[] = [
+  // 中文：绝对日期
+  {
+    pattern: "(\\d{4})年(\\d{1,2})月(\\d{1,2})[日号]",
+    resolve: (match, _today) => dayRange(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  },
+  {
+    pattern: "(\\d{4})年(\\d{1,2})月份?",
+    resolve: (match, _today) => monthRange(Number(match[1]), Number(match[2]) - 1)
+  },
+  {
+    pattern: "(\\d{4})年?(?:第([一二三四1-4])季度|[Qq]([1-4]))",
+    resolve: (match, _today) => quarterRange(Number(match[1]), CHINESE_QUARTERS[match[2] ?? match[3]!]!)
+  },
+  {
+    pattern: "(\\d{4})年(上|下)半年",
+    resolve: (match, _today) => {
+      const startMonth = match[2] === "上" ? 0 : 6;
+      return { start: civil(Number(match[1]), startMonth, 1), end: civil(Number(match[1]), startMonth + 6, 1) };
+    }
+  },
+  // “2023年度”多指文档主题而非创建时间，不视为日期表达
+  {
+    pattern: "(\\d{4})年(?!度)",
+    resolve: (match, _today) => unitRange(civil(Number(match[1]), 0, 1), "year")
+  },
+  // 中文：相对日期
+  { pattern: "今天|今日", resolve: (_match, today) => unitRange(today, "day") },
+  { pattern: "昨天|昨日", resolve: (_match, today) => unitRange(today, "day", -1) },
+  { pattern: "前天", resolve: (_match, today) => unitRange(today, "day", -2) },
+  { pattern: "本周|这周|本星期|这个?星期", resolve: (_match, today) => unitRange(today, "week") },
+  { pattern: "上周|上个?星期", resolve: (_match, today) => unitRange(today, "week", -1) },
+  { pattern: "本月|这个月", resolve: (_match, today) => unitRange(today, "month") },
+  { pattern: "上个?月", resolve: (_match, today) => unitRange(today, "month", -1) },
+  { pattern: "本季度|这个季度", resolve: (_match, today) => unitRange(today, "quarter") },
+  { pattern: "上一?个?季度", resolve: (_match, today) => unitRange(today, "quarter", -1) },
+  { pattern: "今年|本年(?!度)", resolve: (_match, today) => unitRange(today, "year") },
+  { pattern: "去年|上一年", resolve: (_match, today) => unitRange(today, "year", -1) },
+  { pattern: "前年", resolve: (_match, today) => unitRange(today, "year", -2) },
+  {
+    pattern: `(?:最近|近|过去)${COUNT_PATTERN}(个星期|个季度|个月|星期|季度|天|日|周|月|年)`,
+    resolve: (match, today) => rollingRange(today, parseCount(match[1]!), CHINESE_UNITS[match[2]!]!)
+  },
+  // 英文
+  { pattern: "\\btoday\\b", resolve: (_match, today) => unitRange(today, "day") },
+  { pattern: "\\byesterday\\b", resolve: (_match, today) => unitRange(today, "day", -1) },
+  {
+    pattern: "\\b(this|last|previous)\\s+(week|month|quarter|year)\\b",
+    resolve: (match, today) =>
+      unitRange(today, ENGLISH_UNITS[match[2]!.toLowerCase()]!, match[1]!.toLowerCase() === "this" ? 0 : -1)
+  },
+  {
+    pattern: "\\b(?:last|past)\\s+(\\d{1,4})\\s+(day|week|month|quarter|year)s?\\b",
+    resolve: (match, today) => rollingRange(today, Number(match[1]), ENGLISH_UNITS[match[2]!.toLowerCase()]!)
+  },
+  {
+    pattern: `\\b${ENGLISH_MONTH_PATTERN}\\.?\\s+(\\d{4})\\b`,
+    resolve: (match, _today) =>
+      monthRange(Number(match[2]), ENGLISH_MONTHS.indexOf(match[1]!.slice(0, 3).toLowerCase()))
+  },
+  {
+    pattern: "\\b(?:[Qq]([1-4])\\s+(\\d{4})|(\\d{4})\\s+[Qq]([1-4]))\\b",
+    resolve: (match, _today) => quarterRange(Number(match[2] ?? match[3]), Number(match[1] ?? match[4]))
+  }
+];
+
+/** 中文日期表达后可一并移除的助词 */
+const TRAILING_PARTICLE_PATTERN = /^(?:的|期间)/;
+
+/** 英文日期表达前可一并移除的介词 */
+const LEADING_PREPOSITION_PATTERN = /\b(?:in|from|during|of|since)\s+$/i;
+
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+
+/** 中文日期表达后可直接紧跟的检索词首字（如 去年采购合同） */
+const HAN_CHAR_PATTERN = /\p{Script=Han}/u;
+
+/** 紧跟在日期表达后会与其组成其他词语的字（如 2024年版、年底、上周五、今年上半年、去年以来），此时不视为独立成词 */
+const DATE_SUFFIX_PATTERN =
+  /^[版度底初中末份级代号前后内以来起至止间同上下半年月日天周季旬第零〇一二三四五六七八九十百两]/;
+
+/** 仅包含日期部分的 ISO 8601 输入（如 2024-12-31） */
+const ISO_DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * 是否为有效的 IANA 时区名称
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * 时刻在时区中的墙上时间（以 UTC 毫秒表示）
+ */
+function wallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return Date.UTC(
+    parts["year"]!,
+    parts["month"]! - 1,
+    parts["day"]!,
+    parts["hour"]!,
+    parts["minute"]!,
+    parts["second"]!,
+    ((instant % 1000) + 1000) % 1000
+  );
+}
+
+/**
+ * 时区在指定时刻相对 UTC 的偏移（毫秒）
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  return wallClock(instant, timeZone) - instant;
+}
+
+/**
+ * 公历日期在时区中的零点时刻（夏令时切换时以切换后的偏移为准）
+ */
+function startOfDay(date: CivilDate, timeZone: string): number {
+  const guess = Date.UTC(date.year, date.month, date.day);
+  const first = guess - zoneOffset(guess, timeZone);
+  return guess - zoneOffset(first, timeZone);
+}
+
+/**
+ * 格式化为带时区偏移的 ISO 8601 字符串，如 2024-01-01T00:00:00.000+08:00
+ */
+function formatInZone(instant: number, timeZone: string): string {
+  const offset = zoneOffset(instant, timeZone);
+  const local = new Date(instant + offset).toISOString().slice(0, -1);
+  const sign = offset < 0 ? "-" : "+";
+  const minutes = Math.round(Math.abs(offset) / 60000);
+  return `${local}${sign}${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function today(options: DateExpressionOptions): CivilDate {
+  const wall = new Date(wallClock(options.now ?? Date.now(), options.timeZone));
+  return { year: wall.getUTCFullYear(), month: wall.getUTCMonth(), day: wall.getUTCDate() };
+}
+
+function toDateRange(range: CivilRange, timeZone: string): DateRange {
+  return {
+    from: formatInZone(startOfDay(range.start, timeZone), timeZone),
+    to: formatInZone(startOfDay(range.end, timeZone) - 1, timeZone)
+  };
+}
+
+/**
+ * 日期表达是否独立成词：前面不紧邻文字，后面不紧邻文字、紧跟“的”等助词（如 去年的采购合同），
+ * 或中文日期表达后直接紧跟检索词（如 去年采购合同、最近30天采购合同，而非 2024年版标准）
+ */
+function isStandalone(text: string, index: number, length: number): boolean {
+  const expression = text.slice(index, index + length);
+  const after = text.slice(index + length);
+  const next = after[0] ?? "";
+  return (
+    !WORD_CHAR_PATTERN.test(text[index - 1] ?? "") &&
+    (!WORD_CHAR_PATTERN.test(next) ||
+      TRAILING_PARTICLE_PATTERN.test(after) ||
+      (HAN_CHAR_PATTERN.test(expression.slice(-1)) && HAN_CHAR_PATTERN.test(next) && !DATE_SUFFIX_PATTERN.test(after)))
+  );
+}
+
+/**
+ * 在文本中查找最早出现的日期表达（同一位置取最长的表达）；standalone 时只查找独立成词的表达
+ */
+function findDateExpression(
+  text: string,
+  todayDate: CivilDate,
+  standalone = false
+): { index: number; expression: string; range: CivilRange } | undefined {
+  let best: { index: number; expression: string; range: CivilRange } | undefined;
+  for (const rule of DATE_RULES) {
+    const pattern = new RegExp(rule.pattern, "gi");
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      const range = rule.resolve(match, todayDate);
+      if (
+        range &&
+        (!standalone || isStandalone(text, match.index, match[0].length)) &&
+        (!best || match.index < best.index || (match.index === best.index && match[0].length > best.expression.length))
+      ) {
+        best = { index: match.index, expression: match[0], range };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 是否为可识别的日期表达（整个取值为一个日期表达）
+ */
+export function isDateExpression(value: string): boolean {
+  const trimmed = value.trim();
+  const found = findDateExpression(trimmed, { year: 2000, month: 0, day: 1 });
+  return found !== undefined && found.index === 0 && found.expression.length === trimmed.length;
+}
+
+/**
+ * 解析日期表达为时间范围；取值不是完整的日期表达时返回 undefined
+ */
+export function resolveDateExpression(value: string, options: DateExpressionOptions): DateRange | undefined {
+  const trimmed = value.trim();
+  const found = findDateExpression(trimmed, today(options));
+  if (!found || found.index !== 0 || found.expression.length !== trimmed.length) {
+    return undefined;
+  }
+  return toDateRange(found.range, options.timeZone);
+}
+
+/**
+ * 从检索词中提取第一个独立成词的日期表达并移除（连同“的”等助词或 in/from 等介词）；
+ * 移除后没有剩余检索词时不提取，避免查询为空
+ */
+export function extractDateExpression(
+  terms: string[],
+  options: DateExpressionOptions
+): ExtractedDateExpression | undefined {
+  const text = terms.join(" ");
+  const found = findDateExpression(text, today(options), true);
+  if (!found) {
+    return undefined;
+  }
+
+  const before = text.slice(0, found.index).replace(LEADING_PREPOSITION_PATTERN, "");
+  const after = text.slice(found.index + found.expression.length).replace(TRAILING_PARTICLE_PATTERN, "");
+  const remaining = `${before} ${after}`.split(/\s+/).filter(Boolean);
+  if (remaining.length === 0) {
+    return undefined;
+  }
+
+  return { expression: found.expression, range: toDateRange(found.range, options.timeZone), terms: remaining };
+}
+
+/**
+ * 日期过滤条件解析结果
+ */
+export interface DateFilterResolution {
+  dateFrom?: string;
+  dateTo?: string;
+  /** 检索词（从中提取了日期表达时已移除该表达） */
+  terms: string[];
+  expressions: ResolvedDateExpression[];
+}
+
+/**
+ * 纯日期的 ISO 8601 输入按时区转换为当天的起止时刻；不是纯日期或日期无效时返回 undefined
+ */
+function resolveIsoDate(value: string, timeZone: string): DateRange | undefined {
+  const match = ISO_DATE_ONLY_PATTERN.exec(value.trim());
+  const range = match && dayRange(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return range ? toDateRange(range, timeZone) : undefined;
+}
+
+/**
+ * 解析日期过滤条件：dateFrom/dateTo 中的日期表达分别取其起始和结束时刻，纯日期（如 2024-12-31）按时区取当天起止；
+ * 起止未全部指定时，检索词中的第一个日期表达补全未指定的一侧并从检索词中移除
+ */
+export function resolveDateFilters(
+  filters: { dateFrom?: string | undefined; dateTo?: string | undefined },
+  terms: string[],
+  options: DateExpressionOptions & { extractFromTerms: boolean }
+): DateFilterResolution {
+  const expressions: ResolvedDateExpression[] = [];
+  const resolveBound = (source: "dateFrom" | "dateTo"): string | undefined => {
+    const value = filters[source];
+    const isoDate = value ? resolveIsoDate(value, options.timeZone) : undefined;
+    if (isoDate) {
+      return source === "dateFrom" ? isoDate.from : isoDate.to;
+    }
+    const range = value ? resolveDateExpression(value, options) : undefined;
+    if (!range) {
+      return value;
+    }
+    expressions.push({ expression: value!.trim(), source, ...range });
+    return source === "dateFrom" ? range.from : range.to;
+  };
+
+  let dateFrom = resolveBound("dateFrom");
+  let dateTo = resolveBound("dateTo");
+  let remainingTerms = terms;
+
+  const extracted =
+    options.extractFromTerms && (!dateFrom || !dateTo) ? extractDateExpression(terms, options) : undefined;
+  if (extracted) {
+    dateFrom ??= extracted.range.from;
+    dateTo ??= extracted.range.to;
+    remainingTerms = extracted.terms;
+    expressions.push({ expression: extracted.expression, source: "query", ...extracted.range });
+  }
+
+  return {
+    ...(dateFrom && { dateFrom }),
+    ...(dateTo && { dateTo }),
+    terms: remainingTerms,
+    expressions
+  };
+}
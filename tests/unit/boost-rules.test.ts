@@ -0,0 +1,102 @@
+/**
+ * 相关性提升规则模块单元测试
+ */
+
+import { describe, test, expect, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BoostRuleSet, applyBoostRules, parseBoostRules } from "../../src/services/boost-rules.js";
+
+const silentLogger = { info: () => undefined, warn: () => undefined };
+
+describe("相关性提升规则", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  test("应该按部门提升并按文档类型压低", () => {
+    const rules = parseBoostRules(
+      JSON.stringify({
+        rules: [
+          { type: "metadata", name: "法务部优先", field: "departmentName", equals: "法务部", factor: 1.2 },
+          { type: "metadata", field: "documentType", equals: ["草稿", "废止"], factor: 0.1 }
+        ]
+      })
+    );
+
+    expect(applyBoostRules(rules, { sourceDepartmentName: "法务部", docTypeName: "合同" }, now)).toEqual({
+      factor: 1.2,
+      applied: [{ rule: "法务部优先", factor: 1.2 }]
+    });
+    expect(applyBoostRules(rules, { departmentName: "财务部", docTypeName: "草稿" }, now)).toEqual({
+      factor: 0.1,
+      applied: [{ rule: "documentType=草稿|废止", factor: 0.1 }]
+    });
+    expect(applyBoostRules(rules, { departmentName: "财务部" }, now)).toEqual({ factor: 1, applied: [] });
+  });
+
+  test("contains 条件应该大小写不敏感", () => {
+    const rules = parseBoostRules(
+      JSON.stringify({ rules: [{ type: "metadata", field: "documentName", contains: "ISO", factor: 1.5 }] })
+    );
+
+    expect(applyBoostRules(rules, { docName: "iso9001 质量手册" }, now).factor).toBe(1.5);
+  });
+
+  test("时效衰减应该按半衰期计算且不低于下限", () => {
+    const rules = parseBoostRules(
+      JSON.stringify({ rules: [{ type: "recencyDecay", halfLifeDays: 730, minFactor: 0.2 }] })
+    );
+
+    expect(applyBoostRules(rules, { createdAt: "2024-01-02T00:00:00Z" }, now).factor).toBeCloseTo(0.5, 2);
+    expect(applyBoostRules(rules, { createdAt: "2010-01-01T00:00:00Z" }, now).factor).toBe(0.2);
+    expect(applyBoostRules(rules, {}, now)).toEqual({ factor: 1, applied: [] });
+  });
+
+  test("无效规则应该抛出错误", () => {
+    expect(() =>
+      parseBoostRules(JSON.stringify({ rules: [{ type: "metadata", field: "submitter", factor: 2 }] }))
+    ).toThrow();
+    expect(() => parseBoostRules(JSON.stringify({ rules: [{ type: "recencyDecay", halfLifeDays: 0 }] }))).toThrow();
+  });
+
+  describe("规则文件热加载", () => {
+    let rulesPath: string | undefined;
+
+    afterEach(() => {
+      if (rulesPath) {
+        fs.rmSync(rulesPath, { force: true });
+        rulesPath = undefined;
+      }
+    });
+
+    test("文件变更后应该重新加载，内容无效时保留上一次的规则", () => {
+      rulesPath = path.join(os.tmpdir(), `ldims-boost-rules-${process.pid}.json`);
+      const ruleSet = new BoostRuleSet(rulesPath, silentLogger);
+
+      expect(ruleSet.getRules()).toEqual([]);
+
+      fs.writeFileSync(
+        rulesPath,
+        JSON.stringify({ rules: [{ type: "metadata", field: "submitter", equals: "张三", factor: 2 }] })
+      );
+      expect(ruleSet.getRules()).toHaveLength(1);
+
+      fs.writeFileSync(
+        rulesPath,
+        JSON.stringify({
+          rules: [
+            { type: "metadata", field: "submitter", equals: "张三", factor: 2 },
+            { type: "recencyDecay", halfLifeDays: 365 }
+          ]
+        })
+      );
+      expect(ruleSet.getRules()).toHaveLength(2);
+
+      fs.writeFileSync(rulesPath, "{ invalid json");
+      expect(ruleSet.getRules()).toHaveLength(2);
+
+      fs.rmSync(rulesPath);
+      expect(ruleSet.getRules()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * 中文分词模块单元测试
+ */
+
+import { describe, test, expect, afterEach } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ChineseSegmenter, loadDictionaryFile } from "../../src/services/chinese-segmenter.js";
+
+describe("中文分词", () => {
+  const segmenter = new ChineseSegmenter();
+
+  test("应该按词典拆分中文查询", () => {
+    expect(segmenter.segment("设备采购合同审批流程")).toEqual(["设备", "采购", "合同", "审批", "流程"]);
+  });
+
+  test("应该合并未登录单字并去除停用词", () => {
+    expect(segmenter.segment("张三的报销申请")).toEqual(["张三", "报销", "申请"]);
+    expect(segmenter.segment("关于年度预算")).toEqual(["年度", "预算"]);
+  });
+
+  test("应该保留非中文片段并忽略标点", () => {
+    expect(segmenter.segment("ERP系统 HT-2024-001，")).toEqual(["ERP", "系统", "HT-2024-001"]);
+  });
+
+  test("用户词典应该优先切出较长的词", () => {
+    const custom = new ChineseSegmenter(["采购合同"]);
+    expect(custom.segment("设备采购合同")).toEqual(["设备", "采购合同"]);
+  });
+
+  test("segmentKeywords 应该去重，全部为停用词时保留原关键词", () => {
+    expect(segmenter.segmentKeywords(["合同审批", "合同", "Review", "的"])).toEqual(["合同", "审批", "Review", "的"]);
+  });
+
+  test("segmentTerms 应该在虚词处断开未登录片段，过长的片段切分为二元组", () => {
+    expect(segmenter.segmentTerms("乙方就光伏逆变器")).toEqual(["乙方", "光伏", "伏逆", "逆变", "变器"]);
+    expect(segmenter.segmentTerms("张三的报销申请")).toEqual(["张三", "报销", "申请"]);
+    expect(segmenter.segmentTerms("张三就光伏")).toEqual(["张三", "光伏"]);
+  });
+
+  describe("loadDictionaryFile", () => {
+    let dictionaryPath: string | undefined;
+
+    afterEach(() => {
+      if (dictionaryPath) {
+        fs.rmSync(dictionaryPath, { force: true });
+        dictionaryPath = undefined;
+      }
+    });
+
+    test("应该忽略注释、空行和词频列", () => {
+      dictionaryPath = path.join(os.tmpdir(), `ldims-dict-${process.pid}.txt`);
+      fs.writeFileSync(dictionaryPath, "# 用户词典\n固定资产折旧\n\n框架协议 10 n\n");
+
+      expect(loadDictionaryFile(dictionaryPath)).toEqual(["固定资产折旧", "框架协议"]);
+    });
+  });
+});
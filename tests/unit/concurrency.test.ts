@@ -0,0 +1,48 @@
+/**
+ * 并发控制工具单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { mapWithConcurrency } from "../../src/utils/concurrency.js";
+
+describe("mapWithConcurrency", () => {
+  test("结果顺序应该与输入顺序一致", async () => {
+    const delays = [30, 5, 15, 0];
+
+    const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:5", "2:15", "3:0"]);
+  });
+
+  test("同时执行的任务数不应超过并发上限", async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  test("空列表应该直接返回空数组", async () => {
+    await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+
+  test("任一任务失败时应该整体拒绝", async () => {
+    await expect(
+      mapWithConcurrency([1, 2], 2, async item => {
+        if (item === 2) {
+          throw new Error("失败");
+        }
+        return item;
+      })
+    ).rejects.toThrow("失败");
+  });
+});
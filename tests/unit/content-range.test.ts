@@ -0,0 +1,36 @@
+/**
+ * 内容分段读取模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { sliceContent } from "../../src/services/content-range.js";
+
+describe("内容分段读取", () => {
+  const text = "0123456789";
+
+  test("应该返回指定范围的内容和下一段偏移", () => {
+    expect(sliceContent(text, 0, 4)).toEqual({
+      text: "0123",
+      range: { offset: 0, length: 4, totalLength: 10, hasMore: true, nextOffset: 4 }
+    });
+    expect(sliceContent(text, 4, 6)).toEqual({
+      text: "456789",
+      range: { offset: 4, length: 6, totalLength: 10, hasMore: false }
+    });
+  });
+
+  test("偏移超出总长度时应该返回空内容", () => {
+    expect(sliceContent(text, 20, 5)).toEqual({
+      text: "",
+      range: { offset: 10, length: 0, totalLength: 10, hasMore: false }
+    });
+  });
+
+  test("分段边界不应拆开四字节字符", () => {
+    const emoji = "合同😀条款";
+    const first = sliceContent(emoji, 0, 3);
+    expect(first.text).toBe("合同");
+    expect(first.range.nextOffset).toBe(2);
+    expect(sliceContent(emoji, 2, 3).text).toBe("😀条");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * 自然语言日期解析模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  extractDateExpression,
+  isDateExpression,
+  isValidTimeZone,
+  resolveDateExpression,
+  resolveDateFilters
+} from "../../src/utils/date-expressions.js";
+
+describe("自然语言日期解析", () => {
+  // 2026-05-14（周四）10:00，北京时间
+  const options = { timeZone: "Asia/Shanghai", now: Date.parse("2026-05-14T02:00:00Z") };
+
+  test.each([
+    ["今天", "2026-05-14T00:00:00.000+08:00", "2026-05-14T23:59:59.999+08:00"],
+    ["昨天", "2026-05-13T00:00:00.000+08:00", "2026-05-13T23:59:59.999+08:00"],
+    ["上周", "2026-05-04T00:00:00.000+08:00", "2026-05-10T23:59:59.999+08:00"],
+    ["上个月", "2026-04-01T00:00:00.000+08:00", "2026-04-30T23:59:59.999+08:00"],
+    ["上季度", "2026-01-01T00:00:00.000+08:00", "2026-03-31T23:59:59.999+08:00"],
+    ["去年", "2025-01-01T00:00:00.000+08:00", "2025-12-31T23:59:59.999+08:00"],
+    ["2023年3月", "2023-03-01T00:00:00.000+08:00", "2023-03-31T23:59:59.999+08:00"],
+    ["2024年2月29日", "2024-02-29T00:00:00.000+08:00", "2024-02-29T23:59:59.999+08:00"],
+    ["2023年第四季度", "2023-10-01T00:00:00.000+08:00", "2023-12-31T23:59:59.999+08:00"],
+    ["2023年下半年", "2023-07-01T00:00:00.000+08:00", "2023-12-31T23:59:59.999+08:00"],
+    ["最近30天", "2026-04-14T00:00:00.000+08:00", "2026-05-14T23:59:59.999+08:00"],
+    ["近三个月", "2026-02-14T00:00:00.000+08:00", "2026-05-14T23:59:59.999+08:00"],
+    ["last week", "2026-05-04T00:00:00.000+08:00", "2026-05-10T23:59:59.999+08:00"],
+    ["Past 2 Years", "2024-05-14T00:00:00.000+08:00", "2026-05-14T23:59:59.999+08:00"],
+    ["March 2023", "2023-03-01T00:00:00.000+08:00", "2023-03-31T23:59:59.999+08:00"],
+    ["Q1 2024", "2024-01-01T00:00:00.000+08:00", "2024-03-31T23:59:59.999+08:00"]
+  ])("%s 应该解析为对应的时间范围", (expression, from, to) => {
+    expect(resolveDateExpression(expression, options)).toEqual({ from, to });
+  });
+
+  test("应该按配置的时区计算日期边界", () => {
+    expect(resolveDateExpression("今天", { timeZone: "America/New_York", now: options.now })).toEqual({
+      from: "2026-05-13T00:00:00.000-04:00",
+      to: "2026-05-13T23:59:59.999-04:00"
+    });
+    expect(isValidTimeZone("Asia/Shanghai")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+
+  test("不完整或无效的日期表达不应被识别", () => {
+    expect(isDateExpression("去年")).toBe(true);
+    expect(isDateExpression("去年的合同")).toBe(false);
+    expect(isDateExpression("2023年度")).toBe(false);
+    expect(isDateExpression("2023年2月30日")).toBe(false);
+    expect(resolveDateExpression("2024-01-01", options)).toBeUndefined();
+  });
+
+  test("应该从检索词中提取日期表达并移除", () => {
+    expect(extractDateExpression(["去年的采购合同"], options)).toEqual({
+      expression: "去年",
+      range: { from: "2025-01-01T00:00:00.000+08:00", to: "2025-12-31T23:59:59.999+08:00" },
+      terms: ["采购合同"]
+    });
+    expect(extractDateExpression(["contracts", "from", "last", "month"], options)?.terms).toEqual(["contracts"]);
+    expect(extractDateExpression(["去年"], options)).toBeUndefined();
+    expect(extractDateExpression(["2023年度报告"], options)).toBeUndefined();
+  });
+
+  test("中文日期表达后直接紧跟检索词时应该提取", () => {
+    expect(extractDateExpression(["去年采购合同"], options)).toEqual({
+      expression: "去年",
+      range: { from: "2025-01-01T00:00:00.000+08:00", to: "2025-12-31T23:59:59.999+08:00" },
+      terms: ["采购合同"]
+    });
+    expect(extractDateExpression(["最近30天采购合同"], options)).toMatchObject({
+      expression: "最近30天",
+      terms: ["采购合同"]
+    });
+    expect(extractDateExpression(["2023年3月会议纪要", "张三"], options)).toMatchObject({
+      expression: "2023年3月",
+      terms: ["会议纪要", "张三"]
+    });
+  });
+
+  test("只提取独立成词的日期表达", () => {
+    expect(extractDateExpression(["2024年版标准", "合同"], options)).toBeUndefined();
+    expect(extractDateExpression(["关于去年", "合同"], options)).toBeUndefined();
+    expect(extractDateExpression(["上周五", "会议纪要"], options)).toBeUndefined();
+    expect(extractDateExpression(["去年以来", "合同"], options)).toBeUndefined();
+    expect(extractDateExpression(["last", "weekend", "notes"], options)).toBeUndefined();
+    expect(extractDateExpression(["2024年版标准", "2023年", "合同"], options)).toMatchObject({
+      expression: "2023年",
+      terms: ["2024年版标准", "合同"]
+    });
+  });
+
+  test("过滤条件中的日期表达应该取起止时刻，查询中的日期表达只补全未指定的一侧", () => {
+    expect(
+      resolveDateFilters({ dateFrom: "2024-01-01" }, ["上季度", "会议纪要"], { ...options, extractFromTerms: true })
+    ).toEqual({
+      dateFrom: "2024-01-01T00:00:00.000+08:00",
+      dateTo: "2026-03-31T23:59:59.999+08:00",
+      terms: ["会议纪要"],
+      expressions: [
+        {
+          expression: "上季度",
+          source: "query",
+          from: "2026-01-01T00:00:00.000+08:00",
+          to: "2026-03-31T23:59:59.999+08:00"
+        }
+      ]
+    });
+
+    const resolution = resolveDateFilters({ dateFrom: "去年", dateTo: "去年" }, ["上周", "纪要"], {
+      ...options,
+      extractFromTerms: true
+    });
+    expect(resolution.dateFrom).toBe("2025-01-01T00:00:00.000+08:00");
+    expect(resolution.dateTo).toBe("2025-12-31T23:59:59.999+08:00");
+    expect(resolution.terms).toEqual(["上周", "纪要"]);
+    expect(resolution.expressions.map(expression => expression.source)).toEqual(["dateFrom", "dateTo"]);
+  });
+
+  test("纯日期的过滤条件应该按时区取当天起止时刻", () => {
+    expect(
+      resolveDateFilters({ dateFrom: "2024-01-01", dateTo: "2024-12-31" }, ["合同"], {
+        ...options,
+        extractFromTerms: true
+      })
+    ).toEqual({
+      dateFrom: "2024-01-01T00:00:00.000+08:00",
+      dateTo: "2024-12-31T23:59:59.999+08:00",
+      terms: ["合同"],
+      expressions: []
+    });
+    expect(
+      resolveDateFilters({ dateTo: "2024-07-01" }, [], { timeZone: "America/New_York", extractFromTerms: false }).dateTo
+    ).toBe("2024-07-01T23:59:59.999-04:00");
+    expect(resolveDateFilters({ dateFrom: "2024-02-30" }, [], { ...options, extractFromTerms: false }).dateFrom).toBe(
+      "2024-02-30"
+    );
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * 结果多样化模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { documentSimilarity, rerankByMmr } from "../../src/services/diversity.js";
+import { buildTermVector } from "../../src/services/term-vector.js";
+
+describe("结果多样化", () => {
+  const items = [
+    { id: "a1", relevance: 1, department: "法务部" },
+    { id: "a2", relevance: 0.95, department: "法务部" },
+    { id: "a3", relevance: 0.9, department: "法务部" },
+    { id: "b1", relevance: 0.8, department: "财务部" },
+    { id: "c1", relevance: 0.6, department: "行政部" }
+  ];
+  const options = {
+    relevanceOf: (item: (typeof items)[number]) => item.relevance,
+    similarityOf: (a: (typeof items)[number], b: (typeof items)[number]) => (a.department === b.department ? 1 : 0)
+  };
+
+  test("diversity 为 0 时应该保持原顺序", () => {
+    expect(rerankByMmr(items, { ...options, diversity: 0 }).map(item => item.id)).toEqual([
+      "a1",
+      "a2",
+      "a3",
+      "b1",
+      "c1"
+    ]);
+  });
+
+  test("应该把其他部门的结果提前", () => {
+    expect(rerankByMmr(items, { ...options, diversity: 0.5 }).map(item => item.id)).toEqual([
+      "a1",
+      "b1",
+      "c1",
+      "a2",
+      "a3"
+    ]);
+  });
+
+  test("较低的 diversity 只提前相关度接近的结果", () => {
+    expect(rerankByMmr(items, { ...options, diversity: 0.1 }).map(item => item.id)).toEqual([
+      "a1",
+      "a2",
+      "b1",
+      "a3",
+      "c1"
+    ]);
+    expect(rerankByMmr(items, { ...options, diversity: 0.2 }).map(item => item.id)).toEqual([
+      "a1",
+      "b1",
+      "a2",
+      "a3",
+      "c1"
+    ]);
+  });
+
+  test("文档相似度应该综合内容、部门和文档类型", () => {
+    const idf = new Map<string, number>();
+    const contract = buildTermVector(["采购", "合同", "付款"]);
+    const notice = buildTermVector(["会议", "通知"]);
+
+    expect(
+      documentSimilarity(
+        { vector: contract, departmentName: "法务部", documentType: "合同" },
+        { vector: contract, departmentName: "法务部 ", documentType: "合同" },
+        idf
+      )
+    ).toBeCloseTo(1, 5);
+    expect(
+      documentSimilarity(
+        { vector: contract, departmentName: "法务部", documentType: "合同" },
+        { vector: notice, departmentName: "法务部", documentType: "通知" },
+        idf
+      )
+    ).toBeCloseTo(0.25, 5);
+    expect(documentSimilarity({ vector: contract }, { vector: notice }, idf)).toBe(0);
+  });
+});
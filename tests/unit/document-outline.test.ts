@@ -0,0 +1,80 @@
+/**
+ * 文档大纲模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { extractOutline, findSection, parseChineseNumber } from "../../src/services/document-outline.js";
+
+describe("文档大纲", () => {
+  const text = [
+    "=== 文件 1: 采购合同.pdf ===",
+    "第一章 总则",
+    "第一条 定义",
+    "本合同所称设备是指附件所列设备。",
+    "第八条 乙方逾期交付的，每日按合同价款的千分之一支付违约金。",
+    "第二章 附则",
+    "  第十二条 争议解决：提交仲裁委员会仲裁。",
+    "",
+    "==================================================",
+    "",
+    "=== 文件 2: 技术规范.docx ===",
+    "## 技术要求",
+    "1.2 性能指标",
+    "1.2.1 吞吐量不低于每秒1000笔。",
+    "1.10 验收",
+    "TERMS AND CONDITIONS",
+    "2024.01.15 签署"
+  ].join("\n");
+  const outline = extractOutline(text);
+
+  test("应该识别各类标题并计算层级", () => {
+    expect(outline.map(heading => [heading.title, heading.kind, heading.level])).toEqual([
+      ["文件 1: 采购合同.pdf", "file", 1],
+      ["第一章 总则", "chapter", 3],
+      ["第一条 定义", "article", 5],
+      ["第八条", "article", 5],
+      ["第二章 附则", "chapter", 3],
+      ["第十二条 争议解决", "article", 5],
+      ["文件 2: 技术规范.docx", "file", 1],
+      ["技术要求", "markdown", 3],
+      ["1.2 性能指标", "numbered", 3],
+      ["1.2.1", "numbered", 4],
+      ["1.10 验收", "numbered", 3],
+      ["TERMS AND CONDITIONS", "caps", 2]
+    ]);
+    expect(outline.map(heading => heading.index)).toEqual(outline.map((_, index) => index));
+  });
+
+  test("偏移应该指向标题文本，章节延续到下一个同级或更高级标题", () => {
+    for (const heading of outline) {
+      expect(text.slice(heading.offset)).toMatch(/^(===|第|##|1\.|TERMS)/);
+    }
+    const [file1, chapter1, , , chapter2, article12, file2] = outline;
+    expect(file1!.endOffset).toBe(file2!.offset);
+    expect(chapter1!.endOffset).toBe(chapter2!.offset);
+    expect(text.slice(article12!.offset, article12!.endOffset)).toBe(
+      "第十二条 争议解决：提交仲裁委员会仲裁。\n\n==================================================\n\n"
+    );
+    expect(outline.at(-1)!.endOffset).toBe(text.length);
+  });
+
+  test("应该按序号或标题查找章节", () => {
+    expect(findSection(outline, { index: 4 })?.title).toBe("第二章 附则");
+    expect(findSection(outline, { index: 99 })).toBeUndefined();
+    expect(findSection(outline, { title: "第8条" })?.title).toBe("第八条");
+    expect(findSection(outline, { title: "争议 解决" })?.title).toBe("第十二条 争议解决");
+    expect(findSection(outline, { title: "terms and conditions" })?.kind).toBe("caps");
+    expect(findSection(outline, { title: "1.1" })).toBeUndefined();
+    expect(findSection(outline, { title: "1.10" })?.title).toBe("1.10 验收");
+    expect(findSection(outline, { title: "违约责任" })).toBeUndefined();
+  });
+
+  test("应该解析中文数字", () => {
+    expect(parseChineseNumber("八")).toBe(8);
+    expect(parseChineseNumber("十二")).toBe(12);
+    expect(parseChineseNumber("二十")).toBe(20);
+    expect(parseChineseNumber("一百零五")).toBe(105);
+    expect(parseChineseNumber("12")).toBe(12);
+    expect(parseChineseNumber("若干")).toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * 分面统计模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { computeFacets } from "../../src/services/facets.js";
+
+describe("分面统计", () => {
+  const documents = [
+    { docTypeName: "合同", sourceDepartmentName: "法务部", submitter: "张三", createdAt: "2024-03-01T08:00:00Z" },
+    { docTypeName: "合同", departmentName: "采购部", submitter: "李四", createdAt: "2023-12-31T08:00:00Z" },
+    { docTypeName: "通知", sourceDepartmentName: "法务部", submitter: "张三", handoverDate: "2024-01-05" },
+    { docTypeName: null, submitter: " " }
+  ];
+
+  test("应该按数量降序统计各分面取值", () => {
+    const facets = computeFacets(documents, ["documentType", "departmentName"]);
+
+    expect(facets.documentType).toEqual([
+      { value: "合同", count: 2 },
+      { value: "通知", count: 1 },
+      { value: "未知类型", count: 1 }
+    ]);
+    expect(facets.departmentName?.[0]).toEqual({ value: "法务部", count: 2 });
+    expect(facets).not.toHaveProperty("submitter");
+  });
+
+  test("年份应该取自创建日期，缺失时使用移交日期", () => {
+    expect(computeFacets(documents, ["year"]).year).toEqual([
+      { value: "2024", count: 2 },
+      { value: "2023", count: 1 },
+      { value: "未知", count: 1 }
+    ]);
+  });
+
+  test("空白提交人应该计入未知", () => {
+    expect(computeFacets(documents, ["submitter"]).submitter).toContainEqual({ value: "未知", count: 1 });
+  });
+});
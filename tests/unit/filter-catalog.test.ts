@@ -0,0 +1,80 @@
+/**
+ * 过滤条件目录模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { extractCatalogFilters, parseFilterCatalog } from "../../src/services/filter-catalog.js";
+
+describe("过滤条件目录", () => {
+  const catalog = parseFilterCatalog(
+    JSON.stringify({
+      submitters: ["张三", "李四", "Alice"],
+      documentTypes: ["合同", "会议纪要"],
+      departments: ["法务部", "集团法务部"]
+    })
+  );
+
+  test("应该识别提交人和文档类型并从查询中移除", () => {
+    expect(extractCatalogFilters(["张三提交的采购合同"], catalog)).toEqual({
+      filters: { submitter: "张三", documentType: "合同" },
+      extracted: [
+        { filter: "submitter", value: "张三", matched: "张三提交的" },
+        { filter: "documentType", value: "合同", matched: "合同" }
+      ],
+      terms: ["采购"]
+    });
+  });
+
+  test("应该优先识别最长的条目并移除前后助词", () => {
+    expect(extractCatalogFilters(["由集团法务部起草的", "保密协议"], catalog)).toEqual({
+      filters: { departmentName: "集团法务部" },
+      extracted: [{ filter: "departmentName", value: "集团法务部", matched: "由集团法务部起草的" }],
+      terms: ["保密协议"]
+    });
+  });
+
+  test("英文条目应该大小写不敏感", () => {
+    expect(extractCatalogFilters(["alice", "budget"], catalog).filters).toEqual({ submitter: "Alice" });
+  });
+
+  test("不在词边界上的片段不应识别为过滤条件", () => {
+    expect(extractCatalogFilters(["张三丰传记"], catalog)).toEqual({
+      filters: {},
+      extracted: [],
+      terms: ["张三丰传记"]
+    });
+    expect(extractCatalogFilters(["合同审批流程"], catalog)).toEqual({
+      filters: {},
+      extracted: [],
+      terms: ["合同审批流程"]
+    });
+    expect(extractCatalogFilters(["malice", "budget"], catalog).filters).toEqual({});
+    // 同一条目首次出现不在词边界上时继续查找后续出现
+    expect(extractCatalogFilters(["合同审批 采购合同"], catalog)).toMatchObject({
+      filters: { documentType: "合同" },
+      terms: ["合同审批", "采购"]
+    });
+  });
+
+  test("已指定的过滤条件不应再识别", () => {
+    expect(extractCatalogFilters(["张三的会议纪要", "预算"], catalog, ["submitter"])).toEqual({
+      filters: { documentType: "会议纪要" },
+      extracted: [{ filter: "documentType", value: "会议纪要", matched: "会议纪要" }],
+      terms: ["张三的", "预算"]
+    });
+  });
+
+  test("移除后查询为空时应该保留原文", () => {
+    expect(extractCatalogFilters(["合同"], catalog)).toEqual({ filters: {}, extracted: [], terms: ["合同"] });
+    expect(extractCatalogFilters(["张三的合同"], catalog)).toEqual({
+      filters: { submitter: "张三" },
+      extracted: [{ filter: "submitter", value: "张三", matched: "张三的" }],
+      terms: ["合同"]
+    });
+  });
+
+  test("无效的目录文件应该抛出错误", () => {
+    expect(() => parseFilterCatalog(JSON.stringify({ submitters: "张三" }))).toThrow();
+    expect(parseFilterCatalog("{}")).toEqual({ submitters: [], documentTypes: [], departments: [] });
+  });
+});
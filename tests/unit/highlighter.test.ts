@@ -0,0 +1,26 @@
+/**
+ * 关键词高亮模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { highlightTerms, isHighlightEnabled } from "../../src/services/highlighter.js";
+
+const markdown = { pre: "**", post: "**" };
+
+describe("关键词高亮", () => {
+  test("应该用配置的标记包裹命中词（大小写不敏感）", () => {
+    expect(highlightTerms("合同审批 Review review", ["合同", "review"], markdown)).toBe(
+      "**合同**审批 **Review** **review**"
+    );
+    expect(highlightTerms("合同审批", ["合同"], { pre: "【", post: "】" })).toBe("【合同】审批");
+  });
+
+  test("应该优先匹配较长的词并合并相邻命中", () => {
+    expect(highlightTerms("采购合同审批", ["合同", "采购合同", "审批"], markdown)).toBe("**采购合同审批**");
+  });
+
+  test("标记为空时不高亮", () => {
+    expect(isHighlightEnabled({ pre: "", post: "" })).toBe(false);
+    expect(highlightTerms("合同", ["合同"], { pre: "", post: "" })).toBe("合同");
+  });
+});
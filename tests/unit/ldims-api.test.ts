@@ -3,6 +3,9 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { LdimsApiService, LdimsApiError } from '../../src/services/ldims-api.js';
 import type { LdimsApiConfig } from '../../src/types/mcp.js';
 
@@ -117,6 +120,102 @@ describe('LDIMS API 服务', () => {
       await expect(apiService.getDocumentFileContent('nonexistent'))
         .rejects.toThrow(LdimsApiError);
     });
+
+    describe('include_metadata 和 format', () => {
+      const fileRecord = {
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({
+          success: true,
+          data: {
+            id: 7,
+            fileName: '合同扫描件.pdf',
+            extractedContent: '合同正文',
+            fileSize: 2048,
+            fileType: 'pdf',
+            createdAt: '2024-01-01T00:00:00Z'
+          }
+        })
+      } as unknown as Response;
+
+      test('include_metadata=true 时应该返回文件元数据', async () => {
+        mockFetch.mockResolvedValueOnce(fileRecord);
+
+        const result = await apiService.getDocumentFileContent('7', true);
+
+        expect(result.content).toBe('合同正文');
+        expect(result.metadata).toEqual({
+          filename: '合同扫描件.pdf',
+          size: 2048,
+          created_at: '2024-01-01T00:00:00Z',
+          mime_type: 'pdf'
+        });
+        expect(result.mime_type).toBeUndefined();
+      });
+
+      const binary = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]);
+      const download = (contentType: string) =>
+        ({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'content-type': contentType }),
+          arrayBuffer: jest.fn().mockResolvedValue(new Uint8Array(binary).buffer)
+        }) as unknown as Response;
+
+      test('base64 格式应该下载原始文件并确定MIME类型', async () => {
+        mockFetch.mockResolvedValueOnce(download('application/octet-stream')).mockResolvedValueOnce(fileRecord);
+
+        const result = await apiService.getDocumentFileContent('7', true, 'base64');
+
+        expect(String(mockFetch.mock.calls[0]![0])).toBe('http://localhost:3000/api/api/v1/documents/files/7/download');
+        expect(result).toMatchObject({ format: 'base64', found: true, mime_type: 'application/pdf' });
+        expect(Buffer.from(result.content, 'base64')).toEqual(binary);
+        expect(result.metadata).toMatchObject({ filename: '合同扫描件.pdf', size: 6, mime_type: 'application/pdf' });
+      });
+
+      test('base64 格式在响应头已给出MIME类型且不需要元数据时只请求下载', async () => {
+        mockFetch.mockResolvedValueOnce(download('application/pdf'));
+
+        const result = await apiService.getDocumentFileContent('7', false, 'base64');
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ format: 'base64', found: true, mime_type: 'application/pdf' });
+      });
+
+      test('文件记录获取失败时仍应该返回下载的原始文件', async () => {
+        mockFetch.mockResolvedValueOnce(download('application/pdf')).mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: jest.fn().mockResolvedValue({ success: false, error: { code: 'NOT_PARSED', message: '文件尚未解析' } })
+        } as unknown as Response);
+
+        const result = await apiService.getDocumentFileContent('7', true, 'base64');
+
+        expect(result).toMatchObject({ format: 'base64', found: true, mime_type: 'application/pdf' });
+        expect(Buffer.from(result.content, 'base64')).toEqual(binary);
+        expect(result.metadata).toMatchObject({ size: 6, mime_type: 'application/pdf' });
+      });
+
+      test('text 格式应该按 offset/length 分段返回内容', async () => {
+        mockFetch.mockResolvedValueOnce(fileRecord);
+
+        const result = await apiService.getDocumentFileContent('7', false, 'text', { offset: 1, length: 2 });
+
+        expect(result.content).toBe('同正');
+        expect(result.range).toEqual({ offset: 1, length: 2, totalLength: 4, hasMore: true, nextOffset: 3 });
+      });
+
+      test('原始文件不存在时应该返回友好提示', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' } as unknown as Response);
+
+        const result = await apiService.getDocumentFileContent('7', false, 'base64');
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        expect(result).toMatchObject({ format: 'base64', found: false, content: '' });
+        expect(result.message).toContain('原始文件');
+      });
+    });
   });
 
   describe('searchDocuments', () => {
@@ -172,46 +271,1771 @@ describe('LDIMS API 服务', () => {
     });
   });
 
-  describe('getDocumentExtractedContent', () => {
-    test('应该成功获取提取内容', async () => {
-      const mockResponseData = {
-        data: {
-          content: '这是提取的文档内容',
-          document_name: '测试文档.pdf',
-          extracted_at: '2024-01-01T00:00:00Z',
-          format: 'text/plain'
-        }
-      };
+  describe('searchDocuments 过滤条件', () => {
+    const mockSearchResponse = (list: unknown[], total = list.length) => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list, total } })
+      } as unknown as Response);
+    };
 
-      const mockResponse = {
+    test('应该将文档类型转发给LDIMS并在本地执行日期和提交人过滤', async () => {
+      mockSearchResponse([
+        { id: 1, docName: '采购合同A', createdAt: '2024-03-01T08:00:00Z', submitter: '张三' },
+        { id: 2, docName: '采购合同B', createdAt: '2023-12-31T08:00:00Z', submitter: '张三' },
+        { id: 3, docName: '采购合同C', createdAt: '2024-06-30T08:00:00Z', submitter: '李四' },
+        { id: 4, docName: '采购合同D', submitter: '张三' }
+      ]);
+
+      const result = await apiService.searchDocuments({
+        query: '采购合同',
+        filters: { documentType: '合同', dateFrom: '2024-01-01', dateTo: '2024-12-31', submitter: '张三' }
+      });
+
+      const requestedUrl = String(mockFetch.mock.calls[0]![0]);
+      expect(requestedUrl).toContain('docTypeName=');
+      expect(requestedUrl).not.toContain('submitter=');
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(r => r.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.filtersApplied).toEqual({
+          upstream: ['documentType'],
+          local: ['dateFrom', 'dateTo', 'submitter'],
+          excludedCount: 3
+        });
+      }
+    });
+
+    test('存在本地过滤时应该扩大请求窗口并截取到maxResults', async () => {
+      mockSearchResponse(
+        Array.from({ length: 8 }, (_, i) => ({ id: i + 1, docName: `文档${i + 1}`, createdAt: '2024-05-01T00:00:00Z' }))
+      );
+
+      const result = await apiService.searchDocuments({
+        query: '文档',
+        maxResults: 2,
+        filters: { dateFrom: '2024-01-01' }
+      });
+
+      expect(String(mockFetch.mock.calls[0]![0])).toContain('pageSize=8');
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('searchDocuments 相关性评分', () => {
+    test('应该按本地计算的相关性重新排序结果', async () => {
+      mockFetch.mockResolvedValue({
         ok: true,
-        json: jest.fn().mockResolvedValue(mockResponseData)
-      } as unknown as Response;
-      
-      mockFetch.mockResolvedValue(mockResponse);
-      
-      const result = await apiService.getDocumentExtractedContent('doc-123');
-      
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 2,
+            list: [
+              {
+                id: 1,
+                docName: '会议纪要',
+                files: [{ id: 11, fileName: 'a.txt', extractedContent: '本次会议讨论了预算安排。' }]
+              },
+              {
+                id: 2,
+                docName: '采购合同管理办法',
+                files: [{ id: 21, fileName: 'b.txt', extractedContent: '采购合同签订前需审批。采购合同应归档。' }]
+              }
+            ]
+          }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({ query: '采购合同' });
+
       expect('isError' in result).toBe(false);
       if (!('isError' in result)) {
-        expect(result.text).toBe('这是提取的文档内容');
-        expect(result.metadata.documentName).toBe('测试文档.pdf');
-        expect(result.uri).toBe('ldims://docs/doc-123/extracted_content');
+        expect(result.results.map(r => r.documentId)).toEqual(['2', '1']);
+        expect(result.results[0]!.relevanceScore).toBeGreaterThan(result.results[1]!.relevanceScore);
+        expect(result.results[0]!.relevanceScore).not.toBe(0.8);
       }
     });
+  });
 
-    test('应该处理内容提取错误', async () => {
-      mockFetch.mockRejectedValue(new Error('Extraction failed'));
-      
-      const result = await apiService.getDocumentExtractedContent('doc-123');
-      
-      expect('isError' in result).toBe(true);
-      if ('isError' in result) {
-        expect(result.errorCode).toBe('CONTENT_EXTRACTION_FAILED');
+  describe('searchDocuments 搜索模式', () => {
+    const mockList = (list: unknown[]) => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list, total: list.length } })
+      } as unknown as Response);
+    };
+
+    test('exact 模式应该排除未包含完整短语的文档并返回命中位置', async () => {
+      mockList([
+        { id: 1, docName: '合同A', files: [{ id: 11, fileName: 'a.txt', extractedContent: '合同编号 HT-2024-001 已签署' }] },
+        { id: 2, docName: '合同B', files: [{ id: 21, fileName: 'b.txt', extractedContent: '合同编号 HT-2024-002 已签署' }] }
+      ]);
+
+      const result = await apiService.searchDocuments({
+        query: 'HT-2024-001',
+        filters: { searchMode: 'exact' }
+      });
+
+      expect(String(mockFetch.mock.calls[0]![0])).toContain('searchText=HT-2024-001&');
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(r => r.documentId)).toEqual(['1']);
+        expect(result.results[0]!.exactMatches).toEqual([
+          { field: 'file', fileId: '11', fileName: 'a.txt', positions: [5] }
+        ]);
+        expect(result.searchMetadata.exactMatch).toEqual({ phrase: 'HT-2024-001', droppedCount: 1 });
+        expect(result.totalMatches).toBe(1);
+      }
+    });
+
+    test('semantic 模式应该发送扩展后的查询', async () => {
+      mockList([]);
+
+      const result = await apiService.searchDocuments({ query: '合同' });
+
+      const searchText = new URL(String(mockFetch.mock.calls[0]![0])).searchParams.get('searchText');
+      expect(searchText).toBe('合同 协议 契约');
+      if (!('isError' in result)) {
+        expect(result.searchMetadata.queryProcessed).toBe('合同 协议 契约');
+        expect(result.searchMetadata.queryExpansion?.synonyms).toEqual(['协议', '契约']);
+      }
+    });
+  });
+
+  describe('searchDocuments 结构化查询', () => {
+    test('应该将限定符转换为过滤条件并在本地校验短语和排除词', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 3,
+            list: [
+              { id: 1, docName: '采购合同', submitter: '张三', files: [{ id: 11, fileName: 'a.txt', extractedContent: '第五条 违约责任' }] },
+              { id: 2, docName: '采购合同（草稿）', submitter: '张三', files: [{ id: 21, fileName: 'b.txt', extractedContent: '违约责任' }] },
+              { id: 3, docName: '采购合同', submitter: '张三', files: [{ id: 31, fileName: 'c.txt', extractedContent: '付款方式' }] }
+            ]
+          }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({ query: 'type:合同 submitter:张三 "违约责任" -草稿' });
+
+      const url = new URL(String(mockFetch.mock.calls[0]![0]));
+      expect(url.searchParams.get('docTypeName')).toBe('合同');
+      expect(url.searchParams.get('searchText')).toBe('违约责任');
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(r => r.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.filtersApplied).toEqual({
+          upstream: ['documentType'],
+          local: ['submitter', 'phrases', 'excluded'],
+          excludedCount: 2
+        });
+        expect(result.searchMetadata.parsedQuery?.qualifiers).toEqual({ documentType: '合同', submitter: '张三' });
+      }
+    });
+
+    test('未使用查询语法时括号和未知限定符应该作为普通文本搜索', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list: [], total: 0 } })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({
+        query: '关于设备采购(第二批)的通知',
+        filters: { searchMode: 'exact' },
+        queryFallback: false
+      });
+
+      expect('isError' in result).toBe(false);
+      expect(new URL(String(mockFetch.mock.calls[0]![0])).searchParams.get('searchText')).toBe('关于设备采购(第二批)的通知');
+    });
+
+    test('exact 模式应该按原有词序匹配短语和自由词', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 1,
+            list: [{ id: 1, docName: '采购合同', files: [{ id: 11, fileName: 'a.txt', extractedContent: '违约责任 第八条 乙方' }] }]
+          }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({ query: '"违约责任" 第八条', filters: { searchMode: 'exact' } });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(r => r.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.exactMatch).toEqual({ phrase: '违约责任 第八条', droppedCount: 0 });
+      }
+    });
+
+    test('不支持的语法应该返回 INVALID_QUERY 且不请求LDIMS', async () => {
+      const result = await apiService.searchDocuments({ query: 'type:合同 dept:财务部 报销' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect('isError' in result && result.errorCode).toBe('INVALID_QUERY');
+    });
+  });
+
+  describe('searchDocuments 分词与高亮', () => {
+    const mockDocument = () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 1,
+            list: [
+              {
+                id: 1,
+                docName: '设备采购',
+                files: [{ id: 11, fileName: 'a.txt', extractedContent: '本流程适用于设备采购。合同须经审批。' }]
+              }
+            ]
+          }
+        })
+      } as unknown as Response);
+    };
+
+    test('应该对中文查询分词并高亮命中的检索词', async () => {
+      mockDocument();
+
+      const result = await apiService.searchDocuments({ query: '设备采购合同审批流程' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.searchMetadata.queryTerms).toEqual(['设备', '采购', '合同', '审批', '流程']);
+        const snippet = result.results[0]!.snippets![0]!;
+        expect(snippet.highlighted_content).toContain('**设备采购**');
+        expect(snippet.highlighted_content).toContain('**合同**须经**审批**');
+        expect(snippet.content).not.toContain('**');
+        expect('本流程适用于设备采购。合同须经审批。'.slice(snippet.original_char_start, snippet.original_char_end)).toBe(
+          snippet.content
+        );
+        expect(result.searchMetadata.contentProcessing?.highlightMarkers).toEqual({ pre: '**', post: '**' });
+      }
+    });
+
+    test('highlight=false 时应该返回原文', async () => {
+      mockDocument();
+
+      const result = await apiService.searchDocuments({ query: '设备采购', highlight: false });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results[0]!.snippets![0]!.content).not.toContain('**');
+        expect(result.results[0]!.snippets![0]).not.toHaveProperty('highlighted_content');
+        expect(result.searchMetadata.contentProcessing?.highlightMarkers).toBeUndefined();
+      }
+    });
+  });
+
+  describe('searchDocuments 分面统计', () => {
+    test('应该基于获取的结果窗口返回分面统计', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 30,
+            list: [
+              { id: 1, docName: '文档1', sourceDepartmentName: '法务部', createdAt: '2024-01-01T00:00:00Z' },
+              { id: 2, docName: '文档2', sourceDepartmentName: '法务部', createdAt: '2023-01-01T00:00:00Z' },
+              { id: 3, docName: '文档3', sourceDepartmentName: '采购部', createdAt: '2024-06-01T00:00:00Z' }
+            ]
+          }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({
+        query: '文档',
+        maxResults: 1,
+        facets: ['departmentName', 'year']
+      });
+
+      expect(String(mockFetch.mock.calls[0]![0])).toContain('pageSize=4');
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results).toHaveLength(1);
+        expect(result.searchMetadata.facets).toEqual({
+          windowSize: 3,
+          counts: {
+            departmentName: [
+              { value: '法务部', count: 2 },
+              { value: '采购部', count: 1 }
+            ],
+            year: [
+              { value: '2024', count: 2 },
+              { value: '2023', count: 1 }
+            ]
+          }
+        });
+      }
+    });
+  });
+
+  describe('searchDocuments 排序', () => {
+    test('按移交日期排序时应该转发给LDIMS且不扩大获取窗口', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 3,
+            list: [
+              { id: 2, docName: '合同', handoverDate: '2024-08-01' },
+              { id: 1, docName: '合同 合同 合同', handoverDate: '2023-05-01' },
+              { id: 3, docName: '合同' }
+            ]
+          }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({ query: '合同', maxResults: 3, sortBy: 'handoverDate' });
+
+      const searchParams = new URL(String(mockFetch.mock.calls[0]![0])).searchParams;
+      expect(searchParams.get('pageSize')).toBe('3');
+      expect(searchParams.get('sortBy')).toBe('handoverDate');
+      expect(searchParams.get('sortOrder')).toBe('desc');
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(item => item.documentId)).toEqual(['2', '1', '3']);
+        expect(result.searchMetadata.sort).toEqual({
+          sortBy: 'handoverDate',
+          sortOrder: 'desc',
+          appliedAt: 'upstream',
+          windowSize: 3
+        });
+      }
+    });
+
+    test('按文档名称排序时应该在扩大的窗口内本地排序', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 3,
+            list: [
+              { id: 1, docName: '采购合同' },
+              { id: 2, docName: '安装合同' },
+              { id: 3, docName: '' }
+            ]
+          }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({ query: '合同', maxResults: 3, sortBy: 'documentName' });
+
+      const searchParams = new URL(String(mockFetch.mock.calls[0]![0])).searchParams;
+      expect(searchParams.get('pageSize')).toBe('12');
+      expect(searchParams.has('sortBy')).toBe(false);
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(item => item.documentId)).toEqual(['2', '1', '3']);
+        expect(result.searchMetadata.sort).toEqual({
+          sortBy: 'documentName',
+          sortOrder: 'asc',
+          appliedAt: 'local',
+          windowSize: 3
+        });
+      }
+    });
+
+    test('本地排序时应该在窗口内翻页并在窗口末尾停止', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 30,
+            list: [1, 2, 3, 4].map(id => ({ id, docName: `合同${id}` }))
+          }
+        })
+      } as unknown as Response);
+      const params = { query: '合同', maxResults: 2, sortBy: 'documentName', sortOrder: 'desc' } as const;
+
+      const first = await apiService.searchDocuments(params);
+
+      expect('isError' in first).toBe(false);
+      if ('isError' in first) return;
+      expect(first.results.map(item => item.documentId)).toEqual(['4', '3']);
+      expect(first.nextCursor).toBeDefined();
+      expect(first.searchMetadata.sort).toMatchObject({ appliedAt: 'local', windowSize: 4, windowLimited: true });
+
+      const second = await apiService.searchDocuments({ ...params, cursor: first.nextCursor! });
+
+      expect(String(mockFetch.mock.calls[1]![0])).toContain('page=1');
+      expect('isError' in second).toBe(false);
+      if (!('isError' in second)) {
+        expect(second.results.map(item => item.documentId)).toEqual(['2', '1']);
+        expect(second.nextCursor).toBeUndefined();
+        expect(second.searchMetadata.sort).toMatchObject({ windowLimited: true });
+      }
+    });
+
+    test('按相关度排序时不应该返回排序元数据', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list: [{ id: 1, docName: '合同' }], total: 1 } })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocuments({ query: '合同' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.searchMetadata.sort).toBeUndefined();
+      }
+    });
+  });
+
+  describe('searchDocuments 自然语言日期', () => {
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-05-14T02:00:00Z'));
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 2,
+            list: [
+              { id: 1, docName: '采购合同A', createdAt: '2025-06-01T00:00:00Z', remarks: '采购合同' },
+              { id: 2, docName: '采购合同B', createdAt: '2026-02-01T00:00:00Z', remarks: '采购合同' }
+            ]
+          }
+        })
+      } as unknown as Response);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('查询中的日期表达应该转换为过滤条件并从查询文本中移除', async () => {
+      const result = await apiService.searchDocuments({ query: '去年的采购合同', collapseDuplicates: false });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(doc => doc.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.resolvedDates).toEqual({
+          timeZone: 'Asia/Shanghai',
+          dateFrom: '2025-01-01T00:00:00.000+08:00',
+          dateTo: '2025-12-31T23:59:59.999+08:00',
+          expressions: [
+            {
+              expression: '去年',
+              source: 'query',
+              from: '2025-01-01T00:00:00.000+08:00',
+              to: '2025-12-31T23:59:59.999+08:00'
+            }
+          ]
+        });
+        expect(decodeURIComponent(String(mockFetch.mock.calls[0]![0]))).not.toContain('去年');
+      }
+    });
+
+    test('过滤条件中的日期表达应该按配置的时区解析', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { timeZone: 'UTC' } });
+      const result = await service.searchDocuments({
+        query: '采购合同',
+        filters: { dateFrom: 'last year' },
+        collapseDuplicates: false
+      });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(doc => doc.documentId).sort()).toEqual(['1', '2']);
+        expect(result.searchMetadata.resolvedDates).toMatchObject({
+          timeZone: 'UTC',
+          dateFrom: '2025-01-01T00:00:00.000+00:00',
+          expressions: [{ expression: 'last year', source: 'dateFrom' }]
+        });
+      }
+    });
+
+    test('无法识别的日期应该返回参数错误', async () => {
+      const result = await apiService.searchDocuments({ query: '合同', filters: { dateFrom: '很久以前' } });
+
+      expect('isError' in result && result.isError).toBe(true);
+    });
+  });
+
+  describe('searchDocuments 过滤条件识别', () => {
+    let catalogPath: string;
+
+    beforeEach(() => {
+      catalogPath = path.join(os.tmpdir(), `ldims-api-filter-catalog-${process.pid}.json`);
+      fs.writeFileSync(
+        catalogPath,
+        JSON.stringify({ submitters: ['张三', '李四'], documentTypes: ['合同'], departments: ['法务部'] })
+      );
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 2,
+            list: [
+              { id: 1, docName: '采购合同', submitter: '张三', departmentName: '法务部', remarks: '设备采购' },
+              { id: 2, docName: '采购合同', submitter: '李四', departmentName: '财务部', remarks: '办公用品采购' }
+            ]
+          }
+        })
+      } as unknown as Response);
+    });
+
+    afterEach(() => {
+      fs.rmSync(catalogPath, { force: true });
+    });
+
+    test('查询中的已知提交人和文档类型应该转换为过滤条件', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { filterCatalogPath: catalogPath } });
+      const result = await service.searchDocuments({ query: '张三提交的采购合同' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(doc => doc.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.extractedFilters).toEqual([
+          { filter: 'submitter', value: '张三', matched: '张三提交的' },
+          { filter: 'documentType', value: '合同', matched: '合同' }
+        ]);
+        expect(result.searchMetadata.queryProcessed).not.toContain('张三');
+        expect(result.searchMetadata.filtersApplied).toMatchObject({ upstream: ['documentType'], local: ['submitter'] });
+        const requestedUrl = decodeURIComponent(String(mockFetch.mock.calls[0]![0]));
+        expect(requestedUrl).toContain('docTypeName=合同');
+        expect(requestedUrl).not.toContain('张三');
+      }
+    });
+
+    test('显式指定的过滤条件优先，未配置目录时不识别', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { filterCatalogPath: catalogPath } });
+      const explicit = await service.searchDocuments({ query: '张三 采购', filters: { submitter: '李四' } });
+      const withoutCatalog = await apiService.searchDocuments({ query: '张三提交的采购合同' });
+
+      expect('isError' in explicit).toBe(false);
+      expect('isError' in withoutCatalog).toBe(false);
+      if (!('isError' in explicit) && !('isError' in withoutCatalog)) {
+        expect(explicit.results.map(doc => doc.documentId)).toEqual(['2']);
+        expect(explicit.searchMetadata.extractedFilters).toBeUndefined();
+        expect(withoutCatalog.searchMetadata.extractedFilters).toBeUndefined();
+      }
+    });
+
+    test('应该按部门在本地过滤', async () => {
+      const result = await apiService.searchDocuments({
+        query: '采购',
+        filters: { departmentName: '法务' },
+        collapseDuplicates: false
+      });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(doc => doc.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.filtersApplied?.local).toEqual(['departmentName']);
       }
     });
   });
 
+  describe('searchDocuments 零命中回退', () => {
+    let catalogPath: string;
+
+    beforeEach(() => {
+      catalogPath = path.join(os.tmpdir(), `ldims-api-query-fallback-${process.pid}.json`);
+      fs.writeFileSync(catalogPath, JSON.stringify({ submitters: ['张三'] }));
+      // 仅当检索文本包含简体“采购”或“张三”时LDIMS返回结果
+      mockFetch.mockImplementation(async url => {
+        const searchText = new URL(String(url)).searchParams.get('searchText') ?? '';
+        const hit = searchText.includes('采购') || searchText.includes('张三');
+        return {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            code: 200,
+            message: 'ok',
+            data: {
+              total: hit ? 1 : 0,
+              list: hit ? [{ id: 1, docName: '采购合同', submitter: '张三', remarks: '设备采购' }] : []
+            }
+          })
+        } as unknown as Response;
+      });
+    });
+
+    afterEach(() => {
+      fs.rmSync(catalogPath, { force: true });
+    });
+
+    test('繁体查询零命中时应该使用简体变体重试', async () => {
+      const result = await apiService.searchDocuments({ query: '採購合同' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(doc => doc.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.queryFallback).toEqual({
+          originalQuery: '採購合同',
+          variant: { kind: 'script', query: '采购合同', replacements: [{ from: '採購', to: '采购' }] },
+          attempted: [{ kind: 'script', query: '采购合同', resultsCount: 1 }]
+        });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      }
+    });
+
+    test('回退到变体后应该可以按原始查询继续翻页', async () => {
+      mockFetch.mockImplementation(async url => {
+        const searchParams = new URL(String(url)).searchParams;
+        const hit = (searchParams.get('searchText') ?? '').includes('采购');
+        const ids = searchParams.get('page') === '2' ? [3, 4] : [1, 2];
+        return {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            code: 200,
+            message: 'ok',
+            data: { total: hit ? 4 : 0, list: hit ? ids.map(id => ({ id, docName: `采购合同${id}` })) : [] }
+          })
+        } as unknown as Response;
+      });
+
+      const first = await apiService.searchDocuments({ query: '採購合同', maxResults: 2 });
+      if ('isError' in first) throw new Error('unexpected error');
+      expect(first.searchMetadata.queryFallback?.variant?.query).toBe('采购合同');
+      expect(first.nextCursor).toBeDefined();
+
+      const second = await apiService.searchDocuments({ query: '採購合同', maxResults: 2, cursor: first.nextCursor! });
+
+      expect('isError' in second).toBe(false);
+      if (!('isError' in second)) {
+        const searchParams = new URL(String(mockFetch.mock.calls[2]![0])).searchParams;
+        expect(searchParams.get('searchText')).toContain('采购合同');
+        expect(searchParams.get('page')).toBe('2');
+        expect(second.results.map(doc => doc.documentId)).toEqual(['3', '4']);
+        expect(second.nextCursor).toBeUndefined();
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      }
+    });
+
+    test('拼音查询应该按目录中的提交人转换', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { filterCatalogPath: catalogPath } });
+      const result = await service.searchDocuments({ query: 'zhangsan' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(doc => doc.documentId)).toEqual(['1']);
+        expect(result.searchMetadata.queryFallback?.variant).toEqual({
+          kind: 'pinyin',
+          query: '张三',
+          replacements: [{ from: 'zhangsan', to: '张三' }]
+        });
+      }
+    });
+
+    test('所有变体均无结果时应该返回原始查询的结果和尝试记录', async () => {
+      const result = await apiService.searchDocuments({ query: '會議紀要' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results).toEqual([]);
+        expect(result.searchMetadata.queryFallback).toEqual({
+          originalQuery: '會議紀要',
+          attempted: [{ kind: 'script', query: '会议纪要', resultsCount: 0 }]
+        });
+      }
+    });
+
+    test('LDIMS有命中但全部被本地过滤排除时不应重试', async () => {
+      const result = await apiService.searchDocuments({ query: '采购 -设备' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results).toEqual([]);
+        expect(result.searchMetadata.filtersApplied?.excludedCount).toBe(1);
+        expect(result.searchMetadata.queryFallback).toBeUndefined();
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    test('关闭回退时不应重试', async () => {
+      const disabled = await apiService.searchDocuments({ query: '採購合同', queryFallback: false });
+
+      expect('isError' in disabled).toBe(false);
+      if (!('isError' in disabled)) {
+        expect(disabled.results).toEqual([]);
+        expect(disabled.searchMetadata.queryFallback).toBeUndefined();
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      }
+    });
+  });
+
+  describe('searchDocuments 匹配说明', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 1,
+            list: [
+              {
+                id: 1,
+                docName: '采购合同',
+                docTypeName: '合同',
+                createdAt: '2024-03-01T00:00:00Z',
+                files: [{ id: 11, fileName: 'a.txt', extractedContent: '本协议约定付款条件。合同自签署之日起生效。' }]
+              }
+            ]
+          }
+        })
+      } as unknown as Response);
+    });
+
+    test('explain=true 时应该返回命中、过滤和评分说明', async () => {
+      const result = await apiService.searchDocuments({
+        query: '合同 after:2024-01-01',
+        filters: { documentType: '合同' },
+        explain: true
+      });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        const explanation = result.results[0]!.explanation!;
+        expect(explanation.rank).toBe(1);
+        expect(explanation.relevanceScore).toBe(result.results[0]!.relevanceScore);
+        expect(explanation.termHits[0]).toEqual({
+          term: '合同',
+          source: 'query',
+          total: 2,
+          titleCount: 1,
+          remarksCount: 0,
+          files: [{ fileId: '11', fileName: 'a.txt', count: 1 }]
+        });
+        expect(explanation.termHits).toContainEqual(expect.objectContaining({ term: '协议', source: 'expansion', total: 1 }));
+        expect(explanation.filters).toEqual([
+          { filter: 'documentType', value: '合同', appliedAt: 'upstream', documentValue: '合同' },
+          { filter: 'dateFrom', value: '2024-01-01T00:00:00.000+08:00', appliedAt: 'local', documentValue: '2024-03-01T00:00:00Z' }
+        ]);
+      }
+    });
+
+    test('默认不返回说明', async () => {
+      const result = await apiService.searchDocuments({ query: '合同' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results[0]!.explanation).toBeUndefined();
+      }
+    });
+  });
+
+  describe('searchDocuments 提升规则', () => {
+    let rulesPath: string;
+
+    beforeEach(() => {
+      rulesPath = path.join(os.tmpdir(), `ldims-api-boost-rules-${process.pid}.json`);
+      fs.writeFileSync(
+        rulesPath,
+        JSON.stringify({
+          rules: [
+            { type: 'metadata', name: '法务部优先', field: 'departmentName', equals: '法务部', factor: 10 },
+            { type: 'metadata', field: 'documentType', equals: '草稿', factor: 0.5 }
+          ]
+        })
+      );
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 2,
+            list: [
+              {
+                id: 1,
+                docName: '合同管理办法',
+                docTypeName: '制度',
+                departmentName: '行政部',
+                files: [{ id: 11, fileName: 'a.txt', extractedContent: '合同审批流程。合同归档要求。' }]
+              },
+              {
+                id: 2,
+                docName: '合同审查要点',
+                docTypeName: '草稿',
+                departmentName: '法务部',
+                files: [{ id: 21, fileName: 'b.txt', extractedContent: '审查要点清单。' }]
+              }
+            ]
+          }
+        })
+      } as unknown as Response);
+    });
+
+    afterEach(() => {
+      fs.rmSync(rulesPath, { force: true });
+    });
+
+    test('应该按规则调整得分和排序，并在元数据中列出生效的规则', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { boostRulesPath: rulesPath } });
+      const result = await service.searchDocuments({ query: '合同', explain: true, collapseDuplicates: false });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        const boosted = result.results[0]!;
+        expect(boosted.documentId).toBe('2');
+        expect(boosted.metadata.appliedBoosts).toEqual([
+          { rule: '法务部优先', factor: 10 },
+          { rule: 'documentType=草稿', factor: 0.5 }
+        ]);
+        expect(boosted.explanation!.boosts).toEqual(boosted.metadata.appliedBoosts);
+        expect(boosted.relevanceScore).toBeCloseTo(boosted.explanation!.baseScore * 5, 2);
+        expect(result.results[1]!.metadata.appliedBoosts).toBeUndefined();
+      }
+    });
+  });
+
+  describe('searchDocuments 结果多样化', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 4,
+            list: [
+              {
+                id: 1,
+                docName: '合同审查指引',
+                docTypeName: '制度',
+                departmentName: '法务部',
+                files: [{ id: 11, fileName: 'a.txt', extractedContent: '合同审查要点，合同条款审核，合同风险提示。' }]
+              },
+              {
+                id: 2,
+                docName: '合同审查清单',
+                docTypeName: '制度',
+                departmentName: '法务部',
+                files: [{ id: 21, fileName: 'b.txt', extractedContent: '合同审查清单，合同条款逐项审核，合同风险。' }]
+              },
+              {
+                id: 3,
+                docName: '合同审查流程',
+                docTypeName: '制度',
+                departmentName: '法务部',
+                files: [{ id: 31, fileName: 'c.txt', extractedContent: '合同审查流程，合同条款审核要求，合同风险。' }]
+              },
+              {
+                id: 4,
+                docName: '付款合同台账',
+                docTypeName: '台账',
+                departmentName: '财务部',
+                files: [{ id: 41, fileName: 'd.txt', extractedContent: '付款台账登记，合同编号与付款金额。' }]
+              }
+            ]
+          }
+        })
+      } as unknown as Response);
+    });
+
+    test('diversity 大于0时应该把其他部门的结果提前', async () => {
+      const baseline = await apiService.searchDocuments({ query: '合同', collapseDuplicates: false });
+      const diversified = await apiService.searchDocuments({ query: '合同', collapseDuplicates: false, diversity: 0.7 });
+
+      expect('isError' in baseline || 'isError' in diversified).toBe(false);
+      expect('isError' in baseline).toBe(false);
+      expect('isError' in diversified).toBe(false);
+      if (!('isError' in baseline) && !('isError' in diversified)) {
+        expect(baseline.results[3]!.documentId).toBe('4');
+        expect(diversified.results[0]!.documentId).toBe(baseline.results[0]!.documentId);
+        expect(diversified.results[1]!.documentId).toBe('4');
+        expect(diversified.searchMetadata.diversification).toEqual({
+          diversity: 0.7,
+          windowSize: 4,
+          reorderedCount: expect.any(Number)
+        });
+        expect(diversified.searchMetadata.diversification!.reorderedCount).toBeGreaterThan(0);
+        expect(baseline.searchMetadata.diversification).toBeUndefined();
+      }
+    });
+
+    test('按其他字段排序时应该忽略 diversity', async () => {
+      const result = await apiService.searchDocuments({ query: '合同', sortBy: 'documentName', diversity: 0.7 });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.searchMetadata.diversification).toBeUndefined();
+      }
+    });
+  });
+
+  describe('searchDocuments 近似重复归并', () => {
+    const content = '第一条 为规范设备采购合同管理，明确双方权利义务，根据有关法律法规制定本办法。第二条 本办法适用于公司各部门的设备采购合同。';
+    const mockVersions = () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 3,
+            list: [
+              { id: 1, docName: '采购合同管理办法', files: [{ id: 11, fileName: 'a.docx', extractedContent: content }] },
+              { id: 2, docName: '采购合同管理办法（扫描件）', files: [{ id: 21, fileName: 'b.pdf', extractedContent: content.replace(/。/g, '.\n') }] },
+              { id: 3, docName: '会议纪要', files: [{ id: 31, fileName: 'c.txt', extractedContent: '本次会议讨论了采购合同审批流程的优化方案。' }] }
+            ]
+          }
+        })
+      } as unknown as Response);
+    };
+
+    test('默认应该将近似重复归并到主结果下', async () => {
+      mockVersions();
+
+      const result = await apiService.searchDocuments({ query: '采购合同', sortBy: 'documentName', sortOrder: 'desc' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(item => item.documentId)).toEqual(['3', '2']);
+        expect(result.results[0]!.duplicates).toBeUndefined();
+        expect(result.results[1]!.duplicates).toEqual([{ documentId: '1', documentName: '采购合同管理办法', similarity: 1 }]);
+        expect(result.searchMetadata.collapsedDuplicates).toBe(1);
+      }
+    });
+
+    test('collapseDuplicates=false 时应该返回全部版本', async () => {
+      mockVersions();
+
+      const result = await apiService.searchDocuments({ query: '采购合同', collapseDuplicates: false });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results).toHaveLength(3);
+        expect(result.results.some(item => item.duplicates)).toBe(false);
+        expect(result.searchMetadata.collapsedDuplicates).toBeUndefined();
+      }
+    });
+  });
+
+  describe('searchDocuments 输出预算', () => {
+    const mockLongDocuments = () => {
+      const paragraph = '合同条款约定了双方的权利和义务。'.repeat(200);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: {
+            total: 3,
+            list: [1, 2, 3].map(id => ({
+              id,
+              docName: `合同${id}`,
+              files: [{ id: id * 10, fileName: `${id}.txt`, extractedContent: paragraph }]
+            }))
+          }
+        })
+      } as unknown as Response);
+    };
+
+    test('应该按排名分配预算并报告使用情况', async () => {
+      mockLongDocuments();
+
+      const result = await apiService.searchDocuments({
+        query: '合同',
+        content_mode: 'full',
+        highlight: false,
+        collapseDuplicates: false,
+        maxOutputTokens: 1500
+      });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        const lengths = result.results.map(item => item.matchedContext.length);
+        expect(lengths[0]!).toBeGreaterThan(lengths[1]!);
+        expect(lengths[1]!).toBeGreaterThan(lengths[2]!);
+        expect(result.results.every(item => item.contentTruncated)).toBe(true);
+        expect(result.results[0]!.matchedContext.endsWith('…')).toBe(true);
+
+        const processing = result.searchMetadata.contentProcessing!;
+        expect(processing.contentNotTruncated).toBe(false);
+        expect(processing.outputBudget).toMatchObject({ maxOutputTokens: 1500, truncatedResults: 3, overBudget: false });
+        expect(processing.outputBudget!.estimatedTokens).toBeLessThanOrEqual(1500);
+      }
+    });
+
+    test('未设置预算时应该返回完整内容', async () => {
+      mockLongDocuments();
+
+      const result = await apiService.searchDocuments({
+        query: '合同',
+        content_mode: 'full',
+        highlight: false,
+        collapseDuplicates: false
+      });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.some(item => item.contentTruncated)).toBe(false);
+        expect(result.searchMetadata.contentProcessing?.contentNotTruncated).toBe(true);
+        expect(result.searchMetadata.contentProcessing?.outputBudget).toBeUndefined();
+      }
+    });
+
+    test('smart_extract 模式下应该省略超出预算的片段', async () => {
+      mockLongDocuments();
+
+      const unlimited = await apiService.searchDocuments({
+        query: '合同',
+        context_chars: 50,
+        highlight: false,
+        collapseDuplicates: false
+      });
+      mockLongDocuments();
+      const limited = await apiService.searchDocuments({
+        query: '合同',
+        context_chars: 50,
+        highlight: false,
+        collapseDuplicates: false,
+        maxOutputTokens: 600
+      });
+
+      expect('isError' in unlimited).toBe(false);
+      expect('isError' in limited).toBe(false);
+      if (!('isError' in unlimited) && !('isError' in limited)) {
+        const count = (response: typeof limited) =>
+          response.results.reduce((sum, item) => sum + (item.snippets?.length ?? 0), 0);
+        expect(count(limited)).toBeLessThan(count(unlimited));
+        expect(limited.searchMetadata.contentProcessing?.outputBudget?.truncatedResults).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('searchDocumentsBatch', () => {
+    test('应该合并多个查询的结果并按文档去重', async () => {
+      mockFetch.mockImplementation(async input => {
+        const list = String(input).includes(encodeURIComponent('采购'))
+          ? [
+              { id: 1, docName: '采购合同' },
+              { id: 2, docName: '采购计划' }
+            ]
+          : [{ id: 1, docName: '采购合同' }];
+        return {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list, total: list.length } })
+        } as unknown as Response;
+      });
+
+      const result = await apiService.searchDocumentsBatch({
+        queries: [{ query: '采购' }, { query: '合同' }]
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results.map(item => item.index)).toEqual([0, 1]);
+        expect(result.merged.map(item => item.documentId)).toEqual(['1', '2']);
+        expect(result.merged[0]!.matchedQueries).toEqual([0, 1]);
+        expect(result.merged[1]!.matchedQueries).toEqual([0]);
+        expect(result.batchMetadata).toMatchObject({ queryCount: 2, succeeded: 2, failed: 0 });
+      }
+    });
+
+    test('单个查询失败时应该记录在对应结果中而不影响其他查询', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list: [{ id: 1, docName: '合同' }], total: 1 } })
+      } as unknown as Response);
+
+      const result = await apiService.searchDocumentsBatch({
+        queries: [{ query: '合同' }, { query: 'type:合同 合同 OR 协议' }]
+      });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.results[0]!.response?.results).toHaveLength(1);
+        expect(result.results[1]!.error?.errorCode).toBe('INVALID_QUERY');
+        expect(result.batchMetadata).toMatchObject({ succeeded: 1, failed: 1 });
+      }
+    });
+
+    test('应该拒绝空的查询列表', async () => {
+      const result = await apiService.searchDocumentsBatch({ queries: [] });
+
+      expect(result).toMatchObject({ isError: true, errorCode: 'BATCH_SEARCH_FAILED' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchDocuments 分页', () => {
+    const mockPage = (ids: number[], total: number) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          code: 200,
+          message: 'ok',
+          data: { total, list: ids.map(id => ({ id, docName: `文档${id}` })) }
+        })
+      } as unknown as Response);
+    };
+
+    test('应该返回 nextCursor 并按游标请求下一页', async () => {
+      mockPage([1, 2], 5);
+      const first = await apiService.searchDocuments({ query: '文档', maxResults: 2 });
+
+      expect('isError' in first).toBe(false);
+      if ('isError' in first) return;
+      expect(String(mockFetch.mock.calls[0]![0])).toContain('page=1');
+      expect(first.nextCursor).toBeDefined();
+
+      mockPage([3, 4], 5);
+      const second = await apiService.searchDocuments({ query: '文档', maxResults: 2, cursor: first.nextCursor! });
+
+      const secondUrl = String(mockFetch.mock.calls[1]![0]);
+      expect(secondUrl).toContain('page=2');
+      expect(secondUrl).toContain('pageSize=2');
+      expect('isError' in second).toBe(false);
+      if (!('isError' in second)) {
+        expect(second.results.map(r => r.documentId)).toEqual(['3', '4']);
+      }
+    });
+
+    test('本地过滤多取的结果应该在同一页内继续返回', async () => {
+      const list = Array.from({ length: 4 }, (_, i) => ({
+        id: i + 1,
+        docName: `文档${i + 1}`,
+        createdAt: '2024-05-01T00:00:00Z'
+      }));
+      const respond = () =>
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { total: 4, list } })
+        } as unknown as Response);
+
+      respond();
+      const first = await apiService.searchDocuments({
+        query: '文档',
+        maxResults: 3,
+        filters: { dateFrom: '2024-01-01' }
+      });
+      if ('isError' in first) throw new Error('unexpected error');
+
+      respond();
+      const second = await apiService.searchDocuments({
+        query: '文档',
+        maxResults: 3,
+        filters: { dateFrom: '2024-01-01' },
+        cursor: first.nextCursor!
+      });
+
+      expect(String(mockFetch.mock.calls[1]![0])).toContain('page=1');
+      expect('isError' in second).toBe(false);
+      if (!('isError' in second)) {
+        expect(second.results).toHaveLength(1);
+        expect(second.nextCursor).toBeUndefined();
+        expect([...first.results, ...second.results].map(r => r.documentId).sort()).toEqual(['1', '2', '3', '4']);
+      }
+    });
+
+    test('游标与查询不匹配时应该返回 INVALID_CURSOR', async () => {
+      mockPage([1], 3);
+      const first = await apiService.searchDocuments({ query: '文档', maxResults: 1 });
+      if ('isError' in first) throw new Error('unexpected error');
+
+      const result = await apiService.searchDocuments({ query: '合同', cursor: first.nextCursor! });
+      expect('isError' in result && result.errorCode).toBe('INVALID_CURSOR');
+
+      const malformed = await apiService.searchDocuments({ query: '文档', cursor: 'not-a-cursor' });
+      expect('isError' in malformed && malformed.errorCode).toBe('INVALID_CURSOR');
+    });
+
+    test('修改 maxResults 或 collapseDuplicates 后游标应该失效', async () => {
+      mockPage([1, 2], 6);
+      const first = await apiService.searchDocuments({ query: '文档', maxResults: 2 });
+      if ('isError' in first) throw new Error('unexpected error');
+
+      const resized = await apiService.searchDocuments({ query: '文档', maxResults: 3, cursor: first.nextCursor! });
+      expect('isError' in resized && resized.errorCode).toBe('INVALID_CURSOR');
+
+      const uncollapsed = await apiService.searchDocuments({
+        query: '文档',
+        maxResults: 2,
+        collapseDuplicates: false,
+        cursor: first.nextCursor!
+      });
+      expect('isError' in uncollapsed && uncollapsed.errorCode).toBe('INVALID_CURSOR');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('游标中的每页条数应该限制在LDIMS单次请求上限内', async () => {
+      mockPage([1, 2], 6);
+      const first = await apiService.searchDocuments({ query: '文档', maxResults: 2 });
+      if ('isError' in first) throw new Error('unexpected error');
+
+      const payload = JSON.parse(Buffer.from(first.nextCursor!, 'base64url').toString('utf8'));
+      payload[1] = 1000000;
+      const crafted = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+
+      mockPage([3, 4], 6);
+      const second = await apiService.searchDocuments({ query: '文档', maxResults: 2, cursor: crafted });
+
+      expect('isError' in second).toBe(false);
+      expect(String(mockFetch.mock.calls[1]![0])).toContain('pageSize=100');
+    });
+  });
+
+  describe('findSimilarDocuments', () => {
+    const jsonResponse = (data: unknown) =>
+      ({ ok: true, json: jest.fn().mockResolvedValue(data) }) as unknown as Response;
+    const searchItem = (id: number, docName: string, extractedContent: string) => ({
+      id,
+      docName,
+      files: [{ id: id * 10, fileName: `${id}.txt`, extractedContent }]
+    });
+
+    test('应该按余弦相似度返回相似文档并排除参照文档', async () => {
+      const list = [
+        searchItem(42, '设备采购合同', '设备采购合同约定了付款条件和违约责任。'),
+        searchItem(7, '会议纪要', '会议讨论了设备维护计划。'),
+        searchItem(8, '软件采购合同', '软件采购合同约定了付款条件、验收标准和违约责任。')
+      ];
+      mockFetch.mockImplementation(async input => {
+        const url = String(input);
+        if (url.endsWith('/api/v1/documents/42')) {
+          return jsonResponse({
+            success: true,
+            data: {
+              docName: '设备采购合同',
+              files: [{ id: 420, fileName: 'a.txt', extractedContent: '设备采购合同约定了付款条件和违约责任。' }]
+            }
+          });
+        }
+        return jsonResponse({ code: 200, message: 'ok', data: { list, total: list.length } });
+      });
+
+      const result = await apiService.findSimilarDocuments({ documentId: '42', termCount: 3 });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.queryTerms).toHaveLength(3);
+        const searchUrls = mockFetch.mock.calls.map(call => String(call[0])).filter(url => url.includes('/search/'));
+        expect(searchUrls).toHaveLength(3);
+        expect(result.searchMetadata.candidateCount).toBe(2);
+        expect(result.results.map(item => item.documentId)).toEqual(['8', '7']);
+        expect(result.results[0]!.sharedTerms).toEqual(expect.arrayContaining(['采购', '付款']));
+        expect(result.results[0]!.similarity).toBeGreaterThan(result.results[1]!.similarity);
+      }
+    });
+
+    test('特征词应该取自分词片段，不包含套话和跨虚词的拼接片段', async () => {
+      mockFetch.mockImplementation(async input =>
+        String(input).endsWith('/api/v1/documents/42')
+          ? jsonResponse({
+              success: true,
+              data: {
+                docName: '光伏合同',
+                files: [{ id: 420, fileName: 'a.txt', extractedContent: '乙方就光伏逆变器向甲方承担违约责任。乙方保证光伏组件质量。' }]
+              }
+            })
+          : jsonResponse({ code: 200, message: 'ok', data: { list: [], total: 0 } })
+      );
+
+      const result = await apiService.findSimilarDocuments({ documentId: '42', termCount: 10 });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.queryTerms[0]).toBe('光伏');
+        expect(result.queryTerms).not.toEqual(expect.arrayContaining(['乙方', '甲方']));
+        expect(result.queryTerms.every(term => term.length <= 4)).toBe(true);
+      }
+    });
+
+    test('参照文档不存在时应该返回错误', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' } as unknown as Response);
+
+      const result = await apiService.findSimilarDocuments({ documentId: '404' });
+
+      expect('isError' in result).toBe(true);
+      expect(mockFetch.mock.calls.some(call => String(call[0]).includes('/search/'))).toBe(false);
+    });
+  });
+
+  describe('getDocumentExtractedContent', () => {
+    test('应该成功获取提取内容', async () => {
+      const mockResponseData = {
+        data: {
+          content: '这是提取的文档内容',
+          document_name: '测试文档.pdf',
+          extracted_at: '2024-01-01T00:00:00Z',
+          format: 'text/plain'
+        }
+      };
+
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue(mockResponseData)
+      } as unknown as Response;
+      
+      mockFetch.mockResolvedValue(mockResponse);
+      
+      const result = await apiService.getDocumentExtractedContent('doc-123');
+      
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.text).toBe('这是提取的文档内容');
+        expect(result.metadata.documentName).toBe('测试文档.pdf');
+        expect(result.uri).toBe('ldims://docs/doc-123/extracted_content');
+      }
+    });
+
+    test('指定范围时应该分段返回提取内容', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          success: true,
+          data: { docName: '长文档', files: [{ id: 1, fileName: 'a.txt', extractedContent: '一二三四五六七八九十' }] }
+        })
+      } as unknown as Response);
+
+      const first = await apiService.getDocumentExtractedContent('doc-123', { offset: 0, length: 8 });
+      const full = await apiService.getDocumentExtractedContent('doc-123');
+
+      expect('isError' in first).toBe(false);
+      expect('isError' in full).toBe(false);
+      if (!('isError' in first) && !('isError' in full)) {
+        const totalLength = full.text.length;
+        expect(first.text).toBe(full.text.slice(0, 8));
+        expect(first.metadata.range).toEqual({ offset: 0, length: 8, totalLength, hasMore: true, nextOffset: 8 });
+        expect(full.metadata.range).toBeUndefined();
+
+        const last = await apiService.getDocumentExtractedContent('doc-123', { offset: totalLength - 4 });
+        expect('isError' in last).toBe(false);
+        if (!('isError' in last)) {
+          expect(last.text).toBe('七八九十');
+          expect(last.metadata.range).toEqual({ offset: totalLength - 4, length: 4, totalLength, hasMore: false });
+        }
+      }
+    });
+
+    test('应该以有限并发获取文件内容并保持文件顺序', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { fileFetchConcurrency: 2 } });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async input => {
+        const fileId = /files\/(\d+)\/content/.exec(String(input))?.[1];
+        if (!fileId) {
+          return {
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              success: true,
+              data: {
+                docName: '多附件文档',
+                files: [1, 2, 3, 4].map(id => ({ id, fileName: `附件${id}.pdf` }))
+              }
+            })
+          } as unknown as Response;
+        }
+
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // 先请求的文件后返回
+        await new Promise(resolve => setTimeout(resolve, (5 - Number(fileId)) * 5));
+        inFlight--;
+        if (fileId === '3') {
+          return { ok: false, status: 500, statusText: 'Internal Server Error' } as unknown as Response;
+        }
+        return {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ success: true, data: { extractedContent: `内容${fileId}` } })
+        } as unknown as Response;
+      });
+
+      const result = await service.getDocumentExtractedContent('doc-1');
+
+      expect(maxInFlight).toBe(2);
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.text.match(/=== 文件 \d: 附件\d\.pdf ===\n内容\d/g)).toEqual([
+          '=== 文件 1: 附件1.pdf ===\n内容1',
+          '=== 文件 2: 附件2.pdf ===\n内容2',
+          '=== 文件 4: 附件4.pdf ===\n内容4'
+        ]);
+        expect(result.metadata).toMatchObject({ totalFiles: 4, processedFiles: 3 });
+        expect(result.metadata.failedFiles).toEqual([
+          {
+            fileId: '3',
+            fileName: '附件3.pdf',
+            reason: 'error',
+            message: 'HTTP request failed: 500 Internal Server Error'
+          }
+        ]);
+      }
+    });
+
+    test('LDIMS返回失败或没有提取内容的文件应该分别记为失败', async () => {
+      mockFetch.mockImplementation(async input => {
+        const fileId = /files\/(\d+)\/content/.exec(String(input))?.[1];
+        const body = !fileId
+          ? {
+              success: true,
+              data: { docName: '合同', files: [1, 2, 3].map(id => ({ id, fileName: `附件${id}.pdf` })) }
+            }
+          : fileId === '1'
+            ? { success: true, data: { extractedContent: '内容1' } }
+            : fileId === '2'
+              ? { success: false, error: { code: 'PARSE_FAILED', message: '文件解析失败' } }
+              : { success: true, data: { extractedContent: '  ' } };
+        return { ok: true, json: jest.fn().mockResolvedValue(body) } as unknown as Response;
+      });
+
+      const result = await apiService.getDocumentExtractedContent('doc-3');
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.metadata).toMatchObject({ totalFiles: 3, processedFiles: 1 });
+        expect(result.metadata.failedFiles).toEqual([
+          { fileId: '2', fileName: '附件2.pdf', reason: 'error', message: 'PARSE_FAILED: 文件解析失败' },
+          { fileId: '3', fileName: '附件3.pdf', reason: 'empty', message: '文件没有提取内容，可能尚未解析' }
+        ]);
+      }
+    });
+
+    test('超过文档内容获取时限时应该将未完成的文件记为失败', async () => {
+      const service = new LdimsApiService({
+        ...mockConfig,
+        search: { fileFetchConcurrency: 1, documentFetchDeadlineMs: 20 }
+      });
+      mockFetch.mockImplementation(async (input, init) => {
+        if (!String(input).includes('/files/')) {
+          return {
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              success: true,
+              data: {
+                docName: '大文档',
+                files: [
+                  { id: 1, fileName: '正文.txt', extractedContent: '正文内容' },
+                  { id: 2, fileName: '扫描件.pdf' },
+                  { id: 3, fileName: '附件.pdf' }
+                ]
+              }
+            })
+          } as unknown as Response;
+        }
+        // 请求一直挂起，直到被中止
+        return await new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => {
+            const abortError = new Error('aborted');
+            abortError.name = 'AbortError';
+            reject(abortError);
+          });
+        });
+      });
+
+      const result = await service.getDocumentExtractedContent('doc-2');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.text).toBe('=== 文件 1: 正文.txt ===\n正文内容');
+        expect(result.metadata.failedFiles?.map(file => [file.fileId, file.reason])).toEqual([
+          ['2', 'deadline'],
+          ['3', 'deadline']
+        ]);
+      }
+    });
+
+    test('应该处理内容提取错误', async () => {
+      mockFetch.mockRejectedValue(new Error('Extraction failed'));
+      
+      const result = await apiService.getDocumentExtractedContent('doc-123');
+      
+      expect('isError' in result).toBe(true);
+      if ('isError' in result) {
+        expect(result.errorCode).toBe('CONTENT_EXTRACTION_FAILED');
+      }
+    });
+  });
+
+  describe('listRecentDocuments', () => {
+    const listPage = (list: unknown[], total: number) =>
+      ({
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({ code: 200, message: 'ok', data: { list, total } })
+      }) as unknown as Response;
+
+    test('应该按创建日期列出最近的文档并返回下一页游标', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { resourceListSize: 2 } });
+      mockFetch.mockResolvedValueOnce(
+        listPage(
+          [
+            {
+              id: 42,
+              docName: '采购合同',
+              docTypeName: '合同',
+              submitter: '张三',
+              sourceDepartmentName: '法务部',
+              createdAt: '2024-03-01T08:00:00Z'
+            },
+            { id: 'doc 41', docName: null }
+          ],
+          3
+        )
+      );
+
+      const result = await service.listRecentDocuments();
+
+      const url = new URL(String(mockFetch.mock.calls[0]![0]));
+      expect(url.pathname).toBe('/api/api/v1/documents');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        page: '1',
+        pageSize: '2',
+        sortBy: 'createdAt',
+        sortOrder: 'desc'
+      });
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.documents).toEqual([
+          {
+            documentId: '42',
+            documentName: '采购合同',
+            documentType: '合同',
+            submitter: '张三',
+            departmentName: '法务部',
+            createdAt: '2024-03-01T08:00:00Z',
+            uri: 'ldims://docs/42/extracted_content'
+          },
+          { documentId: 'doc 41', documentName: '文档-doc 41', uri: 'ldims://docs/doc%2041/extracted_content' }
+        ]);
+        expect(result.total).toBe(3);
+        expect(result.nextCursor).toBeDefined();
+
+        mockFetch.mockResolvedValueOnce(listPage([{ id: 40, docName: '会议纪要' }], 3));
+        const next = await service.listRecentDocuments(result.nextCursor);
+
+        expect(new URL(String(mockFetch.mock.calls[1]![0])).searchParams.get('page')).toBe('2');
+        expect(next).toMatchObject({ documents: [{ documentId: '40' }], total: 3 });
+        expect(next).not.toHaveProperty('nextCursor');
+      }
+    });
+
+    test('应该按配置的移交日期排序', async () => {
+      const service = new LdimsApiService({ ...mockConfig, search: { resourceListSortBy: 'handoverDate' } });
+      mockFetch.mockResolvedValueOnce(listPage([], 0));
+
+      const result = await service.listRecentDocuments();
+
+      expect(new URL(String(mockFetch.mock.calls[0]![0])).searchParams.get('sortBy')).toBe('handoverDate');
+      expect(result).toEqual({ documents: [], total: 0 });
+    });
+
+    test('游标与排序字段不匹配时应该返回 INVALID_CURSOR', async () => {
+      mockFetch.mockResolvedValueOnce(listPage([{ id: 1 }, { id: 2 }], 100));
+      const page = await apiService.listRecentDocuments();
+      const cursor = 'isError' in page ? undefined : page.nextCursor;
+
+      const service = new LdimsApiService({ ...mockConfig, search: { resourceListSortBy: 'handoverDate' } });
+      const result = await service.listRecentDocuments(cursor);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ isError: true, errorCode: 'INVALID_CURSOR' });
+    });
+  });
+
+  describe('文档资源', () => {
+    const documentRecord = {
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({
+        success: true,
+        data: {
+          id: 42,
+          docName: '采购合同',
+          docTypeName: '合同',
+          submitter: '张三',
+          sourceDepartmentName: '法务部',
+          createdAt: '2024-03-01T08:00:00Z',
+          remarks: null,
+          files: [
+            { id: 7, fileName: '合同正文.pdf', fileType: 'pdf', fileSize: 2048, processingStatus: 'completed' },
+            { id: 'a/b', fileName: null }
+          ]
+        }
+      })
+    } as unknown as Response;
+
+    test('应该返回文档元数据', async () => {
+      mockFetch.mockResolvedValueOnce(documentRecord);
+
+      const result = await apiService.getDocumentMetadata('42');
+
+      expect(String(mockFetch.mock.calls[0]![0])).toBe('http://localhost:3000/api/api/v1/documents/42');
+      expect(result).toEqual({
+        documentId: '42',
+        documentName: '采购合同',
+        documentType: '合同',
+        submitter: '张三',
+        departmentName: '法务部',
+        createdAt: '2024-03-01T08:00:00Z',
+        fileCount: 2
+      });
+    });
+
+    test('应该列出文档文件及其内容资源URI', async () => {
+      mockFetch.mockResolvedValueOnce(documentRecord);
+
+      const result = await apiService.listDocumentFiles('42');
+
+      expect(result).toEqual({
+        documentId: '42',
+        documentName: '采购合同',
+        files: [
+          {
+            fileId: '7',
+            fileName: '合同正文.pdf',
+            fileType: 'pdf',
+            fileSize: 2048,
+            processingStatus: 'completed',
+            uri: 'ldims://docs/42/files/7/content'
+          },
+          { fileId: 'a/b', fileName: '文件a/b', uri: 'ldims://docs/42/files/a%2Fb/content' }
+        ]
+      });
+    });
+
+    test('应该返回文档中单个文件的提取内容', async () => {
+      mockFetch.mockResolvedValueOnce(documentRecord).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({
+          success: true,
+          data: { id: 7, fileName: '合同正文.pdf', extractedContent: '第一条 合同标的' }
+        })
+      } as unknown as Response);
+
+      const result = await apiService.getDocumentFile('42', '7', { offset: 0, length: 3 });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.content).toBe('第一条');
+        expect(result.metadata?.filename).toBe('合同正文.pdf');
+        expect(result.range).toEqual({ offset: 0, length: 3, totalLength: 8, hasMore: true, nextOffset: 3 });
+      }
+    });
+
+    test('文件不属于该文档时应该返回 FILE_NOT_FOUND', async () => {
+      mockFetch.mockResolvedValueOnce(documentRecord);
+
+      const result = await apiService.getDocumentFile('42', '8');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ isError: true, errorCode: 'FILE_NOT_FOUND' });
+    });
+
+    test('文档不存在时应该返回 DOCUMENT_NOT_FOUND', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as unknown as Response);
+
+      expect(await apiService.getDocumentMetadata('404')).toMatchObject({
+        isError: true,
+        errorCode: 'DOCUMENT_NOT_FOUND'
+      });
+      expect(await apiService.listDocumentFiles('404')).toMatchObject({
+        isError: true,
+        errorCode: 'DOCUMENT_NOT_FOUND'
+      });
+    });
+  });
+
+  describe('文档大纲与章节', () => {
+    const contractRecord = {
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({
+        success: true,
+        data: {
+          docName: '设备采购合同',
+          files: [
+            {
+              id: 1,
+              fileName: '合同.pdf',
+              extractedContent: '第一条 标的\n采购服务器十台。\n第八条 违约责任\n逾期交付的，每日支付千分之一违约金。'
+            }
+          ]
+        }
+      })
+    } as unknown as Response;
+
+    test('应该返回带偏移的文档大纲', async () => {
+      mockFetch.mockResolvedValue(contractRecord);
+
+      const result = await apiService.getDocumentOutline({ document_id: '42' });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.documentName).toBe('设备采购合同');
+        expect(result.headings.map(heading => heading.title)).toEqual(['文件 1: 合同.pdf', '第一条 标的', '第八条 违约责任']);
+        const full = await apiService.getDocumentExtractedContent('42');
+        expect('isError' in full).toBe(false);
+        if (!('isError' in full)) {
+          expect(result.totalLength).toBe(full.text.length);
+          expect(full.text.slice(result.headings[2]!.offset)).toBe('第八条 违约责任\n逾期交付的，每日支付千分之一违约金。');
+        }
+      }
+    });
+
+    test('应该按标题返回单个章节并支持分段读取', async () => {
+      mockFetch.mockResolvedValue(contractRecord);
+
+      const result = await apiService.getDocumentSection({ document_id: '42', title: '第8条', length: 9 });
+
+      expect('isError' in result).toBe(false);
+      if (!('isError' in result)) {
+        expect(result.heading).toMatchObject({ index: 2, title: '第八条 违约责任', kind: 'article' });
+        expect(result.text).toBe('第八条 违约责任\n');
+        expect(result.range).toEqual({ offset: 0, length: 9, totalLength: 27, hasMore: true, nextOffset: 9 });
+      }
+
+      const byIndex = await apiService.getDocumentSection({ document_id: '42', index: 1 });
+      expect('isError' in byIndex).toBe(false);
+      if (!('isError' in byIndex)) {
+        expect(byIndex.text).toBe('第一条 标的\n采购服务器十台。\n');
+      }
+    });
+
+    test('未找到章节时应该返回 SECTION_NOT_FOUND 并列出标题', async () => {
+      mockFetch.mockResolvedValue(contractRecord);
+
+      const result = await apiService.getDocumentSection({ document_id: '42', title: '付款方式' });
+
+      expect(result).toMatchObject({
+        isError: true,
+        errorCode: 'SECTION_NOT_FOUND',
+        errorDetails: { headings: ['文件 1: 合同.pdf', '第一条 标的', '第八条 违约责任'] }
+      });
+    });
+
+    test('title 和 index 都未指定时应该返回错误', async () => {
+      const result = await apiService.getDocumentSection({ document_id: '42' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ isError: true, errorCode: 'SECTION_FAILED' });
+    });
+  });
+
   describe('checkHealth', () => {
     test('应该快速检查健康状态', async () => {
       const mockResponse = {
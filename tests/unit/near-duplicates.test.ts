@@ -0,0 +1,68 @@
+/**
+ * 近似重复检测模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  collapseNearDuplicates,
+  fingerprintContent,
+  fingerprintSimilarity,
+  hammingDistance,
+  MAX_HAMMING_DISTANCE
+} from "../../src/services/near-duplicates.js";
+
+const ORIGINAL =
+  "第一条 为规范公司设备采购管理，降低采购成本，提高资金使用效率，根据国家有关法律法规，结合公司实际情况，制定本办法。" +
+  "第二条 本办法适用于公司各部门、各分支机构的设备采购活动，包括生产设备、办公设备和信息化设备。" +
+  "第三条 设备采购应当遵循公开、公平、公正和诚实信用的原则，优先选择质量可靠、服务完善的供应商。" +
+  "第四条 采购部门负责组织供应商评审，财务部门负责预算审核和付款结算，使用部门负责提出需求和参与验收。" +
+  "第五条 单项金额超过五十万元的设备采购，须经公司总经理办公会审议批准后方可实施。";
+
+const UNRELATED =
+  "会议纪要：本次季度经营分析会听取了各事业部的业绩汇报，讨论了下半年市场拓展计划，" +
+  "要求人力资源部加快关键岗位招聘，信息中心完成数据中心机房搬迁，安全环保部开展消防演练和隐患排查。" +
+  "会议强调各单位要严格落实安全生产责任制，确保全年目标任务顺利完成。";
+
+describe("近似重复检测", () => {
+  test("空白和标点差异不应影响指纹", () => {
+    const reformatted = ORIGINAL.replace(/，/g, ", ").replace(/。/g, ".\n");
+
+    expect(hammingDistance(fingerprintContent(ORIGINAL), fingerprintContent(reformatted))).toBe(0);
+  });
+
+  test("少量修改的版本应该被判定为近似重复", () => {
+    const revised = ORIGINAL.replace("五十万元", "一百万元");
+
+    expect(hammingDistance(fingerprintContent(ORIGINAL), fingerprintContent(revised))).toBeLessThanOrEqual(
+      MAX_HAMMING_DISTANCE
+    );
+  });
+
+  test("内容不同的文档不应该被判定为近似重复", () => {
+    expect(hammingDistance(fingerprintContent(ORIGINAL), fingerprintContent(UNRELATED))).toBeGreaterThan(
+      MAX_HAMMING_DISTANCE
+    );
+  });
+
+  test("过短或为空的文本仅在完全相同时视为相似", () => {
+    expect(fingerprintSimilarity(fingerprintContent("合同编号001"), fingerprintContent("合同编号001"))).toBe(1);
+    expect(fingerprintSimilarity(fingerprintContent("合同编号001"), fingerprintContent("合同编号002"))).toBe(0);
+    expect(fingerprintSimilarity(fingerprintContent(""), fingerprintContent(""))).toBe(0);
+  });
+
+  test("应该将近似重复归并到排名最高的主结果下", () => {
+    const items = [
+      { id: "draft", text: ORIGINAL },
+      { id: "minutes", text: UNRELATED },
+      { id: "scan", text: ORIGINAL.replace(/，/g, " ") },
+      { id: "final", text: ORIGINAL.replace("五十万元", "一百万元") }
+    ];
+
+    const groups = collapseNearDuplicates(items, item => fingerprintContent(item.text));
+
+    expect(groups.map(group => group.primary.id)).toEqual(["draft", "minutes"]);
+    expect(groups[0]!.duplicates.map(duplicate => duplicate.item.id)).toEqual(["scan", "final"]);
+    expect(groups[0]!.duplicates[0]!.similarity).toBe(1);
+    expect(groups[1]!.duplicates).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * 输出预算模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  allocateOutputBudget,
+  estimateTokens,
+  PREVIEW_TOKENS,
+  selectWithinBudget,
+  truncateToTokens
+} from "../../src/services/output-budget.js";
+
+describe("输出预算", () => {
+  describe("estimateTokens", () => {
+    test("汉字应该按每字 1 token 估算，其余字符按 4 字符 1 token 估算", () => {
+      expect(estimateTokens("合同管理")).toBe(4);
+      expect(estimateTokens("abcdefgh")).toBe(2);
+      expect(estimateTokens("合同abc")).toBe(3);
+      expect(estimateTokens("")).toBe(0);
+    });
+  });
+
+  describe("truncateToTokens", () => {
+    test("未超出预算时应该原样返回", () => {
+      expect(truncateToTokens("合同管理制度", 10)).toBe("合同管理制度");
+    });
+
+    test("超出预算时应该截断并追加省略号", () => {
+      const result = truncateToTokens("一二三四五六七八九十", 5);
+
+      expect(result).toBe("一二三四…");
+      expect(estimateTokens(result)).toBeLessThanOrEqual(5);
+    });
+
+    test("应该优先在句子边界处截断", () => {
+      expect(truncateToTokens("第一条规定内容。第二条规定内容很长很长", 10)).toBe("第一条规定内容。…");
+    });
+  });
+
+  describe("allocateOutputBudget", () => {
+    test("排名靠前的结果应该获得更多内容预算", () => {
+      const items = [1, 2, 3].map(() => ({ fixedTokens: 50, contentTokens: 2000 }));
+
+      const { allowances, overBudget } = allocateOutputBudget(items, 1500);
+
+      expect(overBudget).toBe(false);
+      expect(allowances[0]!).toBeGreaterThan(allowances[1]!);
+      expect(allowances[1]!).toBeGreaterThan(allowances[2]!);
+      expect(allowances.reduce((sum, value) => sum + value, 0) + 150).toBeLessThanOrEqual(1500);
+    });
+
+    test("靠前结果用不完的预算应该顺延给后续结果", () => {
+      const { allowances } = allocateOutputBudget(
+        [
+          { fixedTokens: 0, contentTokens: 100 },
+          { fixedTokens: 0, contentTokens: 5000 }
+        ],
+        1000
+      );
+
+      expect(allowances).toEqual([100, 900]);
+    });
+
+    test("预算不足时每个结果仍保留预览并标记超出预算", () => {
+      const items = [1, 2].map(() => ({ fixedTokens: 100, contentTokens: 1000 }));
+
+      const { allowances, overBudget } = allocateOutputBudget(items, 150);
+
+      expect(allowances).toEqual([PREVIEW_TOKENS, PREVIEW_TOKENS]);
+      expect(overBudget).toBe(true);
+    });
+  });
+
+  describe("selectWithinBudget", () => {
+    test("应该按顺序选取放得下的元素并跳过放不下的元素", () => {
+      expect(selectWithinBudget([50, 80, 30, 10], value => value, 100)).toEqual([50, 30, 10]);
+    });
+  });
+});
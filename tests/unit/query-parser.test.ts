@@ -0,0 +1,89 @@
+/**
+ * 结构化查询解析模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { matchesQueryConstraints, parseQuery, QueryParseError } from "../../src/services/query-parser.js";
+
+describe("结构化查询解析", () => {
+  test("应该解析字段限定符、短语和排除词", () => {
+    const parsed = parseQuery('type:合同 submitter:张三 "违约责任" -草稿 after:2024-01-01 采购');
+
+    expect(parsed).toEqual({
+      text: "违约责任 采购",
+      terms: ["采购"],
+      phrases: ["违约责任"],
+      excluded: ["草稿"],
+      filters: { documentType: "合同", submitter: "张三", dateFrom: "2024-01-01" },
+      structured: true
+    });
+  });
+
+  test("普通查询不视为结构化语法", () => {
+    const parsed = parseQuery("采购合同 HT-2024-001 https://example.com/a");
+
+    expect(parsed.structured).toBe(false);
+    expect(parsed.terms).toEqual(["采购合同", "HT-2024-001", "https://example.com/a"]);
+  });
+
+  test("应该支持 NOT、AND、中文引号和带引号的限定符取值", () => {
+    const parsed = parseQuery('“付款条件” AND NOT 试行 submitter:"张 三" -"征求意见稿"');
+
+    expect(parsed.phrases).toEqual(["付款条件"]);
+    expect(parsed.excluded).toEqual(["试行", "征求意见稿"]);
+    expect(parsed.filters).toEqual({ submitter: "张 三" });
+  });
+
+  test("未使用结构化语法时括号、OR 和未知限定符应该视为字面文本", () => {
+    expect(parseQuery("关于设备采购(第二批)的通知")).toMatchObject({
+      text: "关于设备采购(第二批)的通知",
+      structured: false
+    });
+    expect(parseQuery("Note: 合同 OR 协议")).toMatchObject({
+      terms: ["Note:", "合同", "OR", "协议"],
+      filters: {},
+      structured: false
+    });
+  });
+
+  test("应该保持自由词和短语的原有顺序", () => {
+    expect(parseQuery('"违约责任" 第八条').text).toBe("违约责任 第八条");
+  });
+
+  test.each([
+    ["type:合同 dept:财务部", "不支持的字段限定符"],
+    ["type:合同 合同 OR 协议", "OR"],
+    ['"合同" (协议)', "括号"],
+    ['"违约责任', "引号未闭合"],
+    ["after:很久以前", "不是有效日期"],
+    ["type:合同 type:协议", "重复出现"],
+    ["-type:合同", "前缀"],
+    ["合同 NOT", "NOT 之后"]
+  ])("不支持的语法 %s 应该报错", (query, message) => {
+    expect(() => parseQuery(query)).toThrow(QueryParseError);
+    expect(() => parseQuery(query)).toThrow(message);
+  });
+
+  test("日期限定符应该接受相对日期表达", () => {
+    expect(parseQuery('合同 after:去年 before:"last week"').filters).toEqual({
+      dateFrom: "去年",
+      dateTo: "last week"
+    });
+  });
+
+  test("应该校验短语和排除词", () => {
+    const constraints = { phrases: ["违约责任"], excluded: ["草稿"] };
+
+    expect(matchesQueryConstraints("第五条 违约责任", constraints)).toBe(true);
+    expect(matchesQueryConstraints("第五条 违约 责任", constraints)).toBe(false);
+    expect(matchesQueryConstraints("违约责任（草稿）", constraints)).toBe(false);
+  });
+
+  test("短语和排除词的校验应该不区分大小写", () => {
+    const constraints = { phrases: ["Force Majeure"], excluded: ["draft"] };
+
+    expect(matchesQueryConstraints("第十条 FORCE MAJEURE 不可抗力", constraints)).toBe(true);
+    expect(matchesQueryConstraints("第十条 force majeure（Draft）", constraints)).toBe(false);
+    expect(matchesQueryConstraints("第十条 Force-Majeure", constraints)).toBe(false);
+  });
+});
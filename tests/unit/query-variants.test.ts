@@ -0,0 +1,79 @@
+/**
+ * 查询变体模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  editDistance,
+  generateQueryVariants,
+  pinyinKeys,
+  toSimplified,
+  toTraditional
+} from "../../src/services/query-variants.js";
+
+describe("查询变体", () => {
+  const names = ["张三", "李四", "法务部", "采购合同", "会议纪要", "Alice"];
+
+  test("应该进行繁简转换", () => {
+    expect(toSimplified("採購合同")).toBe("采购合同");
+    expect(toTraditional("会议纪要")).toBe("會議紀要");
+    expect(generateQueryVariants("採購合同", [])).toEqual([
+      { kind: "script", query: "采购合同", replacements: [{ from: "採購", to: "采购" }] }
+    ]);
+  });
+
+  test("含无法确定繁简写法的字时不应生成繁简转换变体", () => {
+    expect(generateQueryVariants("违约责任", [])).toEqual([]);
+    expect(generateQueryVariants("違約責任", [])).toEqual([]);
+    expect(generateQueryVariants("zhangsan 违约", names)).toEqual([
+      { kind: "pinyin", query: "张三 违约", replacements: [{ from: "zhangsan", to: "张三" }] }
+    ]);
+  });
+
+  test("应该将拼音替换为拼音相同的名称", () => {
+    expect(pinyinKeys("张三")).toEqual(["zhangsan"]);
+    expect(pinyinKeys("长江")).toEqual(["changjiang", "zhangjiang"]);
+    expect(pinyinKeys("张三丰")).toEqual([]);
+    expect(generateQueryVariants("zhangsan 的合同", names)).toEqual([
+      { kind: "pinyin", query: "张三 的合同", replacements: [{ from: "zhangsan", to: "张三" }] }
+    ]);
+    expect(generateQueryVariants("Zhang San 採購", names).map(variant => variant.query)).toEqual([
+      "Zhang San 采购",
+      "张三 采购"
+    ]);
+  });
+
+  test("字段限定符名称不应被替换", () => {
+    expect(generateQueryVariants("submitter:lisi", names)).toEqual([
+      { kind: "pinyin", query: "submitter:李四", replacements: [{ from: "lisi", to: "李四" }] }
+    ]);
+  });
+
+  test("应该将近音字和相差一个字的片段替换为名称", () => {
+    expect(generateQueryVariants("张珊的采购合约", names).filter(variant => variant.kind === "fuzzy")).toEqual([
+      {
+        kind: "fuzzy",
+        query: "张三的采购合同",
+        replacements: [
+          { from: "张珊", to: "张三" },
+          { from: "采购合约", to: "采购合同" }
+        ]
+      }
+    ]);
+    expect(generateQueryVariants("alcie budget", names)).toEqual([
+      { kind: "fuzzy", query: "Alice budget", replacements: [{ from: "alcie", to: "Alice" }] }
+    ]);
+  });
+
+  test("已与名称完全一致的片段不应被模糊替换", () => {
+    expect(generateQueryVariants("法务部会议纪要", names).map(variant => variant.kind)).toEqual(["script"]);
+    // 三字名称只按近音匹配，财务部不会被替换为法务部
+    expect(generateQueryVariants("财务部预算", ["法务部"]).map(variant => variant.kind)).toEqual(["script"]);
+  });
+
+  test("编辑距离应该将相邻两字互换计为一次编辑", () => {
+    expect(editDistance("采购合同", "购采合同")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "合同")).toBe(2);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * 相关性评分模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { RelevanceScorer, type RelevanceScorerOptions } from "../../src/services/relevance-scorer.js";
+
+const NOW = Date.parse("2024-06-01T00:00:00Z");
+
+const baseOptions: RelevanceScorerOptions = {
+  query: "合同 签署",
+  keywords: ["合同", "签署"],
+  weights: { termFrequency: 0.4, proximity: 0.2, title: 0.25, recency: 0.15 },
+  recencyHalfLifeDays: 365,
+  averageLength: 100,
+  now: NOW
+};
+
+describe("相关性评分", () => {
+  test("应该统计关键词词频", () => {
+    const scorer = new RelevanceScorer(baseOptions);
+    const result = scorer.score({ title: "", content: "合同签署。合同归档。" });
+
+    expect(result.termCounts).toEqual({ 合同: 2, 签署: 1 });
+    expect(result.components.termFrequency).toBeGreaterThan(0);
+  });
+
+  test("关键词越靠近邻近度越高", () => {
+    const scorer = new RelevanceScorer(baseOptions);
+    const near = scorer.score({ title: "", content: "合同签署流程" });
+    const far = scorer.score({ title: "", content: `合同${"x".repeat(300)}签署` });
+
+    expect(near.components.proximity).toBeGreaterThan(far.components.proximity);
+  });
+
+  test("标题命中应该按关键词比例计分", () => {
+    const scorer = new RelevanceScorer(baseOptions);
+
+    expect(scorer.score({ title: "合同管理办法", content: "" }).components.title).toBe(0.5);
+    expect(scorer.score({ title: "合同签署规范", content: "" }).components.title).toBe(1);
+  });
+
+  test("时效性应该按半衰期衰减，缺少日期记0分", () => {
+    const scorer = new RelevanceScorer(baseOptions);
+
+    expect(scorer.score({ title: "", content: "", date: "2023-06-02T00:00:00Z" }).components.recency).toBe(0.5);
+    expect(scorer.score({ title: "", content: "", date: null }).components.recency).toBe(0);
+  });
+
+  test("应该按配置的权重加权", () => {
+    const scorer = new RelevanceScorer({
+      ...baseOptions,
+      weights: { termFrequency: 0, proximity: 0, title: 1, recency: 0 }
+    });
+
+    expect(scorer.score({ title: "合同", content: "合同签署合同签署" }).score).toBe(0.5);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * 资源模板模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { RESOURCE_TEMPLATES, buildFileContentUri, matchResourceUri } from "../../src/services/resource-templates.js";
+
+describe("资源模板", () => {
+  test("每种资源类型应该只有一个模板", () => {
+    expect(RESOURCE_TEMPLATES.map(template => template.kind)).toEqual([
+      "metadata",
+      "files",
+      "fileContent",
+      "extractedContent"
+    ]);
+  });
+
+  test("应该将URI匹配到对应的资源类型", () => {
+    expect(matchResourceUri("ldims://docs/42/metadata")).toMatchObject({ kind: "metadata", documentId: "42" });
+    expect(matchResourceUri("ldims://docs/42/files")).toMatchObject({ kind: "files", documentId: "42" });
+    expect(matchResourceUri("ldims://docs/42/extracted_content")).toMatchObject({
+      kind: "extractedContent",
+      documentId: "42"
+    });
+  });
+
+  test("应该解析文件ID和查询参数", () => {
+    const resource = matchResourceUri("ldims://docs/42/files/7/content?offset=20000&length=100");
+
+    expect(resource).toMatchObject({ kind: "fileContent", documentId: "42", fileId: "7" });
+    expect(Object.fromEntries(resource!.query)).toEqual({ offset: "20000", length: "100" });
+  });
+
+  test("应该解码路径参数，与构建的URI互逆", () => {
+    const uri = buildFileContentUri("doc 1", "a/b");
+
+    expect(uri).toBe("ldims://docs/doc%201/files/a%2Fb/content");
+    expect(matchResourceUri(uri)).toMatchObject({ kind: "fileContent", documentId: "doc 1", fileId: "a/b" });
+  });
+
+  test("不匹配任何模板或编码错误时应该返回 undefined", () => {
+    expect(matchResourceUri("ldims://docs/42")).toBeUndefined();
+    expect(matchResourceUri("ldims://docs/42/files/7")).toBeUndefined();
+    expect(matchResourceUri("ldims://other/42/metadata")).toBeUndefined();
+    expect(matchResourceUri("ldims://docs/%E0%A4%A/metadata")).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * 搜索结果说明模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { explainResult, mergeExplainTerms } from "../../src/services/search-explain.js";
+
+describe("搜索结果说明", () => {
+  const relevance = {
+    score: 0.5,
+    components: { termFrequency: 0.6, proximity: 0.4, title: 1, recency: 0 },
+    termCounts: {}
+  };
+  const weights = { termFrequency: 0.4, proximity: 0.2, title: 0.2, recency: 0.2 };
+
+  test("合并检索词时应该去重并保留首次出现的来源", () => {
+    expect(
+      mergeExplainTerms([
+        ["query", ["合同", "PDF"]],
+        ["expansion", ["合同", "协议", "pdf"]],
+        ["phrase", ["违约责任"]]
+      ])
+    ).toEqual([
+      { term: "合同", source: "query" },
+      { term: "PDF", source: "query" },
+      { term: "协议", source: "expansion" },
+      { term: "违约责任", source: "phrase" }
+    ]);
+  });
+
+  test("应该按标题、备注和文件统计检索词命中", () => {
+    const explanation = explainResult({
+      rank: 2,
+      document: { docName: "采购合同", remarks: "合同备注" },
+      files: [
+        { fileId: "11", fileName: "a.txt", content: "合同第一条。合同第二条。" },
+        { fileId: "12", fileName: "b.txt", content: "附件" }
+      ],
+      terms: [
+        { term: "合同", source: "query" },
+        { term: "违约", source: "query" }
+      ],
+      relevance,
+      weights,
+      filters: { values: {}, upstream: [], local: [], phrases: [], excluded: [] }
+    });
+
+    expect(explanation.rank).toBe(2);
+    expect(explanation.termHits).toEqual([
+      {
+        term: "合同",
+        source: "query",
+        total: 4,
+        titleCount: 1,
+        remarksCount: 1,
+        files: [{ fileId: "11", fileName: "a.txt", count: 2 }]
+      },
+      { term: "违约", source: "query", total: 0, titleCount: 0, remarksCount: 0, files: [] }
+    ]);
+  });
+
+  test("应该给出各评分维度的贡献", () => {
+    const explanation = explainResult({
+      rank: 1,
+      document: {},
+      files: [],
+      terms: [],
+      relevance,
+      weights,
+      filters: { values: {}, upstream: [], local: [], phrases: [], excluded: [] }
+    });
+
+    expect(explanation.relevanceScore).toBe(0.5);
+    expect(explanation.scoreBreakdown.termFrequency).toEqual({ score: 0.6, weight: 0.4, contribution: 0.24 });
+    expect(explanation.scoreBreakdown.title.contribution).toBe(0.2);
+    expect(explanation.scoreBreakdown.recency.contribution).toBe(0);
+  });
+
+  test("应该列出过滤条件的生效位置和文档字段值", () => {
+    const explanation = explainResult({
+      rank: 1,
+      document: { docTypeName: "合同", createdAt: "2024-03-01T00:00:00Z" },
+      files: [],
+      terms: [],
+      relevance,
+      weights,
+      filters: {
+        values: { documentType: "合同", dateFrom: "2024-01-01" },
+        upstream: ["documentType"],
+        local: ["dateFrom"],
+        phrases: ["违约责任"],
+        excluded: []
+      }
+    });
+
+    expect(explanation.filters).toEqual([
+      { filter: "documentType", value: "合同", appliedAt: "upstream", documentValue: "合同" },
+      { filter: "dateFrom", value: "2024-01-01", appliedAt: "local", documentValue: "2024-03-01T00:00:00Z" },
+      { filter: "phrases", value: ["违约责任"], appliedAt: "local" }
+    ]);
+  });
+});
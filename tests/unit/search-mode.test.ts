@@ -0,0 +1,54 @@
+/**
+ * 搜索模式模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { expandQuery, findPhrasePositions, matchExactPhrase } from "../../src/services/search-mode.js";
+
+describe("搜索模式", () => {
+  describe("expandQuery", () => {
+    test("应该补充同义词并保留原始关键词在前", () => {
+      const expansion = expandQuery("合同 审批");
+
+      expect(expansion.terms.slice(0, 2)).toEqual(["合同", "审批"]);
+      expect(expansion.synonyms).toEqual(expect.arrayContaining(["协议", "契约", "批准"]));
+      expect(expansion.searchText).toBe(expansion.terms.join(" "));
+    });
+
+    test("应该拆分包含词典词的长关键词", () => {
+      const expansion = expandQuery("合同违约责任");
+
+      expect(expansion.splitTerms).toEqual(expect.arrayContaining(["合同", "违约"]));
+      expect(expansion.terms[0]).toBe("合同违约责任");
+    });
+
+    test("扩展后的查询词应该有上限", () => {
+      expect(expandQuery("合同 违约 付款 费用 审批 员工").terms.length).toBeLessThanOrEqual(12);
+    });
+  });
+
+  describe("exact 匹配", () => {
+    test("应该返回所有字面命中位置（区分大小写）", () => {
+      expect(findPhrasePositions("HT-2024-001 与 ht-2024-001 及 HT-2024-001", "HT-2024-001")).toEqual([0, 28]);
+    });
+
+    test("应该在文档名称、备注和文件内容中查找完整短语", () => {
+      const matches = matchExactPhrase(
+        {
+          docName: "第五条 违约责任",
+          remarks: "无",
+          files: [
+            { id: 1, fileName: "a.txt", extractedContent: "  第五条 违约责任：……" },
+            { id: 2, fileName: "b.txt", extractedContent: "违约 责任" }
+          ]
+        },
+        "违约责任"
+      );
+
+      expect(matches).toEqual([
+        { field: "docName", positions: [4] },
+        { field: "file", fileId: "1", fileName: "a.txt", positions: [4] }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * 搜索结果排序模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import { compareBySortField, planSort } from "../../src/services/search-sort.js";
+
+describe("搜索结果排序", () => {
+  describe("planSort", () => {
+    test("应该按字段使用默认排序方向", () => {
+      expect(planSort().sortOrder).toBe("desc");
+      expect(planSort("createdAt").sortOrder).toBe("desc");
+      expect(planSort("handoverDate").sortOrder).toBe("desc");
+      expect(planSort("documentName").sortOrder).toBe("asc");
+      expect(planSort("documentName", "desc").sortOrder).toBe("desc");
+    });
+
+    test("LDIMS支持的排序字段应该转发给LDIMS", () => {
+      const plan = planSort("handoverDate", "asc");
+
+      expect(plan.appliedAt).toBe("upstream");
+      expect(plan.upstreamParams).toEqual({ sortBy: "handoverDate", sortOrder: "asc" });
+      expect(planSort("createdAt").upstreamParams).toEqual({ sortBy: "createdAt", sortOrder: "desc" });
+    });
+
+    test("LDIMS不支持的排序字段应该在本地执行", () => {
+      const plan = planSort("documentName", "desc");
+
+      expect(plan.appliedAt).toBe("local");
+      expect(plan.upstreamParams).toEqual({});
+    });
+  });
+
+  describe("compareBySortField", () => {
+    const documents = [
+      { docName: "b", createdAt: "2024-01-01T00:00:00Z" },
+      { docName: "a", createdAt: "2024-06-01T00:00:00Z" },
+      { docName: "c", createdAt: null },
+      { docName: "d", createdAt: "2023-06-01T00:00:00Z" }
+    ];
+
+    test("应该按日期降序排列并将缺少日期的文档排在最后", () => {
+      const sorted = [...documents].sort(compareBySortField("createdAt", "desc"));
+
+      expect(sorted.map(doc => doc.docName)).toEqual(["a", "b", "d", "c"]);
+    });
+
+    test("升序时缺少日期的文档同样排在最后", () => {
+      const sorted = [...documents].sort(compareBySortField("createdAt", "asc"));
+
+      expect(sorted.map(doc => doc.docName)).toEqual(["d", "b", "a", "c"]);
+    });
+
+    test("应该按中文文档名称排序", () => {
+      const sorted = [{ docName: "采购合同" }, { docName: "" }, { docName: "保密协议" }, { docName: "租赁合同" }].sort(
+        compareBySortField("documentName", "asc")
+      );
+
+      expect(sorted.map(doc => doc.docName)).toEqual(["保密协议", "采购合同", "租赁合同", ""]);
+    });
+
+    test("移交日期相同的文档应该保持原有顺序", () => {
+      const sorted = [
+        { docName: "x", handoverDate: "2024-01-01" },
+        { docName: "y", handoverDate: "2024-01-01" },
+        { docName: "z", handoverDate: "2024-02-01" }
+      ].sort(compareBySortField("handoverDate", "desc"));
+
+      expect(sorted.map(doc => doc.docName)).toEqual(["z", "x", "y"]);
+    });
+  });
+});
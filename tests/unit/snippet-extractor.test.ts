@@ -0,0 +1,114 @@
+/**
+ * 片段抽取模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  extractKeywords,
+  extractSnippets,
+  extractSnippetsFromSource,
+  buildLeadingPreview,
+  type SnippetExtractionOptions
+} from "../../src/services/snippet-extractor.js";
+
+const baseOptions: SnippetExtractionOptions = {
+  contextChars: 20,
+  mergeOverlapping: true,
+  maxSnippets: 10,
+  includeScoringDetails: false
+};
+
+describe("片段抽取", () => {
+  describe("extractKeywords", () => {
+    test("应该按空白和标点拆分并去重", () => {
+      expect(extractKeywords("合同  签署，合同 Review review")).toEqual(["合同", "签署", "Review"]);
+    });
+
+    test("应该忽略空查询", () => {
+      expect(extractKeywords("  ，。 ")).toEqual([]);
+    });
+  });
+
+  describe("extractSnippetsFromSource", () => {
+    const content =
+      "第一章 总则。本制度适用于全部门。" +
+      "x".repeat(200) +
+      "。第二章 合同签署流程需经法务审核。合同签署后归档。" +
+      "y".repeat(200) +
+      "。附则：合同解释权归公司所有。";
+
+    test("应该定位关键词并返回原文偏移", () => {
+      const snippets = extractSnippetsFromSource({ fileId: "1", fileName: "a.txt", content }, ["合同"], baseOptions);
+
+      expect(snippets.length).toBeGreaterThan(0);
+      for (const snippet of snippets) {
+        expect(content.slice(snippet.original_char_start, snippet.original_char_end)).toBe(snippet.content);
+        expect(snippet.content).toContain("合同");
+        expect(snippet.file_id).toBe("1");
+      }
+    });
+
+    test("应该将片段边界对齐到句子边界", () => {
+      const snippets = extractSnippetsFromSource({ fileId: "1", fileName: "a.txt", content }, ["签署"], baseOptions);
+      const first = snippets[0]!;
+
+      expect(first.content.startsWith("第二章")).toBe(true);
+      expect(first.content.endsWith("。")).toBe(true);
+    });
+
+    test("应该合并相邻片段，关闭合并时保留独立片段", () => {
+      const merged = extractSnippetsFromSource({ fileId: "1", fileName: "a.txt", content }, ["合同签署"], baseOptions);
+      const separate = extractSnippetsFromSource({ fileId: "1", fileName: "a.txt", content }, ["合同签署"], {
+        ...baseOptions,
+        mergeOverlapping: false
+      });
+
+      expect(merged).toHaveLength(1);
+      expect(separate).toHaveLength(2);
+    });
+
+    test("应该按需返回评分明细", () => {
+      const snippets = extractSnippetsFromSource({ fileId: "1", fileName: "a.txt", content }, ["合同", "法务"], {
+        ...baseOptions,
+        includeScoringDetails: true
+      });
+
+      expect(snippets[0]!.scoring_details).toBeDefined();
+      expect(snippets[0]!.scoring_details!.unique_keywords).toBe(2);
+    });
+
+    test("未命中关键词时返回空数组", () => {
+      expect(extractSnippetsFromSource({ fileId: "1", fileName: "a.txt", content }, ["预算"], baseOptions)).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("extractSnippets", () => {
+    test("应该跨文件按评分降序排序并限制数量", () => {
+      const snippets = extractSnippets(
+        [
+          { fileId: "1", fileName: "a.txt", content: "附件说明。合同。" },
+          { fileId: "2", fileName: "b.txt", content: "合同签署由法务负责。" }
+        ],
+        ["合同", "签署", "法务"],
+        { ...baseOptions, maxSnippets: 1 }
+      );
+
+      expect(snippets).toHaveLength(1);
+      expect(snippets[0]!.file_id).toBe("2");
+      expect(snippets[0]!.keywords_matched).toEqual(["合同", "签署", "法务"]);
+    });
+  });
+
+  describe("buildLeadingPreview", () => {
+    test("短文本应原样返回", () => {
+      expect(buildLeadingPreview("  简短内容。 ", 100)).toBe("简短内容。");
+    });
+
+    test("长文本应截断到句子边界", () => {
+      const preview = buildLeadingPreview("第一句话。第二句话比较长一些。第三句。", 7);
+      expect(preview).toBe("第一句话。第二句话比较长一些。…");
+    });
+  });
+});
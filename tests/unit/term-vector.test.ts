@@ -0,0 +1,54 @@
+/**
+ * 词项向量模块单元测试
+ */
+
+import { describe, test, expect } from "@jest/globals";
+import {
+  buildTermVector,
+  computeIdf,
+  cosineSimilarity,
+  selectDistinctiveTerms
+} from "../../src/services/term-vector.js";
+
+describe("词项向量", () => {
+  test("应该统计词频并忽略单字、数字和标点", () => {
+    const vector = buildTermVector(["合同", "的", "2024", "合同", "PDF", "pdf", "—", "违约"]);
+
+    expect(Array.from(vector.entries())).toEqual([
+      ["合同", 2],
+      ["pdf", 2],
+      ["违约", 1]
+    ]);
+  });
+
+  test("应该忽略公文和合同中的套话", () => {
+    expect(Array.from(buildTermVector(["甲方", "乙方", "本合同", "约定", "光伏", "光伏"]).keys())).toEqual(["光伏"]);
+  });
+
+  test("特征词应该优先选择高频且较长的词", () => {
+    const vector = buildTermVector(["合同", "合同", "合同", "知识产权", "付款", "保密"]);
+
+    expect(selectDistinctiveTerms(vector, 2)).toEqual(["合同", "知识产权"]);
+  });
+
+  test("相同向量的余弦相似度应该为 1，无共有词时为 0", () => {
+    const a = buildTermVector(["采购", "合同", "违约"]);
+    const b = buildTermVector(["会议", "纪要"]);
+    const idf = computeIdf([a, b]);
+
+    expect(cosineSimilarity(a, a, idf).similarity).toBeCloseTo(1);
+    expect(cosineSimilarity(a, b, idf)).toEqual({ similarity: 0, sharedTerms: [] });
+  });
+
+  test("应该按贡献降序返回共有词，稀有词的贡献更大", () => {
+    const source = buildTermVector(["采购", "合同", "违约", "违约"]);
+    const candidate = buildTermVector(["采购", "合同", "违约", "付款"]);
+    const other = buildTermVector(["采购", "合同", "会议"]);
+    const idf = computeIdf([source, candidate, other]);
+
+    const result = cosineSimilarity(source, candidate, idf);
+
+    expect(result.sharedTerms).toEqual(["违约", "采购", "合同"]);
+    expect(result.similarity).toBeGreaterThan(cosineSimilarity(source, other, idf).similarity);
+  });
+});